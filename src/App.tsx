@@ -1,41 +1,150 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
 import { Container, Navbar, Button, Form, Alert, Spinner, Card } from 'react-bootstrap';
-import { FileEarmarkArrowUp, FileEarmarkArrowDown, InfoCircleFill, Image, FileEarmarkCode } from 'react-bootstrap-icons';
-import JsonEditor from './components/JsonEditor';
+import { FileEarmarkArrowUp, FileEarmarkArrowDown, InfoCircleFill, Image, FileEarmarkCode, Book, CloudDownload, PlayCircle } from 'react-bootstrap-icons';
+import JsonEditor, { EditorDiagnostic } from './components/JsonEditor';
+import ProblemsList from './components/ProblemsList';
+import ConversionReport from './components/ConversionReport';
 import BpmnViewer from './components/BpmnViewer';
 import Welcome from './components/Welcome';
-import { convertPlanDefinitionToBpmn } from './lib/plandefinition-to-bpmn';
+import FhirServerDialog from './components/FhirServerDialog';
+import SimulationPanel from './components/SimulationPanel';
+import {
+    BpmnModel,
+    BpmnSourceMap,
+    ConversionMessage,
+    ConversionStatistics,
+    ExportProfile,
+    convertPlanDefinitionToBpmn,
+    convertPlanDefinitionsToBpmn
+} from './lib/plandefinition-to-bpmn';
+import { findPlanDefinitions, isBundle } from './lib/fhir-bundle';
+import { CanonicalResolver } from './lib/canonical-resolver';
+import { FhirResource } from './lib/fhir-types';
+import { PlanDefinitionPackage } from './lib/fhir-client';
+import { FhirFormat, detectFormat, formatFhir, isFhirXml, parseFhir } from './lib/fhir-xml';
+import { convertBpmnToPlanDefinition } from './lib/bpmn-to-plandefinition';
+import { LayoutOrientation } from './lib/bpmn-layout';
+import { ConditionLanguage } from './lib/expression-translator';
+import { JsonRange, findActionAt, locateActions, locateJson } from './lib/json-locator';
+import { ValidationIssue, validatePlanDefinition } from './lib/plandefinition-validation';
+import { ActionResult, TestPatient, loadTestPatient, simulatePlanDefinitions, traceSimulation } from './lib/plandefinition-simulation';
 import { saveAs } from 'file-saver';
 import './styles/App.css';
 import samplePlanDefinition from './sample-plandefinition.json';
 
 const App: React.FC = () => {
-    const [planDefinitionJson, setPlanDefinitionJson] = useState(JSON.stringify(samplePlanDefinition, null, 2));
+    const [planDefinitionText, setPlanDefinitionText] = useState(JSON.stringify(samplePlanDefinition, null, 2));
     const [bpmnXml, setBpmnXml] = useState<string | null>(null);
     const [error, setError] = useState<string | null>(null);
+    const [importWarnings, setImportWarnings] = useState<string[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [selectedElement, setSelectedElement] = useState<any | null>(null);
+    const [sourceMap, setSourceMap] = useState<BpmnSourceMap>({ paths: {}, elements: {} });
+    const [bpmnModel, setBpmnModel] = useState<BpmnModel | null>(null);
+    const [conversionReport, setConversionReport] = useState<{
+        messages: ConversionMessage[];
+        statistics: ConversionStatistics;
+    } | null>(null);
+    const [highlightRange, setHighlightRange] = useState<JsonRange | undefined>(undefined);
+    const [selectedElementId, setSelectedElementId] = useState<string | undefined>(undefined);
+    const [collapseSubProcesses, setCollapseSubProcesses] = useState(false);
+    const [orientation, setOrientation] = useState<LayoutOrientation>('left-to-right');
+    const [exportProfile, setExportProfile] = useState<ExportProfile>('bpmn');
+    // Language conditions are translated to, or '' to keep them as written
+    const [conditionLanguage, setConditionLanguage] = useState<ConditionLanguage | ''>('');
+    // Path of the Bundle entry shown, or 'all' for every PlanDefinition in the Bundle
+    const [selectedPlan, setSelectedPlan] = useState('all');
+    // Resources that definitionCanonical references are resolved against
+    const [library, setLibrary] = useState<FhirResource[]>([]);
+    const [showServerDialog, setShowServerDialog] = useState(false);
+    const [simulating, setSimulating] = useState(false);
+    const [testPatient, setTestPatient] = useState<TestPatient | null>(null);
+    // Incremented to play the simulation again
+    const [replayCount, setReplayCount] = useState(0);
     const bpmnViewerRef = useRef<any>(null);
 
+    const format = detectFormat(planDefinitionText);
+    const { resource, parseError } = useMemo((): { resource?: any; parseError?: string } => {
+        try {
+            return { resource: parseFhir(planDefinitionText) };
+        } catch (e: any) {
+            return { parseError: e.message };
+        }
+    }, [planDefinitionText]);
+    const bundle = isBundle(resource);
+    const rootPath = bundle ? 'Bundle' : 'PlanDefinition';
+    const planEntries = useMemo(() => bundle ? findPlanDefinitions(resource) : [], [bundle, resource]);
+    const shownPlans = useMemo(() => {
+        const selected = planEntries.filter(entry => entry.path === selectedPlan);
+        return selected.length > 0 ? selected : planEntries;
+    }, [planEntries, selectedPlan]);
+    const resolver = useMemo(() => new CanonicalResolver(library), [library]);
+
     // Ensure default XML is passed to BpmnViewer
     useEffect(() => {
         setIsLoading(true);
         try {
-            const planDefinition = JSON.parse(planDefinitionJson);
-            const xml = convertPlanDefinitionToBpmn(planDefinition);
-            setBpmnXml(xml);
+            const options = {
+                collapseSubProcesses,
+                orientation,
+                exportProfile,
+                conditionLanguage: conditionLanguage || undefined,
+                resolver: bundle ? resolver.withBundle(resource) : resolver
+            };
+            if (parseError !== undefined) throw new Error(parseError);
+            if (bundle && shownPlans.length === 0) throw new Error('The Bundle contains no PlanDefinition');
+            const result = bundle
+                ? convertPlanDefinitionsToBpmn(shownPlans, options)
+                : convertPlanDefinitionToBpmn(resource, options);
+            setBpmnXml(result.xml);
+            setSourceMap(result.sourceMap);
+            setBpmnModel(result.model);
+            setConversionReport({ messages: result.messages, statistics: result.statistics });
             setError(null);
         } catch (e: any) {
-            setError('Invalid JSON or transformation error: ' + e.message);
+            setError(`Invalid ${format.toUpperCase()} or transformation error: ` + e.message);
+            setConversionReport(null);
+            setBpmnModel(null);
             setBpmnXml('<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI" xmlns:dc="http://www.omg.org/spec/DD/20100524/DC" xmlns:di="http://www.omg.org/spec/DD/20100524/DI" id="Definitions_1" targetNamespace="http://bpmn.io/schema/bpmn">\n<bpmn:process id="Process_1" isExecutable="false"/>\n</bpmn:definitions>');
         } finally {
             setIsLoading(false);
         }
-    }, [planDefinitionJson]);
+    }, [resource, parseError, format, bundle, shownPlans, resolver, collapseSubProcesses, orientation, exportProfile, conditionLanguage]);
+
+    // How the actions evaluate for the test patient, and the path that takes through the diagram
+    const simulationResults = useMemo((): ActionResult[] => {
+        if (!simulating || !testPatient || resource === undefined) return [];
+        return simulatePlanDefinitions(bundle ? shownPlans : findPlanDefinitions(resource), testPatient);
+    }, [simulating, testPatient, resource, bundle, shownPlans]);
+    const simulationTrace = useMemo(() => {
+        if (!simulating || !testPatient || !bpmnModel) return undefined;
+        return traceSimulation(bpmnModel.elements, simulationResults);
+    }, [simulating, testPatient, bpmnModel, simulationResults, replayCount]);
+
+    // Where each action is in the editor, to link it with its shapes
+    const actionLocations = useMemo(() => locateActions(planDefinitionText, rootPath), [planDefinitionText, rootPath]);
+
+    const jsonLocations = useMemo(() => locateJson(planDefinitionText, rootPath), [planDefinitionText, rootPath]);
+    const validationIssues = useMemo(() => {
+        // Syntax errors are already marked by the editor
+        if (resource === undefined) return [];
+        if (!bundle) return validatePlanDefinition(resource);
+        return planEntries.flatMap(entry => validatePlanDefinition(entry.planDefinition, entry.path));
+    }, [resource, bundle, planEntries]);
+
+    const getIssueRange = useCallback((issue: ValidationIssue): JsonRange | undefined => {
+        const location = jsonLocations.get(issue.path);
+        return issue.onKey && location?.key ? location.key : location?.value;
+    }, [jsonLocations]);
+
+    const diagnostics = useMemo(() => validationIssues.flatMap((issue): EditorDiagnostic[] => {
+        const range = getIssueRange(issue);
+        return range ? [{ range, severity: issue.severity, message: issue.message }] : [];
+    }), [validationIssues, getIssueRange]);
 
     const handleJsonChange = (value: string | undefined) => {
         if (value) {
-            setPlanDefinitionJson(value);
+            setPlanDefinitionText(value);
         }
     };
 
@@ -45,15 +154,71 @@ const App: React.FC = () => {
             const reader = new FileReader();
             reader.onload = (e) => {
                 const content = e.target?.result as string;
-                setPlanDefinitionJson(content);
+                if (/\.(bpmn|xml)$/i.test(file.name) && !isFhirXml(content)) {
+                    try {
+                        const result = convertBpmnToPlanDefinition(content);
+                        setPlanDefinitionText(JSON.stringify(result.planDefinition, null, 2));
+                        setImportWarnings(result.warnings);
+                        setError(null);
+                    } catch (err: any) {
+                        setError('Cannot import BPMN: ' + err.message);
+                    }
+                } else {
+                    setPlanDefinitionText(content);
+                    setImportWarnings([]);
+                }
             };
             reader.readAsText(file);
         }
     };
 
-    const handleSaveJson = () => {
-        const blob = new Blob([planDefinitionJson], { type: 'application/json;charset=utf-8' });
-        saveAs(blob, 'plandefinition.json');
+    const handleLoadLibrary = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(event.target.files || []);
+        const resources: FhirResource[] = [];
+        const invalid: string[] = [];
+        for (const file of files) {
+            try {
+                const resource = parseFhir(await file.text());
+                if (typeof resource?.resourceType !== 'string') throw new Error('not a FHIR resource');
+                resources.push(resource);
+            } catch {
+                invalid.push(file.name);
+            }
+        }
+        setLibrary(resources);
+        setError(invalid.length > 0 ? `Not loaded into the library: ${invalid.join(', ')}` : null);
+        event.target.value = '';
+    };
+
+    const handleLoadFromServer = (result: PlanDefinitionPackage) => {
+        setPlanDefinitionText(JSON.stringify(result.planDefinition, null, 2));
+        setLibrary(result.resources);
+        setImportWarnings(result.unresolved.map(canonical => `${canonical} was not found on the server`));
+        setError(null);
+    };
+
+    const handleLoadPatient = async (file: File) => {
+        try {
+            setTestPatient(loadTestPatient(parseFhir(await file.text())));
+            setError(null);
+        } catch (e: any) {
+            setError('Cannot load the test patient: ' + e.message);
+        }
+    };
+
+    const handleSaveDocument = () => {
+        const blob = new Blob([planDefinitionText], { type: `application/fhir+${format};charset=utf-8` });
+        saveAs(blob, `plandefinition.${format}`);
+    };
+
+    // Rewrites the document in a format, which also formats it
+    const handleFormatDocument = (targetFormat: FhirFormat) => {
+        try {
+            setPlanDefinitionText(formatFhir(parseFhir(planDefinitionText), targetFormat));
+            setError(null);
+        } catch (e: any) {
+            setError(`Cannot format ${format.toUpperCase()}: ` + e.message);
+        }
     };
 
     const handleExportBpmn = () => {
@@ -85,8 +250,32 @@ const App: React.FC = () => {
         }
     };
     
-    const handleElementClick = (element: any) => {
+    const handleElementClick = useCallback((element: any) => {
         setSelectedElement(element);
+        setSelectedElementId(element.id);
+        const path = sourceMap.paths[element.id];
+        setHighlightRange(path ? actionLocations.get(path) : undefined);
+    }, [sourceMap, actionLocations]);
+
+    const handleSelectMessage = (message: ConversionMessage) => {
+        const location = jsonLocations.get(message.path);
+        setHighlightRange(location && { ...location.value });
+    };
+
+    const handleSelectResult = (result: ActionResult) => {
+        const elementId = sourceMap.elements[result.path];
+        if (elementId) setSelectedElementId(elementId);
+        const location = actionLocations.get(result.path);
+        setHighlightRange(location && { ...location });
+    };
+
+    const handleCursorChange = (offset: number) => {
+        const path = findActionAt(actionLocations, offset);
+        const elementId = path && sourceMap.elements[path];
+        if (elementId) {
+            setSelectedElementId(elementId);
+            setHighlightRange(undefined);
+        }
     };
 
     return (
@@ -98,37 +287,149 @@ const App: React.FC = () => {
             </Navbar>
             <Container fluid className="app-container">
                 {error && <Alert variant="danger" dismissible onClose={() => setError(null)}>{error}</Alert>}
+                {importWarnings.length > 0 && (
+                    <Alert variant="warning" dismissible onClose={() => setImportWarnings([])}>
+                        Some elements could not be loaded:
+                        <ul className="mb-0">
+                            {importWarnings.map((warning, idx) => <li key={idx}>{warning}</li>)}
+                        </ul>
+                    </Alert>
+                )}
                 <div className="layout d-flex">
                     <div className="editor-container" style={{flex: '0 0 40%'}}>
-                        <h5>PlanDefinition JSON</h5>
+                        <h5>PlanDefinition {format.toUpperCase()}</h5>
                         <div className="mb-2">
-                            <input id="formFile" type="file" style={{display: 'none'}} onChange={handleLoadFile} accept=".json" />
+                            <input id="formFile" type="file" style={{display: 'none'}} onChange={handleLoadFile} accept=".json,.bpmn,.xml" />
                             <Button variant="secondary" size="sm" onClick={() => (document.getElementById('formFile') as HTMLInputElement).click()}>
                                 <FileEarmarkArrowUp className="me-1" />
-                                Load JSON
+                                Load JSON / XML / BPMN
                             </Button>
-                            <Button variant="primary" size="sm" onClick={handleSaveJson} className="ms-2">
+                            <Button variant="secondary" size="sm" onClick={() => setShowServerDialog(true)} className="ms-2">
+                                <CloudDownload className="me-1" />
+                                Open from FHIR server
+                            </Button>
+                            <Button variant="primary" size="sm" onClick={handleSaveDocument} className="ms-2">
                                 <FileEarmarkArrowDown className="me-1" />
-                                Save JSON
+                                Save {format.toUpperCase()}
+                            </Button>
+                            <Button variant="outline-secondary" size="sm" onClick={() => handleFormatDocument(format)} className="ms-2">
+                                Format {format.toUpperCase()}
+                            </Button>
+                            <Button
+                                variant="outline-secondary"
+                                size="sm"
+                                onClick={() => handleFormatDocument(format === 'json' ? 'xml' : 'json')}
+                                className="ms-2"
+                            >
+                                Convert to {format === 'json' ? 'XML' : 'JSON'}
                             </Button>
-                            <Button variant="outline-secondary" size="sm" onClick={() => {
-                                try {
-                                    const parsed = JSON.parse(planDefinitionJson);
-                                    setPlanDefinitionJson(JSON.stringify(parsed, null, 2));
-                                    setError(null);
-                                } catch (e:any) {
-                                    setError('Cannot format JSON: ' + e.message);
-                                }
-                            }} className="ms-2">
-                                Format JSON
+                            <input id="libraryFiles" type="file" multiple style={{display: 'none'}} onChange={handleLoadLibrary} accept=".json,.xml" />
+                            <Button
+                                variant="outline-secondary"
+                                size="sm"
+                                onClick={() => (document.getElementById('libraryFiles') as HTMLInputElement).click()}
+                                className="ms-2"
+                                title="ActivityDefinitions and other resources that definitionCanonical references point to"
+                            >
+                                <Book className="me-1" />
+                                Library{library.length > 0 && ` (${library.length})`}
                             </Button>
                         </div>
-                        <JsonEditor value={planDefinitionJson} onChange={handleJsonChange} />
+                        <JsonEditor
+                            value={planDefinitionText}
+                            language={format}
+                            onChange={handleJsonChange}
+                            highlightRange={highlightRange}
+                            onCursorChange={handleCursorChange}
+                            diagnostics={diagnostics}
+                            height={validationIssues.length > 0 ? 'calc(100vh - 360px)' : undefined}
+                        />
+                        {validationIssues.length > 0 && (
+                            <ProblemsList
+                                issues={validationIssues}
+                                onSelect={(issue) => {
+                                    // A new object, so selecting the same problem again reveals it again
+                                    const range = getIssueRange(issue);
+                                    setHighlightRange(range && { ...range });
+                                }}
+                            />
+                        )}
                     </div>
                     <div className="viewer-container" style={{flex: '1'}}>
                         <div className="d-flex justify-content-between align-items-center mb-2">
                             <h5 className="mb-0">BPMN Diagram</h5>
-                            <div>
+                            <div className="d-flex align-items-center">
+                                {planEntries.length > 0 && (
+                                    <Form.Select
+                                        size="sm"
+                                        value={shownPlans.length === 1 ? shownPlans[0].path : 'all'}
+                                        onChange={(e) => setSelectedPlan(e.target.value)}
+                                        className="me-3"
+                                        style={{width: 'auto', maxWidth: '250px'}}
+                                        aria-label="PlanDefinition shown"
+                                    >
+                                        {planEntries.length > 1 && <option value="all">All plans ({planEntries.length})</option>}
+                                        {planEntries.map(entry => (
+                                            <option key={entry.path} value={entry.path}>
+                                                {entry.planDefinition.title || entry.planDefinition.id || entry.path}
+                                            </option>
+                                        ))}
+                                    </Form.Select>
+                                )}
+                                <Form.Check
+                                    type="switch"
+                                    id="collapse-subprocesses"
+                                    label="Collapse sub-processes"
+                                    checked={collapseSubProcesses}
+                                    onChange={(e) => setCollapseSubProcesses(e.target.checked)}
+                                    className="me-3 mb-0"
+                                />
+                                <Form.Select
+                                    size="sm"
+                                    value={orientation}
+                                    onChange={(e) => setOrientation(e.target.value as LayoutOrientation)}
+                                    className="me-3"
+                                    style={{width: 'auto'}}
+                                    aria-label="Layout orientation"
+                                >
+                                    <option value="left-to-right">Left to right</option>
+                                    <option value="top-to-bottom">Top to bottom</option>
+                                </Form.Select>
+                                <Form.Select
+                                    size="sm"
+                                    value={exportProfile}
+                                    onChange={(e) => setExportProfile(e.target.value as ExportProfile)}
+                                    className="me-3"
+                                    style={{width: 'auto'}}
+                                    aria-label="Export profile"
+                                >
+                                    <option value="bpmn">BPMN 2.0</option>
+                                    <option value="zeebe">Camunda 8 (Zeebe)</option>
+                                </Form.Select>
+                                <Form.Select
+                                    size="sm"
+                                    value={exportProfile === 'zeebe' ? 'feel' : conditionLanguage}
+                                    onChange={(e) => setConditionLanguage(e.target.value as ConditionLanguage | '')}
+                                    disabled={exportProfile === 'zeebe'}
+                                    className="me-3"
+                                    style={{width: 'auto'}}
+                                    aria-label="Condition language"
+                                >
+                                    <option value="">Conditions as written</option>
+                                    <option value="feel">Conditions in FEEL</option>
+                                    <option value="juel">Conditions in JUEL</option>
+                                </Form.Select>
+                                <Button
+                                    variant={simulating ? 'primary' : 'outline-primary'}
+                                    size="sm"
+                                    onClick={() => setSimulating(!simulating)}
+                                    disabled={!bpmnXml}
+                                    className="me-2"
+                                    title="Evaluate the conditions against a test patient and follow their path"
+                                >
+                                    <PlayCircle className="me-1" />
+                                    Simulate
+                                </Button>
                                 <Button 
                                     variant="outline-primary" 
                                     size="sm" 
@@ -167,11 +468,32 @@ const App: React.FC = () => {
                                 ref={bpmnViewerRef}
                                 xml={bpmnXml} 
                                 onElementClick={handleElementClick} 
+                                selectedElementId={selectedElementId}
+                                simulation={simulationTrace}
                             />
                         ) : (
                             <Welcome />
                         )}
+                        {conversionReport && (
+                            <ConversionReport
+                                messages={conversionReport.messages}
+                                statistics={conversionReport.statistics}
+                                onSelect={handleSelectMessage}
+                            />
+                        )}
                     </div>
+                    {simulating && (
+                        <div className="simulation-container" style={{flex: '0 0 22%'}}>
+                            <SimulationPanel
+                                patient={testPatient}
+                                results={simulationResults}
+                                onLoadPatient={handleLoadPatient}
+                                onReplay={() => setReplayCount(count => count + 1)}
+                                onSelect={handleSelectResult}
+                                onClose={() => setSimulating(false)}
+                            />
+                        </div>
+                    )}
                 </div>
                 {selectedElement && (
                     <Card className="mt-3">
@@ -188,6 +510,11 @@ const App: React.FC = () => {
                     </Card>
                 )}
             </Container>
+            <FhirServerDialog
+                show={showServerDialog}
+                onHide={() => setShowServerDialog(false)}
+                onLoad={handleLoadFromServer}
+            />
         </>
     );
 };
@@ -0,0 +1,38 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { main } from './index';
+
+const PLAN_DEFINITION_JSON = JSON.stringify({ resourceType: 'PlanDefinition', action: [{ title: 'Assess' }] });
+const PLAN_DEFINITION_XML =
+  '<PlanDefinition xmlns="http://hl7.org/fhir"><action><title value="Assess"/></action></PlanDefinition>';
+
+describe('main', () => {
+  let dir: string;
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plandefinition-to-bpmn-'));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('fails the second of two inputs that would write the same output', () => {
+    fs.writeFileSync(path.join(dir, 'plan.json'), PLAN_DEFINITION_JSON);
+    fs.writeFileSync(path.join(dir, 'plan.xml'), PLAN_DEFINITION_XML);
+
+    expect(main(['--json', dir])).toBe(1);
+    const { files } = JSON.parse(vi.mocked(console.log).mock.calls[0][0]);
+    expect(files.map((file: any) => file.status)).toEqual(['converted', 'failed']);
+    expect(files[1].error).toContain('was already written for');
+    expect(fs.readFileSync(path.join(dir, 'plan.bpmn'), 'utf8')).toContain('Assess');
+  });
+
+  it('rejects standard input as a usage error', () => {
+    expect(main(['-'])).toBe(2);
+    expect(vi.mocked(console.error).mock.calls[0][0]).toContain('standard input is not supported');
+  });
+});
@@ -0,0 +1,385 @@
+#!/usr/bin/env node
+/**
+ * cli/index.ts
+ * Command-line converter from FHIR PlanDefinition JSON files to BPMN, SVG and PNG
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ConversionMessage,
+  ConversionStatistics,
+  ExportProfile,
+  convertPlanDefinitionsToBpmn
+} from '../lib/plandefinition-to-bpmn';
+import { LayoutOrientation } from '../lib/bpmn-layout';
+import { ConditionLanguage } from '../lib/expression-translator';
+import { renderBpmnSvg } from '../lib/bpmn-svg';
+import { findPlanDefinitions, isBundle } from '../lib/fhir-bundle';
+import { CanonicalResolver } from '../lib/canonical-resolver';
+import { FhirResource } from '../lib/fhir-types';
+import { detectFormat, isFhirXml, parseFhir } from '../lib/fhir-xml';
+
+type OutputFormat = 'bpmn' | 'svg' | 'png';
+
+interface CliOptions {
+  inputs: string[];
+  outDir?: string;
+  formats: OutputFormat[];
+  library: string[];
+  orientation?: LayoutOrientation;
+  collapseSubProcesses: boolean;
+  profile?: ExportProfile;
+  conditionLanguage?: ConditionLanguage;
+  strict: boolean;
+  json: boolean;
+}
+
+/**
+ * Outcome for one input file, as printed in the JSON summary
+ */
+interface FileResult {
+  input: string;
+  status: 'converted' | 'failed' | 'skipped';
+  outputs: string[];
+  messages: ConversionMessage[];
+  statistics?: ConversionStatistics;
+  error?: string;
+}
+
+/**
+ * An input file with the directory its output path is taken relative to
+ */
+interface InputFile {
+  file: string;
+  baseDir: string;
+}
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_FAILED = 1; // A file failed to convert, or had warnings in strict mode
+const EXIT_USAGE = 2;
+
+class UsageError extends Error {}
+
+const USAGE = `Usage: plandefinition-to-bpmn [options] <file|directory|glob>...
+
+Converts FHIR PlanDefinition JSON and XML files to BPMN 2.0 diagrams. A Bundle becomes
+one diagram with a pool for each PlanDefinition it contains.
+
+Options:
+  -o, --out-dir <dir>        Write the output files here instead of next to the inputs
+  -f, --format <formats>     Comma-separated output formats: bpmn, svg, png (default: bpmn)
+  -l, --library <path>       Resolve definitionCanonical references against the FHIR
+                             resources in this file or directory (repeatable)
+      --orientation <dir>    left-to-right (default) or top-to-bottom
+      --collapse             Draw actions with nested actions as collapsed sub-processes
+      --profile <engine>     bpmn (default) or zeebe, which adds the Camunda 8 extension
+                             elements needed to deploy the process
+      --conditions <lang>    Translate FHIRPath and CQL conditions to feel or juel
+                             (default: kept as written, feel with --profile zeebe)
+      --strict               Fail when a conversion reports warnings
+      --json                 Print a JSON summary instead of the progress log
+  -h, --help                 Show this help
+
+Exit codes: 0 all files converted, 1 a file failed (or had warnings with --strict), 2 usage error`;
+
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = { inputs: [], formats: ['bpmn'], library: [], collapseSubProcesses: false, strict: false, json: false };
+  const valueOf = (i: number, name: string) => {
+    if (i >= args.length) throw new UsageError(`${name} needs a value`);
+    return args[i];
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    switch (arg) {
+      case '-o':
+      case '--out-dir':
+        options.outDir = valueOf(++i, arg);
+        break;
+      case '-f':
+      case '--format': {
+        const formats = valueOf(++i, arg).split(',').map(f => f.trim().toLowerCase());
+        const invalid = formats.find(f => !['bpmn', 'svg', 'png'].includes(f));
+        if (invalid) throw new UsageError(`Unknown format "${invalid}"`);
+        options.formats = formats as OutputFormat[];
+        break;
+      }
+      case '-l':
+      case '--library':
+        options.library.push(valueOf(++i, arg));
+        break;
+      case '--orientation': {
+        const orientation = valueOf(++i, arg);
+        if (orientation !== 'left-to-right' && orientation !== 'top-to-bottom') {
+          throw new UsageError(`Unknown orientation "${orientation}"`);
+        }
+        options.orientation = orientation;
+        break;
+      }
+      case '--collapse':
+        options.collapseSubProcesses = true;
+        break;
+      case '--profile': {
+        const profile = valueOf(++i, arg);
+        if (profile !== 'bpmn' && profile !== 'zeebe') {
+          throw new UsageError(`Unknown profile "${profile}"`);
+        }
+        options.profile = profile;
+        break;
+      }
+      case '--conditions': {
+        const language = valueOf(++i, arg);
+        if (language !== 'feel' && language !== 'juel') {
+          throw new UsageError(`Unknown condition language "${language}"`);
+        }
+        options.conditionLanguage = language;
+        break;
+      }
+      case '--strict':
+        options.strict = true;
+        break;
+      case '--json':
+        options.json = true;
+        break;
+      case '-':
+        throw new UsageError('Reading from standard input is not supported, pass the file instead');
+      default:
+        if (arg.startsWith('-')) throw new UsageError(`Unknown option "${arg}"`);
+        options.inputs.push(arg);
+    }
+  }
+
+  if (options.inputs.length === 0) throw new UsageError('No input files given');
+  return options;
+}
+
+/**
+ * Expands the inputs into FHIR files: files as given, directories searched
+ * recursively for JSON and XML, and glob patterns with *, ** and ? matched against
+ * the file system
+ */
+function expandInputs(inputs: string[]): InputFile[] {
+  const files: InputFile[] = [];
+  for (const input of inputs) {
+    if (/[*?]/.test(input)) {
+      const baseDir = getGlobBase(input);
+      const pattern = globToRegExp(path.resolve(input));
+      const matches = listFiles(baseDir).filter(file => pattern.test(path.resolve(file)));
+      if (matches.length === 0) throw new UsageError(`No files match "${input}"`);
+      matches.forEach(file => files.push({ file, baseDir }));
+    } else if (fs.existsSync(input) && fs.statSync(input).isDirectory()) {
+      listFiles(input)
+        .filter(isFhirFileName)
+        .forEach(file => files.push({ file, baseDir: input }));
+    } else if (fs.existsSync(input)) {
+      files.push({ file: input, baseDir: path.dirname(input) });
+    } else {
+      throw new UsageError(`Input not found: ${input}`);
+    }
+  }
+  return files;
+}
+
+function isFhirFileName(file: string): boolean {
+  return /\.(json|xml)$/i.test(file);
+}
+
+function listFiles(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return entry.name === 'node_modules' ? [] : listFiles(file);
+    return entry.isFile() ? [file] : [];
+  }).sort();
+}
+
+/**
+ * The directory part of a glob pattern before its first wildcard
+ */
+function getGlobBase(pattern: string): string {
+  const segments = pattern.split(/[\\/]/);
+  const firstWildcard = segments.findIndex(segment => /[*?]/.test(segment));
+  return segments.slice(0, firstWildcard).join(path.sep) || '.';
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const normalized = pattern.split(path.sep).join('/');
+  let source = '';
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+    if (char === '*' && normalized[i + 1] === '*') {
+      // "**/" matches any number of directories, including none
+      source += normalized[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += normalized[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function getOutputPath(input: InputFile, format: OutputFormat, outDir?: string): string {
+  const name = `${path.basename(input.file, path.extname(input.file))}.${format}`;
+  if (!outDir) return path.join(path.dirname(input.file), name);
+  return path.join(outDir, path.relative(input.baseDir, path.dirname(input.file)), name);
+}
+
+/**
+ * Loads the optional PNG rasterizer, so the CLI still works without it for BPMN and SVG
+ */
+function renderPng(svg: string): Buffer {
+  let resvg: typeof import('@resvg/resvg-js');
+  try {
+    resvg = require('@resvg/resvg-js');
+  } catch {
+    throw new Error('PNG output needs the optional dependency @resvg/resvg-js');
+  }
+  const renderer = new resvg.Resvg(svg, { background: 'white', fitTo: { mode: 'zoom', value: 2 } });
+  return renderer.render().asPng();
+}
+
+/**
+ * Reads the resources of the --library paths, skipping files that are not FHIR
+ */
+function loadLibrary(paths: string[]): FhirResource[] {
+  return paths.flatMap(libraryPath => {
+    if (!fs.existsSync(libraryPath)) throw new UsageError(`Library not found: ${libraryPath}`);
+    const files = fs.statSync(libraryPath).isDirectory()
+      ? listFiles(libraryPath).filter(isFhirFileName)
+      : [libraryPath];
+    return files.flatMap(file => {
+      try {
+        const resource = parseFhir(fs.readFileSync(file, 'utf8'));
+        return typeof resource?.resourceType === 'string' ? [resource] : [];
+      } catch {
+        return [];
+      }
+    });
+  });
+}
+
+/**
+ * Converts one input file. Outputs already written for another input, e.g. a.bpmn
+ * for a.json and a.xml, are not overwritten and fail the file instead.
+ */
+function convertFile(
+  input: InputFile,
+  options: CliOptions,
+  resolver: CanonicalResolver,
+  written: Map<string, string>
+): FileResult {
+  const result: FileResult = { input: input.file, status: 'converted', outputs: [], messages: [] };
+  try {
+    const text = fs.readFileSync(input.file, 'utf8');
+    if (detectFormat(text) === 'xml' && !isFhirXml(text)) {
+      return { ...result, status: 'skipped', error: 'Not FHIR XML' };
+    }
+    const resource = parseFhir(text);
+    const planDefinitions = findPlanDefinitions(resource);
+    if (planDefinitions.length === 0) {
+      // Directories and globs often contain other FHIR resources
+      const reason = isBundle(resource) ? 'Bundle contains no PlanDefinition' : `Not a PlanDefinition: ${resource?.resourceType}`;
+      return { ...result, status: 'skipped', error: reason };
+    }
+
+    const conversion = convertPlanDefinitionsToBpmn(planDefinitions, {
+      orientation: options.orientation,
+      collapseSubProcesses: options.collapseSubProcesses,
+      exportProfile: options.profile,
+      conditionLanguage: options.conditionLanguage,
+      resolver: isBundle(resource) ? resolver.withBundle(resource) : resolver
+    });
+    result.messages = conversion.messages;
+    result.statistics = conversion.statistics;
+
+    const outputs = options.formats.map(format => getOutputPath(input, format, options.outDir));
+    const taken = outputs.find(output => written.has(path.resolve(output)));
+    if (taken) {
+      throw new Error(`${taken} was already written for ${written.get(path.resolve(taken))}`);
+    }
+    outputs.forEach(output => written.set(path.resolve(output), input.file));
+
+    const svg = options.formats.some(f => f !== 'bpmn')
+      ? renderBpmnSvg(conversion.model, { title: resource.title })
+      : '';
+    for (const format of options.formats) {
+      const output = getOutputPath(input, format, options.outDir);
+      fs.mkdirSync(path.dirname(output), { recursive: true });
+      if (format === 'bpmn') {
+        fs.writeFileSync(output, conversion.xml);
+      } else if (format === 'svg') {
+        fs.writeFileSync(output, svg);
+      } else {
+        fs.writeFileSync(output, renderPng(svg));
+      }
+      result.outputs.push(output);
+    }
+
+    if (options.strict && conversion.messages.some(m => m.severity === 'warning')) {
+      result.status = 'failed';
+      result.error = 'Conversion reported warnings';
+    }
+  } catch (error) {
+    result.status = 'failed';
+    result.error = error instanceof Error ? error.message : String(error);
+  }
+  return result;
+}
+
+function printResult(result: FileResult): void {
+  const label = { converted: 'ok', failed: 'FAILED', skipped: 'skipped' }[result.status];
+  console.log(`${label.padEnd(7)} ${result.input}${result.outputs.length ? ` -> ${result.outputs.join(', ')}` : ''}`);
+  if (result.error) console.log(`        ${result.error}`);
+  for (const message of result.messages.filter(m => m.severity === 'warning')) {
+    console.log(`        warning ${message.code} at ${message.path}: ${message.message}`);
+  }
+}
+
+export function main(args: string[]): number {
+  let options: CliOptions;
+  let inputs: InputFile[];
+  let resolver: CanonicalResolver;
+  try {
+    if (args.includes('-h') || args.includes('--help')) {
+      console.log(USAGE);
+      return EXIT_OK;
+    }
+    options = parseArgs(args);
+    inputs = expandInputs(options.inputs);
+    resolver = new CanonicalResolver(loadLibrary(options.library));
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`${error.message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  const written = new Map<string, string>();
+  const results = inputs.map(input => {
+    const result = convertFile(input, options, resolver, written);
+    if (!options.json) printResult(result);
+    return result;
+  });
+
+  const summary = {
+    converted: results.filter(r => r.status === 'converted').length,
+    failed: results.filter(r => r.status === 'failed').length,
+    skipped: results.filter(r => r.status === 'skipped').length,
+    warnings: results.reduce((count, r) => count + r.messages.filter(m => m.severity === 'warning').length, 0)
+  };
+  if (options.json) {
+    console.log(JSON.stringify({ summary, files: results }, null, 2));
+  } else {
+    console.log(`\n${summary.converted} converted, ${summary.failed} failed, ${summary.skipped} skipped, ${summary.warnings} warnings`);
+  }
+
+  return summary.failed > 0 ? EXIT_FAILED : EXIT_OK;
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
@@ -1,12 +1,23 @@
 import React, { useEffect, useRef, forwardRef, useImperativeHandle, useState } from 'react';
 import BpmnJS from 'bpmn-js/lib/NavigatedViewer';
+import type Canvas from 'diagram-js/lib/core/Canvas';
+import type ElementRegistry from 'diagram-js/lib/core/ElementRegistry';
+import type Selection from 'diagram-js/lib/features/selection/Selection';
 import { saveAs } from 'file-saver';
 import { Button, ButtonGroup } from 'react-bootstrap';
 import { ZoomIn, ZoomOut, ArrowsFullscreen, AspectRatio } from 'react-bootstrap-icons';
+import { SimulationTrace } from '../lib/plandefinition-simulation';
+// Styles for overlays such as the sub-process drill-down buttons and breadcrumbs
+import 'bpmn-js/dist/assets/diagram-js.css';
+import 'bpmn-js/dist/assets/bpmn-js.css';
 
 interface BpmnViewerProps {
   xml: string;
   onElementClick?: (element: any) => void;
+  /** Element to select and centre, e.g. the one of the action under the editor cursor */
+  selectedElementId?: string;
+  /** Path of a simulated patient, animated as a token when it changes */
+  simulation?: SimulationTrace;
 }
 
 export interface BpmnViewerRef {
@@ -17,10 +28,123 @@ export interface BpmnViewerRef {
   zoomReset: () => void;
 }
 
-const BpmnViewer = forwardRef<BpmnViewerRef, BpmnViewerProps>(({ xml, onElementClick }, ref) => {
+/**
+ * Selects an element and centres it in the viewport, switching to the plane of
+ * a collapsed sub-process if needed
+ */
+const revealElement = (viewer: BpmnJS, elementId: string) => {
+  const element: any = viewer.get<ElementRegistry>('elementRegistry', true).get(elementId);
+  const selection = viewer.get<Selection>('selection', true);
+  if (!element || selection.isSelected(element)) return;
+
+  const canvas = viewer.get<Canvas>('canvas', true);
+  const root = canvas.findRoot(element);
+  if (root && root !== canvas.getRootElement()) {
+    canvas.setRootElement(root);
+  }
+  selection.select(element);
+
+  const viewbox = canvas.viewbox();
+  const centerX = element.waypoints
+    ? element.waypoints[0].x
+    : element.x + element.width / 2;
+  const centerY = element.waypoints
+    ? element.waypoints[0].y
+    : element.y + element.height / 2;
+  canvas.viewbox({
+    x: centerX - viewbox.width / 2,
+    y: centerY - viewbox.height / 2,
+    width: viewbox.width,
+    height: viewbox.height
+  });
+};
+
+// Speed of the simulation token in diagram pixels per millisecond, and how long it rests on each element
+const TOKEN_SPEED = 0.25;
+const TOKEN_PAUSE = 150;
+
+/**
+ * Greys out what the token skips, then moves it along the flows it takes and
+ * marks each element it reaches. Returns a function that stops the animation
+ * and removes the markers.
+ */
+const playSimulation = (viewer: BpmnJS, trace: SimulationTrace): (() => void) => {
+  const canvas = viewer.get<Canvas>('canvas', true);
+  const elementRegistry = viewer.get<ElementRegistry>('elementRegistry', true);
+  const markers: Array<[string, string]> = [];
+  const mark = (id: string, marker: string) => {
+    if (!elementRegistry.get(id)) return;
+    canvas.addMarker(id, marker);
+    markers.push([id, marker]);
+  };
+  trace.skipped.forEach(id => mark(id, 'simulation-skipped'));
+
+  const token = document.createElementNS('http://www.w3.org/2000/svg', 'circle');
+  token.setAttribute('r', '7');
+  token.setAttribute('class', 'simulation-token');
+  token.style.display = 'none';
+  canvas.getLayer('simulation', 1000).appendChild(token);
+
+  let frame: number | undefined;
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const play = (index: number) => {
+    if (index === trace.steps.length) {
+      token.style.display = 'none';
+      return;
+    }
+    const element: any = elementRegistry.get(trace.steps[index]);
+    // Elements on other planes, e.g. in collapsed sub-processes, are passed without moving the token
+    const visible = element && canvas.findRoot(element) === canvas.getRootElement();
+    if (!visible || !element.waypoints) {
+      mark(trace.steps[index], 'simulation-taken');
+      timeout = setTimeout(() => play(index + 1), visible ? TOKEN_PAUSE : 0);
+      return;
+    }
+
+    const points: Array<{ x: number; y: number }> = element.waypoints;
+    const lengths = points.slice(1).map((point, i) => Math.hypot(point.x - points[i].x, point.y - points[i].y));
+    const total = lengths.reduce((sum, length) => sum + length, 0);
+    const started = performance.now();
+    const move = (time: number) => {
+      let distance = Math.min((time - started) * TOKEN_SPEED, total);
+      let segment = 0;
+      while (segment < lengths.length - 1 && distance > lengths[segment]) {
+        distance -= lengths[segment++];
+      }
+      const ratio = lengths[segment] ? distance / lengths[segment] : 0;
+      token.setAttribute('cx', String(points[segment].x + (points[segment + 1].x - points[segment].x) * ratio));
+      token.setAttribute('cy', String(points[segment].y + (points[segment + 1].y - points[segment].y) * ratio));
+      if ((time - started) * TOKEN_SPEED < total) {
+        frame = requestAnimationFrame(move);
+      } else {
+        mark(trace.steps[index], 'simulation-taken');
+        play(index + 1);
+      }
+    };
+    token.style.display = '';
+    frame = requestAnimationFrame(move);
+  };
+  play(0);
+
+  return () => {
+    if (frame !== undefined) cancelAnimationFrame(frame);
+    clearTimeout(timeout);
+    token.remove();
+    // The viewer may already be destroyed along with its elements
+    markers
+      .filter(([id]) => elementRegistry.get(id))
+      .forEach(([id, marker]) => canvas.removeMarker(id, marker));
+  };
+};
+
+const BpmnViewer = forwardRef<BpmnViewerRef, BpmnViewerProps>(({ xml, onElementClick, selectedElementId, simulation }, ref) => {
   const containerRef = useRef<HTMLDivElement>(null);
   const viewerRef = useRef<BpmnJS | null>(null);
   const [zoomLevel, setZoomLevel] = useState<number>(1);
+  // Counts the diagrams imported, so the simulation is replayed on each new one
+  const [importCount, setImportCount] = useState(0);
+  const selectedElementIdRef = useRef(selectedElementId);
+  selectedElementIdRef.current = selectedElementId;
 
   useEffect(() => {
     if (!containerRef.current) return;
@@ -52,6 +176,12 @@ const BpmnViewer = forwardRef<BpmnViewerRef, BpmnViewerProps>(({ xml, onElementC
         // Update zoom level
         const currentZoom = canvas.zoom();
         setZoomLevel(Math.round(currentZoom * 100) / 100);
+
+        // Keep the selection when the diagram is re-rendered
+        if (selectedElementIdRef.current) {
+          revealElement(viewer, selectedElementIdRef.current);
+        }
+        setImportCount(count => count + 1);
       })
       .catch(err => {
         console.error('Error rendering BPMN diagram:', err);
@@ -82,6 +212,18 @@ const BpmnViewer = forwardRef<BpmnViewerRef, BpmnViewerProps>(({ xml, onElementC
     };
   }, [xml, onElementClick]);
 
+  useEffect(() => {
+    if (viewerRef.current && selectedElementId) {
+      revealElement(viewerRef.current, selectedElementId);
+    }
+  }, [selectedElementId]);
+
+  useEffect(() => {
+    if (viewerRef.current && simulation) {
+      return playSimulation(viewerRef.current, simulation);
+    }
+  }, [simulation, importCount]);
+
   // Expose methods to parent component
   useImperativeHandle(ref, () => ({
     exportSVG: async () => {
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Accordion, Badge, ListGroup } from 'react-bootstrap';
+import { ExclamationTriangleFill, InfoCircle } from 'react-bootstrap-icons';
+import { ConversionMessage, ConversionStatistics } from '../lib/plandefinition-to-bpmn';
+
+interface ConversionReportProps {
+    messages: ConversionMessage[];
+    statistics: ConversionStatistics;
+    onSelect?: (message: ConversionMessage) => void;
+}
+
+/**
+ * Collapsible summary of what the diagram leaves out of the PlanDefinition
+ */
+const ConversionReport: React.FC<ConversionReportProps> = ({ messages, statistics, onSelect }) => {
+    const warningCount = messages.filter(message => message.severity === 'warning').length;
+    const elementCount = statistics.mappedElements + statistics.ignoredElements;
+
+    return (
+        <Accordion className="mt-2">
+            <Accordion.Item eventKey="report">
+                <Accordion.Header>
+                    <span className="me-2">Conversion report</span>
+                    {warningCount > 0 && <Badge bg="warning" text="dark" className="me-1">{warningCount} warnings</Badge>}
+                    <Badge bg="secondary" className="me-2">{messages.length - warningCount} info</Badge>
+                    <small className="text-muted">
+                        {statistics.actions} actions, {statistics.mappedElements} of {elementCount} elements shown
+                    </small>
+                </Accordion.Header>
+                <Accordion.Body className="p-0">
+                    <ListGroup variant="flush" style={{ maxHeight: '200px', overflow: 'auto' }}>
+                        {messages.map((message, idx) => (
+                            <ListGroup.Item
+                                key={idx}
+                                action
+                                className="py-1 small"
+                                onClick={() => onSelect?.(message)}
+                            >
+                                {message.severity === 'warning'
+                                    ? <ExclamationTriangleFill className="text-warning me-2" />
+                                    : <InfoCircle className="text-info me-2" />}
+                                {message.message}
+                                <span className="text-muted ms-2">{message.path}</span>
+                            </ListGroup.Item>
+                        ))}
+                        {messages.length === 0 && (
+                            <ListGroup.Item className="py-1 small text-muted">Everything is shown in the diagram</ListGroup.Item>
+                        )}
+                    </ListGroup>
+                </Accordion.Body>
+            </Accordion.Item>
+        </Accordion>
+    );
+};
+
+export default ConversionReport;
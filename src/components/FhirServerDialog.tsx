@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Alert, Button, Form, ListGroup, Modal, Spinner } from 'react-bootstrap';
+import { FhirClient, PlanDefinitionPackage } from '../lib/fhir-client';
+import { FhirPlanDefinition } from '../lib/fhir-types';
+
+interface FhirServerDialogProps {
+    show: boolean;
+    onHide: () => void;
+    onLoad: (result: PlanDefinitionPackage) => void;
+}
+
+const STATUSES = ['draft', 'active', 'retired', 'unknown'];
+
+/**
+ * Searches a FHIR server for PlanDefinitions and loads the chosen one with the
+ * resources it references
+ */
+const FhirServerDialog: React.FC<FhirServerDialogProps> = ({ show, onHide, onLoad }) => {
+    const [baseUrl, setBaseUrl] = useState('');
+    const [token, setToken] = useState('');
+    const [title, setTitle] = useState('');
+    const [status, setStatus] = useState('');
+    const [results, setResults] = useState<FhirPlanDefinition[] | null>(null);
+    const [selectedId, setSelectedId] = useState<string | undefined>(undefined);
+    const [busy, setBusy] = useState<'search' | 'load' | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const createClient = () => new FhirClient(baseUrl, { token: token.trim() || undefined });
+
+    const handleSearch = async (event: React.FormEvent) => {
+        event.preventDefault();
+        setBusy('search');
+        setError(null);
+        setSelectedId(undefined);
+        try {
+            setResults(await createClient().searchPlanDefinitions({ title: title.trim(), status }));
+        } catch (e: any) {
+            setResults(null);
+            setError('Search failed: ' + e.message);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleLoad = async () => {
+        if (!selectedId) return;
+        setBusy('load');
+        setError(null);
+        try {
+            onLoad(await createClient().fetchPlanDefinitionPackage(selectedId));
+            onHide();
+        } catch (e: any) {
+            setError('Cannot load the PlanDefinition: ' + e.message);
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <Modal show={show} onHide={onHide} size="lg">
+            <Modal.Header closeButton>
+                <Modal.Title>Open from FHIR server</Modal.Title>
+            </Modal.Header>
+            <Modal.Body>
+                {error && <Alert variant="danger">{error}</Alert>}
+                <Form onSubmit={handleSearch}>
+                    <Form.Group className="mb-2" controlId="fhirBaseUrl">
+                        <Form.Label>Base URL</Form.Label>
+                        <Form.Control
+                            type="url"
+                            required
+                            placeholder="https://hapi.fhir.org/baseR4"
+                            value={baseUrl}
+                            onChange={(e) => setBaseUrl(e.target.value)}
+                        />
+                    </Form.Group>
+                    <Form.Group className="mb-2" controlId="fhirToken">
+                        <Form.Label>Bearer token (optional)</Form.Label>
+                        <Form.Control type="password" value={token} onChange={(e) => setToken(e.target.value)} />
+                    </Form.Group>
+                    <div className="d-flex align-items-end mb-3">
+                        <Form.Group className="me-2 flex-grow-1" controlId="fhirTitle">
+                            <Form.Label>Title</Form.Label>
+                            <Form.Control value={title} onChange={(e) => setTitle(e.target.value)} />
+                        </Form.Group>
+                        <Form.Group className="me-2" controlId="fhirStatus">
+                            <Form.Label>Status</Form.Label>
+                            <Form.Select value={status} onChange={(e) => setStatus(e.target.value)}>
+                                <option value="">Any</option>
+                                {STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+                            </Form.Select>
+                        </Form.Group>
+                        <Button type="submit" disabled={busy !== null}>
+                            {busy === 'search' && <Spinner animation="border" size="sm" className="me-1" />}
+                            Search
+                        </Button>
+                    </div>
+                </Form>
+                {results && (
+                    <ListGroup style={{ maxHeight: '300px', overflow: 'auto' }}>
+                        {results.map(planDefinition => (
+                            <ListGroup.Item
+                                key={planDefinition.id}
+                                action
+                                active={planDefinition.id === selectedId}
+                                onClick={() => setSelectedId(planDefinition.id)}
+                                onDoubleClick={handleLoad}
+                            >
+                                <div>{planDefinition.title || planDefinition.name || planDefinition.id}</div>
+                                <small className={planDefinition.id === selectedId ? '' : 'text-muted'}>
+                                    {[planDefinition.id, planDefinition.version, planDefinition.status].filter(Boolean).join(' · ')}
+                                </small>
+                            </ListGroup.Item>
+                        ))}
+                        {results.length === 0 && <ListGroup.Item className="text-muted">No PlanDefinitions found</ListGroup.Item>}
+                    </ListGroup>
+                )}
+            </Modal.Body>
+            <Modal.Footer>
+                <Button variant="secondary" onClick={onHide}>Cancel</Button>
+                <Button variant="primary" onClick={handleLoad} disabled={!selectedId || busy !== null}>
+                    {busy === 'load' && <Spinner animation="border" size="sm" className="me-1" />}
+                    Load
+                </Button>
+            </Modal.Footer>
+        </Modal>
+    );
+};
+
+export default FhirServerDialog;
@@ -1,18 +1,110 @@
-import React from 'react';
-import Editor from '@monaco-editor/react';
+import React, { useEffect, useRef, useState } from 'react';
+import Editor, { OnMount } from '@monaco-editor/react';
+import { JsonRange } from '../lib/json-locator';
+import { ValidationSeverity } from '../lib/plandefinition-validation';
+
+type MonacoEditor = Parameters<OnMount>[0];
+type Monaco = Parameters<OnMount>[1];
+
+export interface EditorDiagnostic {
+    range: JsonRange;
+    severity: ValidationSeverity;
+    message: string;
+}
 
 interface JsonEditorProps {
     value: string;
     onChange: (value: string | undefined) => void;
+    /** FHIR JSON by default, or FHIR XML */
+    language?: 'json' | 'xml';
+    /** Range to reveal and highlight, e.g. the action of the selected shape */
+    highlightRange?: JsonRange;
+    /** Called with the cursor offset when the user moves the cursor */
+    onCursorChange?: (offset: number) => void;
+    /** Problems shown as markers in the text */
+    diagnostics?: EditorDiagnostic[];
+    height?: string;
 }
 
-const JsonEditor: React.FC<JsonEditorProps> = ({ value, onChange }) => {
+const JsonEditor: React.FC<JsonEditorProps> = ({
+    value,
+    onChange,
+    language = 'json',
+    highlightRange,
+    onCursorChange,
+    diagnostics,
+    height = 'calc(100vh - 180px)'
+}) => {
+    const editorRef = useRef<MonacoEditor | null>(null);
+    const monacoRef = useRef<Monaco | null>(null);
+    const decorationsRef = useRef<ReturnType<MonacoEditor['createDecorationsCollection']> | null>(null);
+    const [isMounted, setIsMounted] = useState(false);
+    const onCursorChangeRef = useRef(onCursorChange);
+    onCursorChangeRef.current = onCursorChange;
+
+    const handleMount: OnMount = (editor, monaco) => {
+        editorRef.current = editor;
+        monacoRef.current = monaco;
+        decorationsRef.current = editor.createDecorationsCollection();
+        editor.onDidChangeCursorPosition((e) => {
+            // Ignore cursor moves caused by value updates and the highlighting itself
+            if (e.source !== 'mouse' && e.source !== 'keyboard') return;
+            const model = editor.getModel();
+            if (model) {
+                onCursorChangeRef.current?.(model.getOffsetAt(e.position));
+            }
+        });
+        setIsMounted(true);
+    };
+
+    useEffect(() => {
+        const monaco = monacoRef.current;
+        const model = editorRef.current?.getModel();
+        if (!monaco || !model) return;
+
+        monaco.editor.setModelMarkers(model, 'plandefinition', (diagnostics || []).map(diagnostic => {
+            // Objects span many lines, so only their first line is marked
+            const start = model.getPositionAt(diagnostic.range.start);
+            const end = model.getPositionAt(diagnostic.range.end);
+            const isMultiLine = end.lineNumber !== start.lineNumber;
+            return {
+                startLineNumber: start.lineNumber,
+                startColumn: start.column,
+                endLineNumber: start.lineNumber,
+                endColumn: isMultiLine ? model.getLineMaxColumn(start.lineNumber) : end.column,
+                message: diagnostic.message,
+                severity: diagnostic.severity === 'error' ? monaco.MarkerSeverity.Error : monaco.MarkerSeverity.Warning
+            };
+        }));
+    }, [diagnostics, isMounted]);
+
+    useEffect(() => {
+        const editor = editorRef.current;
+        const monaco = monacoRef.current;
+        const model = editor?.getModel();
+        if (!editor || !monaco || !model || !decorationsRef.current) return;
+
+        if (!highlightRange) {
+            decorationsRef.current.clear();
+            return;
+        }
+        const start = model.getPositionAt(highlightRange.start);
+        const end = model.getPositionAt(highlightRange.end);
+        const range = new monaco.Range(start.lineNumber, start.column, end.lineNumber, end.column);
+        decorationsRef.current.set([{
+            range,
+            options: { isWholeLine: true, className: 'json-source-highlight' }
+        }]);
+        editor.revealLineInCenterIfOutsideViewport(start.lineNumber);
+    }, [highlightRange]);
+
     return (
         <Editor
-            height="calc(100vh - 180px)"
-            language="json"
+            height={height}
+            language={language}
             value={value}
             onChange={onChange}
+            onMount={handleMount}
             options={{
                 automaticLayout: true,
                 minimap: { enabled: false },
@@ -0,0 +1,39 @@
+import React from 'react';
+import { ListGroup } from 'react-bootstrap';
+import { ExclamationCircleFill, ExclamationTriangleFill } from 'react-bootstrap-icons';
+import { ValidationIssue } from '../lib/plandefinition-validation';
+
+interface ProblemsListProps {
+    issues: ValidationIssue[];
+    onSelect?: (issue: ValidationIssue) => void;
+}
+
+const ProblemsList: React.FC<ProblemsListProps> = ({ issues, onSelect }) => {
+    const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+    return (
+        <div className="problems-list mt-2">
+            <h6 className="mb-1">
+                Problems ({errorCount} errors, {issues.length - errorCount} warnings)
+            </h6>
+            <ListGroup variant="flush" style={{ maxHeight: '140px', overflow: 'auto' }}>
+                {issues.map((issue, idx) => (
+                    <ListGroup.Item
+                        key={idx}
+                        action
+                        className="py-1 small"
+                        onClick={() => onSelect?.(issue)}
+                    >
+                        {issue.severity === 'error'
+                            ? <ExclamationCircleFill className="text-danger me-2" />
+                            : <ExclamationTriangleFill className="text-warning me-2" />}
+                        {issue.message}
+                        <span className="text-muted ms-2">{issue.path}</span>
+                    </ListGroup.Item>
+                ))}
+            </ListGroup>
+        </div>
+    );
+};
+
+export default ProblemsList;
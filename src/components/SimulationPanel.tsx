@@ -0,0 +1,96 @@
+import React from 'react';
+import { Badge, Button, CloseButton, ListGroup } from 'react-bootstrap';
+import { ArrowRepeat, PersonFill } from 'react-bootstrap-icons';
+import { ActionOutcome, ActionResult, TestPatient } from '../lib/plandefinition-simulation';
+
+interface SimulationPanelProps {
+    patient: TestPatient | null;
+    results: ActionResult[];
+    onLoadPatient: (file: File) => void;
+    onReplay: () => void;
+    onSelect?: (result: ActionResult) => void;
+    onClose: () => void;
+}
+
+const OUTCOMES: Record<ActionOutcome, { label: string; variant: string }> = {
+    'applicable': { label: 'Applies', variant: 'success' },
+    'not-applicable': { label: 'Does not apply', variant: 'secondary' },
+    'undetermined': { label: 'Not evaluated', variant: 'warning' },
+    'not-selected': { label: 'Not selected', variant: 'secondary' },
+    'not-reached': { label: 'Not reached', variant: 'light' }
+};
+
+/**
+ * Side panel of the simulation mode: the test patient and how each action's
+ * applicability conditions evaluated for them
+ */
+const SimulationPanel: React.FC<SimulationPanelProps> = ({ patient, results, onLoadPatient, onReplay, onSelect, onClose }) => {
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (file) onLoadPatient(file);
+        event.target.value = '';
+    };
+
+    return (
+        <>
+            <div className="d-flex justify-content-between align-items-center mb-2">
+                <h5 className="mb-0">Simulation</h5>
+                <CloseButton onClick={onClose} aria-label="Close simulation" />
+            </div>
+            <div className="mb-2">
+                <input id="patientFile" type="file" style={{display: 'none'}} onChange={handleFileChange} accept=".json,.xml" />
+                <Button variant="secondary" size="sm" onClick={() => (document.getElementById('patientFile') as HTMLInputElement).click()}>
+                    <PersonFill className="me-1" />
+                    {patient ? 'Change test patient' : 'Load test patient'}
+                </Button>
+                <Button variant="outline-primary" size="sm" onClick={onReplay} disabled={!patient} className="ms-2">
+                    <ArrowRepeat className="me-1" />
+                    Replay
+                </Button>
+            </div>
+            {patient ? (
+                <p className="small text-muted mb-2">
+                    {patient.name}, with {patient.resources.length - 1} other resources
+                </p>
+            ) : (
+                <p className="small text-muted">
+                    Load a Bundle with a Patient and their Observations, Conditions and other resources
+                    to see which actions apply to them.
+                </p>
+            )}
+            {patient && (
+                <ListGroup variant="flush" style={{ overflow: 'auto' }}>
+                    {results.map(result => (
+                        <ListGroup.Item
+                            key={result.path}
+                            action
+                            className="py-1 small"
+                            style={{ paddingLeft: `${0.5 + result.depth}rem` }}
+                            onClick={() => onSelect?.(result)}
+                        >
+                            <div className="d-flex justify-content-between align-items-center">
+                                <span className={result.outcome === 'not-reached' ? 'text-muted' : undefined}>{result.title}</span>
+                                <Badge bg={OUTCOMES[result.outcome].variant} text={result.outcome === 'not-reached' ? 'dark' : undefined}>
+                                    {OUTCOMES[result.outcome].label}
+                                </Badge>
+                            </div>
+                            {result.conditions.map(condition => (
+                                <div key={condition.path} className="text-muted text-break">
+                                    <code>{condition.expression}</code>
+                                    {condition.error
+                                        ? <span className="text-danger ms-1">{condition.error}</span>
+                                        : <span className="ms-1">= {condition.result}</span>}
+                                </div>
+                            ))}
+                        </ListGroup.Item>
+                    ))}
+                    {results.length === 0 && (
+                        <ListGroup.Item className="py-1 small text-muted">The PlanDefinition has no actions</ListGroup.Item>
+                    )}
+                </ListGroup>
+            )}
+        </>
+    );
+};
+
+export default SimulationPanel;
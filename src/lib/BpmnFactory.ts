@@ -1,8 +1,40 @@
 /**
  * BpmnFactory.ts
- * Factory class for creating BPMN 2.0 elements with Diagram Interchange (DI) support
+ * Factory class for creating BPMN 2.0 elements. Their diagram layout is computed
+ * afterwards by bpmn-layout.ts.
  */
 
+export interface BpmnEventDefinition {
+  type: 'conditional' | 'timer' | 'message';
+  condition?: string; // conditional
+  language?: string; // conditional: expression language of condition
+  timeDate?: string; // timer
+  timeDuration?: string; // timer
+  timeCycle?: string; // timer
+  messageName?: string; // message
+}
+
+/**
+ * How often an activity runs: a standard loop repeats it while a condition holds,
+ * a multi-instance activity runs a number of instances one after another or in parallel
+ */
+export interface BpmnLoopCharacteristics {
+  type: 'standard' | 'multiInstance';
+  isSequential?: boolean; // multiInstance
+  loopCardinality?: string; // multiInstance: number of instances
+  completionCondition?: string; // multiInstance: ends the remaining instances when true
+  loopCondition?: string; // standard: repeats while true
+}
+
+/**
+ * Copies a value into the data an activity produces, e.g. a dynamicValue
+ */
+export interface BpmnAssignment {
+  from: string;
+  to: string;
+  language?: string; // Expression language of from
+}
+
 export interface BpmnElement {
   id: string;
   type: string;
@@ -13,139 +45,181 @@ export interface BpmnElement {
   sourceRef?: string;
   targetRef?: string;
   conditionExpression?: string;
+  conditionLanguage?: string; // Sequence flows: expression language of conditionExpression
   default?: string;
+  eventDefinition?: BpmnEventDefinition;
+  attachedToRef?: string;
+  calledElement?: string;
+  cancelActivity?: boolean;
+  parentId?: string; // Containing sub-process, undefined for the process itself
+  memberIds?: string[]; // Groups: the flow nodes drawn inside the group
+  dataObjectRef?: string; // Data object references: the data object they show
+  assignments?: BpmnAssignment[]; // Data output associations
+  loopCharacteristics?: BpmnLoopCharacteristics; // Activities
+  performers?: string[]; // Activities: names of the participants who perform them
+  implementation?: string; // Tasks: the service or definition that performs them
+  sourcePath?: string; // FHIR element the BPMN element was generated from
+}
+
+export interface BpmnLane {
+  id: string;
+  name: string;
+  flowNodeRefs: string[];
+  sourcePath?: string;
+}
+
+/**
+ * The FHIR element that subsequently created BPMN elements are generated from
+ */
+export interface BpmnSource {
+  /** Stable key the element ids are derived from, e.g. the FHIR action id */
+  key: string;
+  /** Location of the FHIR element, e.g. PlanDefinition.action[1].action[0] */
+  path: string;
+}
+
+const DATA_REFERENCE_TYPES = ['dataObjectReference', 'dataStoreReference'];
+const DATA_ASSOCIATION_TYPES = ['dataInputAssociation', 'dataOutputAssociation'];
+
+/**
+ * Checks whether an element is a node of the control flow, as opposed to a
+ * sequence flow, group, data reference or data association
+ */
+export function isFlowNode(element: BpmnElement): boolean {
+  return element.type !== 'sequenceFlow' && element.type !== 'group' &&
+    !DATA_REFERENCE_TYPES.includes(element.type) && !isDataAssociation(element);
 }
 
-export interface BpmnDiElement {
+/**
+ * Checks whether an element is a data association, which is part of its activity
+ */
+export function isDataAssociation(element: BpmnElement): boolean {
+  return DATA_ASSOCIATION_TYPES.includes(element.type);
+}
+
+interface OpenGroup {
   id: string;
-  bpmnElement: string;
-  x?: number;
-  y?: number;
-  width?: number;
-  height?: number;
-  waypoints?: { x: number; y: number }[];
+  firstElementIndex: number;
 }
 
 export class BpmnFactory {
   private elements: BpmnElement[] = [];
-  private diElements: BpmnDiElement[] = [];
+  private scopeStack: string[] = [];
+  private groupStack: OpenGroup[] = [];
+  private lanes: BpmnLane[] = [];
+  private laneAssignments = new Map<string, string>();
+  private currentLane?: string;
+  private currentSource?: BpmnSource;
+  private usedIds = new Set<string>();
+  private dataReferences = new Map<string, string>();
   private elementCounter = 0;
-  private flowCounter = 0;
-  private currentX = 100; // Track horizontal position for layout
-  private currentY = 150; // Center Y position
-  private readonly HORIZONTAL_SPACING = 180;
-  private readonly TASK_WIDTH = 120;
-  private readonly TASK_HEIGHT = 80;
-  private readonly GATEWAY_SIZE = 50;
-  private readonly EVENT_SIZE = 36;
 
   /**
-   * Generates a unique ID for BPMN elements
+   * @param idPrefix Prepended to every generated id, so several processes can
+   * share one BPMN document
    */
-  private generateId(prefix: string): string {
-    return `${prefix}_${++this.elementCounter}`;
-  }
+  constructor(private readonly idPrefix = '') {}
 
   /**
-   * Generates a unique ID for sequence flows
+   * Generates a unique ID for BPMN elements from the current source key, e.g.
+   * Task_hba1c-check, numbering further elements of the same kind
+   * (Gateway_hba1c-check_2). Without a source a counter is used.
    */
-  private generateFlowId(): string {
-    return `Flow_${++this.flowCounter}`;
+  private generateId(prefix: string, key = this.currentSource?.key): string {
+    const base = this.idPrefix +
+      (key !== undefined ? `${prefix}_${toNCNameFragment(key)}` : `${prefix}_${++this.elementCounter}`);
+    let id = base;
+    for (let n = 2; this.usedIds.has(id); n++) {
+      id = `${base}_${n}`;
+    }
+    this.usedIds.add(id);
+    return id;
   }
 
   /**
-   * Calculates the center Y coordinate for an element based on its height
+   * Generates a unique ID for sequence flows
    */
-  private getCenterY(elementHeight: number): number {
-    return this.currentY - elementHeight / 2;
+  private generateFlowId(): string {
+    return this.generateId('Flow');
   }
 
   /**
-   * Advances the X position for the next element
+   * Adds an element to the currently open scope
    */
-  private advanceX(elementWidth: number): void {
-    this.currentX += elementWidth + this.HORIZONTAL_SPACING;
+  private addElement(element: BpmnElement): void {
+    const parentId = this.scopeStack[this.scopeStack.length - 1];
+    if (parentId) element.parentId = parentId;
+    if (this.currentSource) element.sourcePath = this.currentSource.path;
+    this.elements.push(element);
+
+    // Only nodes of the process itself are partitioned into lanes
+    if (!parentId && this.currentLane && isFlowNode(element)) {
+      this.laneAssignments.set(element.id, this.currentLane);
+    }
   }
 
   /**
    * Creates a BPMN start event
    */
-  createStartEvent(): string {
+  createStartEvent(name = 'Start', eventDefinition?: BpmnEventDefinition): string {
     const id = this.generateId('StartEvent');
-    this.elements.push({
+    this.addElement({
       id,
       type: 'startEvent',
-      name: 'Start',
+      name,
+      eventDefinition,
       outgoing: []
     });
 
-    // Add DI for visualization
-    this.diElements.push({
-      id: `${id}_di`,
-      bpmnElement: id,
-      x: this.currentX,
-      y: this.getCenterY(this.EVENT_SIZE),
-      width: this.EVENT_SIZE,
-      height: this.EVENT_SIZE
-    });
-
-    this.advanceX(this.EVENT_SIZE);
-
     return id;
   }
 
   /**
    * Creates a BPMN end event
    */
-  createEndEvent(incomingFlowId: string): string {
+  createEndEvent(): string {
     const id = this.generateId('EndEvent');
-    this.elements.push({
+    this.addElement({
       id,
       type: 'endEvent',
       name: 'End',
-      incoming: [incomingFlowId]
+      incoming: []
     });
 
-    // Add DI for visualization
-    this.diElements.push({
-      id: `${id}_di`,
-      bpmnElement: id,
-      x: this.currentX,
-      y: this.getCenterY(this.EVENT_SIZE),
-      width: this.EVENT_SIZE,
-      height: this.EVENT_SIZE
-    });
-
-    this.advanceX(this.EVENT_SIZE);
-
     return id;
   }
 
   /**
    * Creates a BPMN task element
    */
-  createTask(name: string, incomingFlowId: string, documentation?: string): string {
+  createTask(name: string, documentation?: string, taskType = 'task'): string {
     const id = this.generateId('Task');
-    this.elements.push({
+    this.addElement({
       id,
-      type: 'task',
+      type: taskType,
       name,
       documentation,
-      incoming: [incomingFlowId],
+      incoming: [],
       outgoing: []
     });
 
-    // Add DI for visualization
-    this.diElements.push({
-      id: `${id}_di`,
-      bpmnElement: id,
-      x: this.currentX,
-      y: this.getCenterY(this.TASK_HEIGHT),
-      width: this.TASK_WIDTH,
-      height: this.TASK_HEIGHT
-    });
+    return id;
+  }
 
-    this.advanceX(this.TASK_WIDTH);
+  /**
+   * Creates a BPMN call activity that invokes another process
+   */
+  createCallActivity(name: string, calledElement: string, documentation?: string): string {
+    const id = this.generateId('CallActivity');
+    this.addElement({
+      id,
+      type: 'callActivity',
+      name,
+      documentation,
+      calledElement,
+      incoming: [],
+      outgoing: []
+    });
 
     return id;
   }
@@ -153,60 +227,301 @@ export class BpmnFactory {
   /**
    * Creates a BPMN exclusive gateway (decision point)
    */
-  createExclusiveGateway(name: string, incomingFlowId: string): string {
+  createExclusiveGateway(name: string): string {
+    return this.createGateway('exclusiveGateway', name);
+  }
+
+  /**
+   * Creates a BPMN parallel gateway (fork or join of concurrent branches)
+   */
+  createParallelGateway(name?: string): string {
+    return this.createGateway('parallelGateway', name);
+  }
+
+  /**
+   * Creates a BPMN inclusive gateway (one or more branches may be taken)
+   */
+  createInclusiveGateway(name?: string): string {
+    return this.createGateway('inclusiveGateway', name);
+  }
+
+  /**
+   * Creates a BPMN event-based gateway (the first event to occur decides the branch)
+   */
+  createEventBasedGateway(name?: string): string {
+    return this.createGateway('eventBasedGateway', name);
+  }
+
+  /**
+   * Creates a gateway of the given BPMN type
+   */
+  private createGateway(type: string, name?: string): string {
     const id = this.generateId('Gateway');
-    this.elements.push({
+    this.addElement({
       id,
-      type: 'exclusiveGateway',
+      type,
       name,
-      incoming: [incomingFlowId],
+      incoming: [],
       outgoing: []
     });
 
-    // Add DI for visualization
-    this.diElements.push({
-      id: `${id}_di`,
-      bpmnElement: id,
-      x: this.currentX,
-      y: this.getCenterY(this.GATEWAY_SIZE),
-      width: this.GATEWAY_SIZE,
-      height: this.GATEWAY_SIZE
-    });
-
-    this.advanceX(this.GATEWAY_SIZE);
-
     return id;
   }
 
   /**
    * Creates a BPMN intermediate catch event
    */
-  createIntermediateEvent(name: string, incomingFlowId: string, documentation?: string): string {
+  createIntermediateEvent(name: string, documentation?: string, eventDefinition?: BpmnEventDefinition): string {
     const id = this.generateId('IntermediateEvent');
-    this.elements.push({
+    this.addElement({
       id,
       type: 'intermediateEvent',
       name,
       documentation,
-      incoming: [incomingFlowId],
+      eventDefinition,
+      incoming: [],
       outgoing: []
     });
 
-    // Add DI for visualization
-    this.diElements.push({
-      id: `${id}_di`,
-      bpmnElement: id,
-      x: this.currentX,
-      y: this.getCenterY(this.EVENT_SIZE),
-      width: this.EVENT_SIZE,
-      height: this.EVENT_SIZE
+    return id;
+  }
+
+  /**
+   * Creates a BPMN boundary event attached to an activity. Interrupting by default,
+   * so the activity is cancelled when the event fires.
+   */
+  createBoundaryEvent(
+    attachedToId: string,
+    name: string,
+    eventDefinition: BpmnEventDefinition,
+    cancelActivity = true
+  ): string {
+    const host = this.elements.find(e => e.id === attachedToId);
+    if (!host) throw new Error(`Unknown activity: ${attachedToId}`);
+
+    const id = this.generateId('BoundaryEvent');
+    const element: BpmnElement = {
+      id,
+      type: 'boundaryEvent',
+      name,
+      eventDefinition,
+      attachedToRef: attachedToId,
+      cancelActivity,
+      outgoing: []
+    };
+    // Boundary events live next to their host, not inside it
+    if (host.parentId) element.parentId = host.parentId;
+    if (this.currentSource) element.sourcePath = this.currentSource.path;
+    this.elements.push(element);
+
+    return id;
+  }
+
+  /**
+   * Gets or creates the reference to a data object or data store in the open
+   * scope. References with the same key are shared by the activities of a scope,
+   * and data object references with the same key show the same data object.
+   */
+  getOrCreateDataReference(
+    key: string,
+    name: string,
+    type: 'dataObjectReference' | 'dataStoreReference'
+  ): string {
+    const scope = this.scopeStack[this.scopeStack.length - 1] || '';
+    const scopedKey = `${type}|${scope}|${key}`;
+    const existing = this.dataReferences.get(scopedKey);
+    if (existing) return existing;
+
+    const id = this.generateId(type === 'dataObjectReference' ? 'DataObjectReference' : 'DataStoreReference', name);
+    const element: BpmnElement = { id, type, name };
+    if (type === 'dataObjectReference') {
+      const dataObjectKey = `dataObject||${key}`;
+      if (!this.dataReferences.has(dataObjectKey)) {
+        this.dataReferences.set(dataObjectKey, this.generateId('DataObject', name));
+      }
+      element.dataObjectRef = this.dataReferences.get(dataObjectKey);
+    }
+    this.addElement(element);
+    this.dataReferences.set(scopedKey, id);
+    return id;
+  }
+
+  /**
+   * Connects an activity to the data it reads (input) or writes (output).
+   * Output associations can carry assignments into the data.
+   */
+  createDataAssociation(
+    activityId: string,
+    dataReferenceId: string,
+    direction: 'input' | 'output',
+    assignments?: BpmnAssignment[]
+  ): string {
+    const activity = this.elements.find(e => e.id === activityId);
+    if (!activity) throw new Error(`Unknown activity: ${activityId}`);
+
+    const input = direction === 'input';
+    const id = this.generateId(input ? 'DataInputAssociation' : 'DataOutputAssociation');
+    const association: BpmnElement = {
+      id,
+      type: input ? 'dataInputAssociation' : 'dataOutputAssociation',
+      sourceRef: input ? dataReferenceId : activityId,
+      targetRef: input ? activityId : dataReferenceId
+    };
+    if (assignments && assignments.length > 0) association.assignments = assignments;
+
+    // Associations are part of their activity
+    if (activity.parentId) association.parentId = activity.parentId;
+    if (this.currentSource) association.sourcePath = this.currentSource.path;
+    this.elements.push(association);
+    return id;
+  }
+
+  /**
+   * Opens a BPMN sub-process. Elements created until the matching
+   * endSubProcess() call are placed inside it.
+   */
+  beginSubProcess(name: string, documentation?: string): string {
+    const id = this.generateId('SubProcess');
+    this.addElement({
+      id,
+      type: 'subProcess',
+      name,
+      documentation,
+      incoming: [],
+      outgoing: []
     });
 
-    this.advanceX(this.EVENT_SIZE);
+    this.scopeStack.push(id);
+    return id;
+  }
+
+  /**
+   * Closes the innermost sub-process
+   */
+  endSubProcess(): void {
+    if (!this.scopeStack.pop()) throw new Error('endSubProcess() called without an open sub-process');
+  }
 
+  /**
+   * Opens a BPMN group artifact. The group is drawn around every flow node
+   * created until the matching endGroup() call.
+   */
+  beginGroup(name: string): string {
+    const id = this.generateId('Group');
+    this.addElement({ id, type: 'group', name });
+    this.groupStack.push({ id, firstElementIndex: this.elements.length });
     return id;
   }
 
+  /**
+   * Closes the innermost group and records the flow nodes it encloses
+   */
+  endGroup(): void {
+    const group = this.groupStack.pop();
+    if (!group) throw new Error('endGroup() called without an open group');
+
+    this.getElementById(group.id)!.memberIds = this.elements
+      .slice(group.firstElementIndex)
+      .filter(isFlowNode)
+      .map(e => e.id);
+  }
+
+  /**
+   * Gets or creates the lane with the given name
+   */
+  getOrCreateLane(name: string): string {
+    const existing = this.lanes.find(lane => lane.name === name);
+    if (existing) return existing.id;
+
+    const id = this.generateId('Lane', name);
+    this.lanes.push({ id, name, flowNodeRefs: [], sourcePath: this.currentSource?.path });
+    return id;
+  }
+
+  /**
+   * Sets the lane that subsequently created top-level flow nodes are placed in.
+   * Nodes created without a lane inherit one from their neighbours in assignLanes().
+   */
+  setCurrentLane(laneId: string | undefined): void {
+    this.currentLane = laneId;
+  }
+
+  /**
+   * Gets the lane new flow nodes are placed in
+   */
+  getCurrentLane(): string | undefined {
+    return this.currentLane;
+  }
+
+  /**
+   * Sets the FHIR element that subsequently created elements are generated from,
+   * which determines their ids and source paths
+   */
+  setCurrentSource(source: BpmnSource | undefined): void {
+    this.currentSource = source;
+  }
+
+  /**
+   * Gets the FHIR element new elements are generated from
+   */
+  getCurrentSource(): BpmnSource | undefined {
+    return this.currentSource;
+  }
+
+  /**
+   * Partitions the top-level flow nodes into the lanes. Call once after all
+   * elements have been created.
+   */
+  assignLanes(defaultLaneName: string): void {
+    if (this.lanes.length === 0) return;
+
+    const flowNodes = this.elements.filter(e => !e.parentId && isFlowNode(e));
+    this.inferMissingLanes(flowNodes, defaultLaneName);
+
+    this.lanes.forEach(lane => {
+      lane.flowNodeRefs = flowNodes.filter(e => this.laneAssignments.get(e.id) === lane.id).map(e => e.id);
+    });
+
+    // Lanes only partition the process itself, so those of actions inside sub-processes stay empty
+    this.lanes = this.lanes.filter(lane => lane.flowNodeRefs.length > 0);
+  }
+
+  /**
+   * Places nodes that were created outside any lane, such as the start event and
+   * join gateways, into the lane of the closest node they connect to. Successors
+   * are preferred so a gateway sits with the action it leads into.
+   */
+  private inferMissingLanes(flowNodes: BpmnElement[], defaultLaneName: string): void {
+    flowNodes
+      .filter(e => e.type === 'boundaryEvent' && this.laneAssignments.has(e.attachedToRef!))
+      .forEach(e => this.laneAssignments.set(e.id, this.laneAssignments.get(e.attachedToRef!)!));
+
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (const node of flowNodes) {
+        if (this.laneAssignments.has(node.id)) continue;
+
+        const neighbours = [
+          ...(node.outgoing || []).map(flowId => this.getElementById(flowId)?.targetRef),
+          ...(node.incoming || []).map(flowId => this.getElementById(flowId)?.sourceRef),
+          node.attachedToRef
+        ];
+        const lane = neighbours.map(id => id && this.laneAssignments.get(id)).find(Boolean);
+        if (lane) {
+          this.laneAssignments.set(node.id, lane);
+          changed = true;
+        }
+      }
+    }
+
+    const unassigned = flowNodes.filter(e => !this.laneAssignments.has(e.id));
+    if (unassigned.length > 0) {
+      const defaultLane = this.getOrCreateLane(defaultLaneName);
+      unassigned.forEach(e => this.laneAssignments.set(e.id, defaultLane));
+    }
+  }
+
   /**
    * Creates a sequence flow connecting two elements
    */
@@ -214,9 +529,11 @@ export class BpmnFactory {
     sourceId: string,
     targetId: string,
     conditionExpression?: string,
-    name?: string
+    name?: string,
+    conditionLanguage?: string
   ): string {
     const id = this.generateFlowId();
+    const sourceElement = this.elements.find(e => e.id === sourceId);
     const flow: BpmnElement = {
       id,
       type: 'sequenceFlow',
@@ -226,11 +543,15 @@ export class BpmnFactory {
 
     if (name) flow.name = name;
     if (conditionExpression) flow.conditionExpression = conditionExpression;
+    if (conditionExpression && conditionLanguage) flow.conditionLanguage = conditionLanguage;
+
+    // Flows live in the same container as their source
+    if (sourceElement?.parentId) flow.parentId = sourceElement.parentId;
+    if (this.currentSource) flow.sourcePath = this.currentSource.path;
 
     this.elements.push(flow);
 
     // Update source element's outgoing
-    const sourceElement = this.elements.find(e => e.id === sourceId);
     if (sourceElement) {
       if (!sourceElement.outgoing) sourceElement.outgoing = [];
       sourceElement.outgoing.push(id);
@@ -243,64 +564,62 @@ export class BpmnFactory {
       targetElement.incoming.push(id);
     }
 
-    // Add DI for the flow
-    const sourceShape = this.diElements.find(di => di.bpmnElement === sourceId);
-    const targetShape = this.diElements.find(di => di.bpmnElement === targetId);
-
-    if (sourceShape && targetShape) {
-      const sourceX = (sourceShape.x || 0) + (sourceShape.width || 0);
-      const sourceY = (sourceShape.y || 0) + (sourceShape.height || 0) / 2;
-      const targetX = targetShape.x || 0;
-      const targetY = (targetShape.y || 0) + (targetShape.height || 0) / 2;
-
-      this.diElements.push({
-        id: `${id}_di`,
-        bpmnElement: id,
-        waypoints: [
-          { x: sourceX, y: sourceY },
-          { x: targetX, y: targetY }
-        ]
-      });
-    }
-
     return id;
   }
 
   /**
-   * Gets the current X position
+   * Marks a flow as the default flow of its source gateway, taken when no condition holds
    */
-  getCurrentX(): number {
-    return this.currentX;
+  setDefaultFlow(gatewayId: string, flowId: string): void {
+    const gateway = this.elements.find(e => e.id === gatewayId);
+    if (!gateway) throw new Error(`Unknown gateway: ${gatewayId}`);
+    gateway.default = flowId;
   }
 
   /**
-   * Sets the current X position
+   * Sets the condition under which a sequence flow is taken
    */
-  setCurrentX(x: number): void {
-    this.currentX = x;
+  setCondition(flowId: string, conditionExpression: string, conditionLanguage?: string): void {
+    const flow = this.elements.find(e => e.id === flowId && e.type === 'sequenceFlow');
+    if (!flow) throw new Error(`Unknown sequence flow: ${flowId}`);
+    flow.conditionExpression = conditionExpression;
+    flow.conditionLanguage = conditionLanguage;
   }
 
   /**
-   * Gets the current Y position
+   * Makes an activity loop or run as several instances
    */
-  getCurrentY(): number {
-    return this.currentY;
+  setLoopCharacteristics(activityId: string, loopCharacteristics: BpmnLoopCharacteristics): void {
+    const activity = this.elements.find(e => e.id === activityId);
+    if (!activity) throw new Error(`Unknown activity: ${activityId}`);
+    activity.loopCharacteristics = loopCharacteristics;
   }
 
   /**
-   * Sets the current Y position
+   * Records the participants who perform an activity
    */
-  setCurrentY(y: number): void {
-    this.currentY = y;
+  setPerformers(activityId: string, performers: string[]): void {
+    const activity = this.elements.find(e => e.id === activityId);
+    if (!activity) throw new Error(`Unknown activity: ${activityId}`);
+    activity.performers = performers;
+  }
+
+  /**
+   * Records the service or definition that implements a task
+   */
+  setImplementation(taskId: string, implementation: string): void {
+    const task = this.elements.find(e => e.id === taskId);
+    if (!task) throw new Error(`Unknown task: ${taskId}`);
+    task.implementation = implementation;
   }
 
   /**
    * Gets the complete BPMN structure as JSON
    */
-  getBpmnJson(): { elements: BpmnElement[]; diElements: BpmnDiElement[] } {
+  getBpmnJson(): { elements: BpmnElement[]; lanes: BpmnLane[] } {
     return {
       elements: this.elements,
-      diElements: this.diElements
+      lanes: this.lanes
     };
   }
 
@@ -317,11 +636,11 @@ export class BpmnFactory {
   getElementsByType(type: string): BpmnElement[] {
     return this.elements.filter(e => e.type === type);
   }
+}
 
-  /**
-   * Gets the DI element for a BPMN element
-   */
-  getDiElement(bpmnElementId: string): BpmnDiElement | undefined {
-    return this.diElements.find(di => di.bpmnElement === bpmnElementId);
-  }
-}
\ No newline at end of file
+/**
+ * Turns an arbitrary key into a fragment that keeps an id a valid XML NCName
+ */
+function toNCNameFragment(key: string): string {
+  return key.replace(/[^A-Za-z0-9_.-]/g, '_') || '_';
+}
@@ -0,0 +1,197 @@
+/**
+ * action-graph.ts
+ * Builds a dependency graph between sibling FHIR actions from their relatedAction entries
+ */
+
+import { FhirAction } from './fhir-types';
+
+/**
+ * How actions without an explicit predecessor are ordered
+ * - sequential: they follow the nearest preceding action in declared order
+ * - parallel: they start together, right after the enclosing element
+ */
+export type ImplicitOrder = 'sequential' | 'parallel';
+
+export interface ActionGraph {
+  /** Concurrent groups of action indices; a group with one member is a plain action */
+  groups: number[][];
+  /** Group indices that must complete before each group starts */
+  predecessors: number[][];
+  /** Group indices that start after each group completes */
+  successors: number[][];
+  /** Group indices in topological order, ties broken by declared order */
+  order: number[];
+  /**
+   * Relationships that were dropped, either because they would close a cycle
+   * or because they order two actions of the same concurrent group
+   */
+  ignored: Array<{ from: number; to: number; reason: 'cycle' | 'concurrent' }>;
+  /** Precedence edges between groups that wait for an offset, with the relatedAction carrying it */
+  offsets: ActionOffset[];
+}
+
+export interface ActionOffset {
+  from: number;
+  to: number;
+  /** Index of the action and of its relatedAction entry that define the offset */
+  action: number;
+  relatedAction: number;
+}
+
+const BEFORE_RELATIONSHIPS = ['before-start', 'before', 'before-end'];
+const AFTER_RELATIONSHIPS = ['after-start', 'after', 'after-end'];
+const CONCURRENT_RELATIONSHIPS = ['concurrent-with-start', 'concurrent', 'concurrent-with-end'];
+
+/**
+ * Builds the dependency graph for a list of sibling actions.
+ *
+ * BPMN sequence flows only express finish-to-start ordering, so the start/end
+ * variants of before and after collapse to plain precedence. Concurrent
+ * actions are merged into one group that is later emitted as parallel branches.
+ */
+export function buildActionGraph(actions: FhirAction[], implicitOrder: ImplicitOrder = 'sequential'): ActionGraph {
+  const indexById = new Map<string, number>();
+  actions.forEach((action, i) => {
+    if (action.id && !indexById.has(action.id)) {
+      indexById.set(action.id, i);
+    }
+  });
+
+  // Union concurrent actions into groups
+  const parent = actions.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const precedence: Array<{ from: number; to: number; offset?: { action: number; relatedAction: number } }> = [];
+
+  actions.forEach((action, i) => {
+    (action.relatedAction || []).forEach((related, j) => {
+      const target = related.actionId !== undefined ? indexById.get(related.actionId) : undefined;
+      if (target === undefined || target === i || !related.relationship) return;
+      const offset = related.offsetDuration || related.offsetRange ? { action: i, relatedAction: j } : undefined;
+
+      if (CONCURRENT_RELATIONSHIPS.includes(related.relationship)) {
+        const a = find(i);
+        const b = find(target);
+        if (a !== b) parent[Math.max(a, b)] = Math.min(a, b);
+      } else if (BEFORE_RELATIONSHIPS.includes(related.relationship)) {
+        precedence.push({ from: i, to: target, offset });
+      } else if (AFTER_RELATIONSHIPS.includes(related.relationship)) {
+        precedence.push({ from: target, to: i, offset });
+      }
+    });
+  });
+
+  const groupIndexByRoot = new Map<number, number>();
+  const groups: number[][] = [];
+  actions.forEach((_, i) => {
+    const root = find(i);
+    if (!groupIndexByRoot.has(root)) {
+      groupIndexByRoot.set(root, groups.length);
+      groups.push([]);
+    }
+    groups[groupIndexByRoot.get(root)!].push(i);
+  });
+  const groupOf = (i: number) => groupIndexByRoot.get(find(i))!;
+
+  // Add explicit edges, skipping any inside a concurrent group or that would close a cycle
+  const successors: Set<number>[] = groups.map(() => new Set<number>());
+  const ignored: ActionGraph['ignored'] = [];
+  const offsets: ActionOffset[] = [];
+  for (const edge of precedence) {
+    const from = groupOf(edge.from);
+    const to = groupOf(edge.to);
+    if (from === to) {
+      ignored.push({ from: edge.from, to: edge.to, reason: 'concurrent' });
+      continue;
+    }
+    if (isReachable(successors, to, from)) {
+      ignored.push({ from: edge.from, to: edge.to, reason: 'cycle' });
+      continue;
+    }
+    successors[from].add(to);
+    if (edge.offset && !offsets.some(o => o.from === from && o.to === to)) {
+      offsets.push({ from, to, ...edge.offset });
+    }
+  }
+
+  // Actions without explicit predecessors keep their declared position
+  if (implicitOrder === 'sequential') {
+    const hasExplicitPredecessor = groups.map(() => false);
+    successors.forEach(targets => targets.forEach(t => (hasExplicitPredecessor[t] = true)));
+
+    for (let g = 1; g < groups.length; g++) {
+      if (hasExplicitPredecessor[g]) continue;
+      for (let candidate = g - 1; candidate >= 0; candidate--) {
+        if (!isReachable(successors, g, candidate)) {
+          successors[candidate].add(g);
+          break;
+        }
+      }
+    }
+  }
+
+  // An offset waits from the end of its predecessor, so a longer path does not imply it
+  transitiveReduction(successors, (from, to) => offsets.some(o => o.from === from && o.to === to));
+
+  const predecessors: number[][] = groups.map(() => []);
+  successors.forEach((targets, from) => targets.forEach(to => predecessors[to].push(from)));
+
+  return {
+    groups,
+    predecessors,
+    successors: successors.map(targets => Array.from(targets).sort((a, b) => a - b)),
+    order: topologicalOrder(successors, predecessors),
+    ignored,
+    offsets
+  };
+}
+
+/**
+ * Checks whether `to` can be reached from `from` following successor edges
+ */
+function isReachable(successors: Set<number>[], from: number, to: number): boolean {
+  const stack = [from];
+  const seen = new Set<number>();
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    if (node === to) return true;
+    if (seen.has(node)) continue;
+    seen.add(node);
+    successors[node].forEach(next => stack.push(next));
+  }
+  return false;
+}
+
+/**
+ * Removes edges implied by longer paths so no redundant parallel branches are emitted
+ */
+function transitiveReduction(successors: Set<number>[], keep: (from: number, to: number) => boolean): void {
+  successors.forEach((targets, from) => {
+    for (const to of Array.from(targets)) {
+      if (keep(from, to)) continue;
+      targets.delete(to);
+      if (!isReachable(successors, from, to)) {
+        targets.add(to);
+      }
+    }
+  });
+}
+
+/**
+ * Kahn's algorithm, always picking the lowest declared group index that is ready
+ */
+function topologicalOrder(successors: Set<number>[], predecessors: number[][]): number[] {
+  const remaining = predecessors.map(p => p.length);
+  const ready = remaining.map((count, g) => (count === 0 ? g : -1)).filter(g => g >= 0);
+  const order: number[] = [];
+
+  while (ready.length > 0) {
+    ready.sort((a, b) => a - b);
+    const g = ready.shift()!;
+    order.push(g);
+    successors[g].forEach(next => {
+      if (--remaining[next] === 0) ready.push(next);
+    });
+  }
+
+  return order;
+}
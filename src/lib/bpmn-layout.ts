@@ -0,0 +1,928 @@
+/**
+ * bpmn-layout.ts
+ * Layered (Sugiyama-style) auto-layout that computes the BPMN Diagram Interchange (DI)
+ * for the elements built by BpmnFactory
+ */
+
+import { BpmnElement, BpmnLane, isFlowNode } from './BpmnFactory';
+
+export interface BpmnDiElement {
+  id: string;
+  bpmnElement: string;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  isExpanded?: boolean;
+  plane?: string; // Collapsed sub-process whose drill-down diagram shows this element
+  isHorizontal?: boolean; // Pools and lanes
+  waypoints?: { x: number; y: number }[];
+}
+
+export type LayoutOrientation = 'left-to-right' | 'top-to-bottom';
+
+export interface LayoutOptions {
+  /** Direction the process flows in, left-to-right by default */
+  orientation?: LayoutOrientation;
+  /** Draw sub-processes collapsed, with their content on a separate drill-down diagram */
+  collapseSubProcesses?: boolean;
+  /**
+   * Draws the process in a pool with this participant id. Without it, a pool
+   * (Participant_1) is only drawn around lanes.
+   */
+  participantId?: string;
+}
+
+/*
+ * The layout is computed in flow coordinates: "main" runs along the flow and
+ * "cross" runs across it. They map to x/y (left-to-right) or y/x (top-to-bottom)
+ * only when the DI is written.
+ */
+
+interface LayoutNode {
+  id: string;
+  element?: BpmnElement; // Undefined for the dummy nodes that carry long edges through a rank
+  main: number; // Extent along the flow
+  cross: number; // Extent across the flow
+  rank: number;
+  order: number;
+  lane: number;
+  m: number; // Centre along the flow
+  c: number; // Centre across the flow
+  preds: LayoutNode[];
+  succs: LayoutNode[];
+}
+
+interface LayoutEdge {
+  flow: BpmnElement;
+  source: LayoutNode;
+  target: LayoutNode;
+  path: LayoutNode[]; // Source, dummy nodes and target, in layout direction
+  reversed: boolean; // Drawn against the flow direction to break a cycle
+}
+
+interface FlowPoint {
+  m: number;
+  c: number;
+}
+
+interface LayoutContext {
+  elements: BpmnElement[];
+  horizontal: boolean;
+  collapsed: boolean;
+  lanes: BpmnLane[];
+  participantId: string;
+  /** DI of drill-down diagrams, which are laid out independently of their parents */
+  planes: BpmnDiElement[];
+}
+
+const TASK_WIDTH = 120;
+const TASK_HEIGHT = 80;
+const GATEWAY_SIZE = 50;
+const EVENT_SIZE = 36;
+const DATA_OBJECT_SIZE = { width: 36, height: 50 };
+const DATA_STORE_SIZE = { width: 50, height: 50 };
+const DATA_LABEL_SIZE = { width: 100, height: 30 }; // Room for the label below data objects and stores
+const RANK_GAP = 50;
+const NODE_GAP = 50;
+const EDGE_GAP = 20;
+const CONTAINER_PADDING = 30;
+const SUBPROCESS_LABEL_HEIGHT = 20;
+const LANE_MIN_SIZE = 150;
+const LANE_LABEL_SIZE = 30;
+const POOL_LABEL_SIZE = 30;
+const BOUNDARY_SPACING = 8;
+const BOUNDARY_DETOUR = 20;
+const GROUP_PADDING = 15;
+const POOL_GAP = 40;
+const DIAGRAM_ORIGIN = { x: 100, y: 80 };
+const ORDER_ITERATIONS = 4;
+const ALIGN_ITERATIONS = 8;
+const STRAIGHTEN_ITERATIONS = 3;
+
+/**
+ * Lays out a process and returns its DI: shapes for flow nodes, groups, lanes and
+ * the pool, and orthogonally routed edges for sequence flows.
+ *
+ * Nodes are assigned to ranks along the flow by longest path, ordered within a rank
+ * to reduce crossings and placed across the flow so each node lines up with its
+ * neighbours. Expanded sub-processes are laid out first and placed as one large node;
+ * collapsed ones get their own diagram. Data objects and stores sit in a row below
+ * the flow of their lane, next to the activities that read or write them.
+ */
+export function layoutBpmn(
+  elements: BpmnElement[],
+  lanes: BpmnLane[] = [],
+  options: LayoutOptions = {}
+): BpmnDiElement[] {
+  const context: LayoutContext = {
+    elements,
+    horizontal: options.orientation !== 'top-to-bottom',
+    collapsed: !!options.collapseSubProcesses,
+    lanes,
+    participantId: options.participantId || 'Participant_1',
+    planes: []
+  };
+
+  const diElements = layoutContainer(context, undefined);
+  moveToOrigin(diElements);
+  diElements.push(...context.planes);
+  layoutGroups(context, diElements);
+
+  // Lanes come with their pool; without them the pool is drawn around the content
+  if (options.participantId && lanes.length === 0) {
+    const content = diElements.filter(di => !di.plane);
+    const bounds = getBounds(content)!;
+    const labelX = context.horizontal ? POOL_LABEL_SIZE : 0;
+    const labelY = context.horizontal ? 0 : POOL_LABEL_SIZE;
+    diElements.push({
+      id: `${options.participantId}_di`,
+      bpmnElement: options.participantId,
+      isHorizontal: context.horizontal,
+      x: bounds.minX - CONTAINER_PADDING - labelX,
+      y: bounds.minY - CONTAINER_PADDING - labelY,
+      width: bounds.maxX - bounds.minX + 2 * CONTAINER_PADDING + labelX,
+      height: bounds.maxY - bounds.minY + 2 * CONTAINER_PADDING + labelY
+    });
+    moveToOrigin(diElements.filter(di => !di.plane));
+  }
+
+  return diElements;
+}
+
+/**
+ * Places the pools of separately laid out processes below each other (or side by
+ * side when top-to-bottom) and stretches them to the same length along the flow.
+ * Each diagram must have been laid out with its participantId.
+ */
+export function stackPools(
+  diagrams: { participantId: string; diagram: BpmnDiElement[] }[],
+  orientation?: LayoutOrientation
+): BpmnDiElement[] {
+  const horizontal = orientation !== 'top-to-bottom';
+  const pools = diagrams.map(({ participantId, diagram }) => diagram.find(di => di.bpmnElement === participantId)!);
+  const length = Math.max(...pools.map(pool => horizontal ? pool.width! : pool.height!));
+
+  let offset = 0;
+  diagrams.forEach(({ diagram }, idx) => {
+    const pool = pools[idx];
+    const content = diagram.filter(di => !di.plane);
+    if (horizontal) {
+      translate(content, DIAGRAM_ORIGIN.x - pool.x!, DIAGRAM_ORIGIN.y + offset - pool.y!);
+    } else {
+      translate(content, DIAGRAM_ORIGIN.x + offset - pool.x!, DIAGRAM_ORIGIN.y - pool.y!);
+    }
+
+    // The pool and its lanes end where the pool ends, give or take rounding
+    const poolEnd = horizontal ? pool.x! + pool.width! : pool.y! + pool.height!;
+    const stretch = length - (horizontal ? pool.width! : pool.height!);
+    for (const di of content.filter(di => di.isHorizontal !== undefined)) {
+      if (horizontal && Math.abs(di.x! + di.width! - poolEnd) <= 1) di.width = poolEnd + stretch - di.x!;
+      if (!horizontal && Math.abs(di.y! + di.height! - poolEnd) <= 1) di.height = poolEnd + stretch - di.y!;
+    }
+    offset += (horizontal ? pool.height! : pool.width!) + POOL_GAP;
+  });
+
+  return diagrams.flatMap(({ diagram }) => diagram);
+}
+
+/**
+ * Lays out the flow nodes and sequence flows of the process (containerId undefined)
+ * or of a sub-process. Coordinates are relative to the container's content.
+ */
+function layoutContainer(context: LayoutContext, containerId: string | undefined): BpmnDiElement[] {
+  const children = context.elements.filter(e => e.parentId === containerId);
+  const useLanes = !containerId && context.lanes.length > 0;
+  const laneIndex = new Map<string, number>();
+  if (useLanes) {
+    context.lanes.forEach((lane, idx) => lane.flowNodeRefs.forEach(ref => laneIndex.set(ref, idx)));
+  }
+
+  // Nodes, sized around the content of expanded sub-processes
+  const nodes = new Map<string, LayoutNode>();
+  const nestedContent = new Map<string, BpmnDiElement[]>();
+  for (const element of children.filter(e => isFlowNode(e) && e.type !== 'boundaryEvent')) {
+    let size = getShapeSize(element);
+
+    if (element.type === 'subProcess') {
+      const content = layoutContainer(context, element.id);
+      if (context.collapsed) {
+        moveToOrigin(content);
+        content.filter(di => !di.plane).forEach(di => { di.plane = element.id; });
+        context.planes.push(...content);
+      } else {
+        nestedContent.set(element.id, content);
+        const bounds = getBounds(content);
+        size = {
+          width: Math.max(TASK_WIDTH, (bounds ? bounds.maxX - bounds.minX : 0) + 2 * CONTAINER_PADDING),
+          height: Math.max(
+            TASK_HEIGHT,
+            (bounds ? bounds.maxY - bounds.minY : 0) + 2 * CONTAINER_PADDING + SUBPROCESS_LABEL_HEIGHT
+          )
+        };
+      }
+    }
+
+    nodes.set(element.id, {
+      id: element.id,
+      element,
+      main: context.horizontal ? size.width : size.height,
+      cross: context.horizontal ? size.height : size.width,
+      rank: 0,
+      order: 0,
+      lane: laneIndex.get(element.id) ?? 0,
+      m: 0,
+      c: 0,
+      preds: [],
+      succs: []
+    });
+  }
+
+  // Edges; flows leaving a boundary event are ranked as if they left its host
+  const edges: LayoutEdge[] = [];
+  for (const flow of children.filter(e => e.type === 'sequenceFlow')) {
+    const sourceElement = context.elements.find(e => e.id === flow.sourceRef);
+    const source = nodes.get(sourceElement?.attachedToRef || flow.sourceRef!);
+    const target = nodes.get(flow.targetRef!);
+    if (!source || !target) continue;
+    edges.push({ flow, source, target, path: [source, target], reversed: false });
+  }
+
+  const layers = assignRanks([...nodes.values()], edges);
+  insertDummyNodes(edges, layers);
+  orderLayers([...nodes.values()], layers);
+  placeAcrossFlow(layers, useLanes ? context.lanes.length : 1);
+
+  const dataNodes = placeDataRow(context, children, nodes, layers);
+  const laneBands = useLanes ? stackLanes([...layers.flat(), ...dataNodes.map(data => data.node)], context.lanes.length) : [];
+  const columns = placeAlongFlow(layers);
+  placeDataAlongFlow(dataNodes, context.horizontal);
+
+  // Shapes
+  const diElements: BpmnDiElement[] = [];
+  const toBounds = (mStart: number, cStart: number, main: number, cross: number) => context.horizontal
+    ? { x: mStart, y: cStart, width: main, height: cross }
+    : { x: cStart, y: mStart, width: cross, height: main };
+  const toPoint = (p: FlowPoint) => context.horizontal
+    ? { x: Math.round(p.m), y: Math.round(p.c) }
+    : { x: Math.round(p.c), y: Math.round(p.m) };
+
+  const boundaryCentres = new Map<string, FlowPoint>();
+  for (const node of nodes.values()) {
+    const element = node.element!;
+    const bounds = toBounds(node.m - node.main / 2, node.c - node.cross / 2, node.main, node.cross);
+    diElements.push({
+      id: `${element.id}_di`,
+      bpmnElement: element.id,
+      ...roundBounds(bounds),
+      isExpanded: element.type === 'subProcess' ? !context.collapsed : undefined
+    });
+
+    const content = nestedContent.get(element.id);
+    if (content) {
+      const contentBounds = getBounds(content);
+      translate(
+        content,
+        bounds.x + CONTAINER_PADDING - (contentBounds?.minX || 0),
+        bounds.y + CONTAINER_PADDING + SUBPROCESS_LABEL_HEIGHT - (contentBounds?.minY || 0)
+      );
+      diElements.push(...content);
+    }
+
+    // Boundary events sit on the far edge across the flow, spread from the end backwards
+    children
+      .filter(e => e.type === 'boundaryEvent' && e.attachedToRef === element.id)
+      .forEach((boundaryEvent, idx) => {
+        const centre = {
+          m: node.m + node.main / 2 - (idx + 1) * (EVENT_SIZE + BOUNDARY_SPACING) + EVENT_SIZE / 2,
+          c: node.c + node.cross / 2
+        };
+        boundaryCentres.set(boundaryEvent.id, centre);
+        diElements.push({
+          id: `${boundaryEvent.id}_di`,
+          bpmnElement: boundaryEvent.id,
+          ...roundBounds(toBounds(centre.m - EVENT_SIZE / 2, centre.c - EVENT_SIZE / 2, EVENT_SIZE, EVENT_SIZE))
+        });
+      });
+  }
+
+  for (const { node } of dataNodes) {
+    diElements.push({
+      id: `${node.id}_di`,
+      bpmnElement: node.id,
+      ...roundBounds(toBounds(node.m - node.main / 2, node.c - node.cross / 2, node.main, node.cross))
+    });
+  }
+
+  // Edges
+  for (const edge of edges) {
+    const points = routeEdge(edge, layers, columns, boundaryCentres.get(edge.flow.sourceRef!));
+    diElements.push({
+      id: `${edge.flow.id}_di`,
+      bpmnElement: edge.flow.id,
+      waypoints: points.map(toPoint)
+    });
+  }
+  for (const data of dataNodes) {
+    for (const { association, anchor } of data.associations) {
+      const points = routeDataAssociation(data.node, anchor, layers, columns);
+      if (association.type === 'dataOutputAssociation') points.reverse();
+      diElements.push({
+        id: `${association.id}_di`,
+        bpmnElement: association.id,
+        waypoints: points.map(toPoint)
+      });
+    }
+  }
+
+  // Lanes and the pool around them
+  if (useLanes) {
+    const realNodes = [...nodes.values(), ...dataNodes.map(data => data.node)];
+    const mStart = Math.min(...realNodes.map(n => n.m - n.main / 2)) - CONTAINER_PADDING - LANE_LABEL_SIZE;
+    const mEnd = Math.max(...realNodes.map(n => n.m + n.main / 2)) + CONTAINER_PADDING;
+
+    context.lanes.forEach((lane, idx) => {
+      diElements.push({
+        id: `${lane.id}_di`,
+        bpmnElement: lane.id,
+        isHorizontal: context.horizontal,
+        ...roundBounds(toBounds(mStart, laneBands[idx].start, mEnd - mStart, laneBands[idx].size))
+      });
+    });
+
+    const last = laneBands[laneBands.length - 1];
+    diElements.push({
+      id: `${context.participantId}_di`,
+      bpmnElement: context.participantId,
+      isHorizontal: context.horizontal,
+      ...roundBounds(toBounds(
+        mStart - POOL_LABEL_SIZE, 0, mEnd - mStart + POOL_LABEL_SIZE, last.start + last.size
+      ))
+    });
+  }
+
+  return diElements;
+}
+
+/**
+ * Assigns every node to a rank along the flow by longest path from the sources.
+ * Edges that close a cycle are reversed first so the graph can be ranked.
+ */
+function assignRanks(nodes: LayoutNode[], edges: LayoutEdge[]): LayoutNode[][] {
+  const outgoing = new Map<LayoutNode, LayoutEdge[]>(nodes.map(n => [n, []]));
+  edges.forEach(edge => outgoing.get(edge.source)!.push(edge));
+
+  // Depth-first search from the sources; edges back into the current path are reversed
+  const state = new Map<LayoutNode, 'visiting' | 'done'>();
+  const visit = (node: LayoutNode) => {
+    state.set(node, 'visiting');
+    for (const edge of outgoing.get(node)!) {
+      if (state.get(edge.target) === 'visiting') {
+        edge.reversed = true;
+      } else if (!state.has(edge.target)) {
+        visit(edge.target);
+      }
+    }
+    state.set(node, 'done');
+  };
+  const hasIncoming = new Set(edges.map(e => e.target));
+  nodes.filter(n => !hasIncoming.has(n)).forEach(n => !state.has(n) && visit(n));
+  nodes.forEach(n => !state.has(n) && visit(n));
+
+  for (const edge of edges) {
+    if (edge.source === edge.target) continue;
+    const [from, to] = edge.reversed ? [edge.target, edge.source] : [edge.source, edge.target];
+    edge.path = [from, to];
+    from.succs.push(to);
+    to.preds.push(from);
+  }
+
+  // Longest path, in topological order
+  const remaining = new Map(nodes.map(n => [n, n.preds.length]));
+  const queue = nodes.filter(n => n.preds.length === 0);
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    for (const succ of node.succs) {
+      succ.rank = Math.max(succ.rank, node.rank + 1);
+      remaining.set(succ, remaining.get(succ)! - 1);
+      if (remaining.get(succ) === 0) queue.push(succ);
+    }
+  }
+
+  const layers: LayoutNode[][] = [];
+  nodes.forEach(node => {
+    while (layers.length <= node.rank) layers.push([]);
+    layers[node.rank].push(node);
+  });
+  return layers;
+}
+
+/**
+ * Splits edges that span several ranks with dummy nodes, so long edges reserve
+ * room in every rank they pass through instead of running across shapes
+ */
+function insertDummyNodes(edges: LayoutEdge[], layers: LayoutNode[][]): void {
+  let dummyCounter = 0;
+
+  for (const edge of edges) {
+    const [from, to] = edge.path;
+    if (edge.path.length !== 2 || to.rank - from.rank <= 1) continue;
+
+    from.succs.splice(from.succs.indexOf(to), 1);
+    to.preds.splice(to.preds.indexOf(from), 1);
+
+    const path = [from];
+    for (let rank = from.rank + 1; rank < to.rank; rank++) {
+      const dummy: LayoutNode = {
+        id: `dummy_${++dummyCounter}`,
+        main: 0,
+        cross: 0,
+        rank,
+        order: 0,
+        lane: to.lane, // Change lanes right after the source
+        m: 0,
+        c: 0,
+        preds: [],
+        succs: []
+      };
+      layers[rank].push(dummy);
+      path.push(dummy);
+    }
+    path.push(to);
+
+    for (let i = 1; i < path.length; i++) {
+      path[i - 1].succs.push(path[i]);
+      path[i].preds.push(path[i - 1]);
+    }
+    edge.path = path;
+  }
+}
+
+/**
+ * Orders the nodes of each rank: depth-first from the sources so branches stay
+ * together, then refined by barycenter sweeps to reduce edge crossings.
+ * Lanes are kept contiguous.
+ */
+function orderLayers(nodes: LayoutNode[], layers: LayoutNode[][]): void {
+  const visited = new Set<LayoutNode>();
+  const sequence: LayoutNode[] = [];
+  const visit = (node: LayoutNode) => {
+    if (visited.has(node)) return;
+    visited.add(node);
+    sequence.push(node);
+    node.succs.forEach(visit);
+  };
+  nodes.filter(n => n.preds.length === 0).forEach(visit);
+  layers.flat().forEach(visit);
+
+  const position = new Map(sequence.map((node, idx) => [node, idx]));
+  layers.forEach(layer => {
+    layer.sort((a, b) => a.lane - b.lane || position.get(a)! - position.get(b)!);
+    layer.forEach((node, idx) => { node.order = idx; });
+  });
+
+  const sortByBarycenter = (layer: LayoutNode[], neighbours: (n: LayoutNode) => LayoutNode[]) => {
+    const keys = new Map(layer.map(node => {
+      const adjacent = neighbours(node);
+      return [node, adjacent.length > 0 ? average(adjacent.map(n => n.order)) : node.order];
+    }));
+    layer.sort((a, b) => a.lane - b.lane || keys.get(a)! - keys.get(b)! || a.order - b.order);
+    layer.forEach((node, idx) => { node.order = idx; });
+  };
+
+  for (let iteration = 0; iteration < ORDER_ITERATIONS; iteration++) {
+    for (let rank = 1; rank < layers.length; rank++) sortByBarycenter(layers[rank], n => n.preds);
+    for (let rank = layers.length - 2; rank >= 0; rank--) sortByBarycenter(layers[rank], n => n.succs);
+  }
+}
+
+/**
+ * Positions nodes across the flow, relative to their lane. Each pass moves the nodes
+ * of a rank as close as possible to the mean of their neighbours in the previous
+ * rank while keeping their order and spacing, which straightens chains and centres
+ * gateways between their branches.
+ */
+function placeAcrossFlow(layers: LayoutNode[][], laneCount: number): void {
+  const gap = (a: LayoutNode, b: LayoutNode) =>
+    (a.cross + b.cross) / 2 + (a.element && b.element ? NODE_GAP : EDGE_GAP);
+
+  const align = (layer: LayoutNode[], neighbours?: (n: LayoutNode) => LayoutNode[]) => {
+    for (let lane = 0; lane < laneCount; lane++) {
+      const segment = layer.filter(n => n.lane === lane);
+      if (segment.length === 0) continue;
+
+      const desired = segment.map(node => {
+        const adjacent = neighbours ? neighbours(node).filter(n => n.lane === node.lane) : [];
+        return adjacent.length > 0 ? average(adjacent.map(n => n.c)) : node.c;
+      });
+      const gaps = segment.map((node, idx) => idx === 0 ? 0 : gap(segment[idx - 1], node));
+      placeInOrder(desired, gaps).forEach((c, idx) => { segment[idx].c = c; });
+    }
+  };
+
+  layers.forEach(layer => align(layer));
+  for (let iteration = 0; iteration < ALIGN_ITERATIONS; iteration++) {
+    for (let rank = 1; rank < layers.length; rank++) align(layers[rank], n => n.preds);
+    for (let rank = layers.length - 2; rank >= 0; rank--) align(layers[rank], n => n.succs);
+  }
+  for (let rank = 1; rank < layers.length; rank++) align(layers[rank], n => n.preds);
+  for (let iteration = 0; iteration < STRAIGHTEN_ITERATIONS; iteration++) straighten(layers, gap);
+
+  // Whole pixels, so nodes on the same line compare equal when edges are routed
+  layers.flat().forEach(node => { node.c = Math.round(node.c); });
+}
+
+/**
+ * Removes small jogs: moves each node onto the line of its nearest neighbour in an
+ * adjacent rank when that is only a short distance away and leaves room for the
+ * nodes around it
+ */
+function straighten(layers: LayoutNode[][], gap: (a: LayoutNode, b: LayoutNode) => number): void {
+  for (const layer of layers) {
+    layer.forEach((node, idx) => {
+      const candidates = [...node.preds, ...node.succs]
+        .filter(n => n.lane === node.lane && n.c !== node.c && Math.abs(n.c - node.c) <= NODE_GAP)
+        .sort((a, b) => Math.abs(a.c - node.c) - Math.abs(b.c - node.c));
+
+      const previous = layer[idx - 1]?.lane === node.lane ? layer[idx - 1] : undefined;
+      const following = layer[idx + 1]?.lane === node.lane ? layer[idx + 1] : undefined;
+      const target = candidates.find(n =>
+        (!previous || n.c - previous.c >= gap(previous, node)) &&
+        (!following || following.c - n.c >= gap(node, following))
+      );
+      if (target) node.c = target.c;
+    });
+  }
+}
+
+/**
+ * Places values as close as possible to their desired positions (least squares)
+ * while keeping their order and the minimum gap before each of them.
+ * This is isotonic regression, solved with pool-adjacent-violators.
+ */
+function placeInOrder(desired: number[], gaps: number[]): number[] {
+  const offsets: number[] = [];
+  gaps.reduce((sum, gap, idx) => (offsets[idx] = sum + gap), 0);
+
+  const blocks: { sum: number; count: number }[] = [];
+  desired.forEach((value, idx) => {
+    blocks.push({ sum: value - offsets[idx], count: 1 });
+    while (blocks.length > 1) {
+      const last = blocks[blocks.length - 1];
+      const previous = blocks[blocks.length - 2];
+      if (previous.sum / previous.count <= last.sum / last.count) break;
+      previous.sum += last.sum;
+      previous.count += last.count;
+      blocks.pop();
+    }
+  });
+
+  return blocks.flatMap(block => Array<number>(block.count).fill(block.sum / block.count))
+    .map((value, idx) => value + offsets[idx]);
+}
+
+/**
+ * Stacks the lanes across the flow, each sized around its nodes, and moves the
+ * nodes into their lane. Returns the band of each lane.
+ */
+function stackLanes(nodes: LayoutNode[], laneCount: number): { start: number; size: number }[] {
+  const bands: { start: number; size: number }[] = [];
+  let start = 0;
+
+  for (let lane = 0; lane < laneCount; lane++) {
+    const members = nodes.filter(n => n.lane === lane);
+    const min = Math.min(0, ...members.map(n => n.c - n.cross / 2));
+    const max = Math.max(0, ...members.map(n => n.c + n.cross / 2));
+    const size = Math.max(LANE_MIN_SIZE, max - min + 2 * CONTAINER_PADDING);
+
+    const offset = Math.round(start + (size - (max - min)) / 2 - min);
+    members.forEach(n => { n.c += offset; });
+    bands.push({ start, size });
+    start += size;
+  }
+
+  return bands;
+}
+
+/**
+ * A data object or store with the activities it is associated with
+ */
+interface DataNode {
+  node: LayoutNode;
+  associations: { association: BpmnElement; anchor: LayoutNode }[];
+}
+
+/**
+ * Creates a node for each data object and store of a container, placed across the
+ * flow in a row below the other nodes of the lane of the first activity using it.
+ * Call after placeAcrossFlow(); the row is placed along the flow by placeDataAlongFlow().
+ */
+function placeDataRow(
+  context: LayoutContext,
+  children: BpmnElement[],
+  nodes: Map<string, LayoutNode>,
+  layers: LayoutNode[][]
+): DataNode[] {
+  const dataNodes: DataNode[] = [];
+  for (const element of children.filter(e => e.type === 'dataObjectReference' || e.type === 'dataStoreReference')) {
+    const associations = children
+      .filter(e => e.sourceRef === element.id || e.targetRef === element.id)
+      .map(association => ({
+        association,
+        anchor: nodes.get(association.sourceRef === element.id ? association.targetRef! : association.sourceRef!)!
+      }))
+      .filter(({ anchor }) => anchor);
+    const size = element.type === 'dataStoreReference' ? DATA_STORE_SIZE : DATA_OBJECT_SIZE;
+    dataNodes.push({
+      node: {
+        id: element.id,
+        element,
+        main: context.horizontal ? size.width : size.height,
+        cross: context.horizontal ? size.height : size.width,
+        rank: associations[0]?.anchor.rank ?? 0,
+        order: 0,
+        lane: associations[0]?.anchor.lane ?? 0,
+        m: 0,
+        c: 0,
+        preds: [],
+        succs: []
+      },
+      associations
+    });
+  }
+
+  const flowNodes = layers.flat();
+  for (const { node } of dataNodes) {
+    const laneNodes = flowNodes.filter(n => n.lane === node.lane);
+    const bottom = Math.max(0, ...laneNodes.map(n => n.c + n.cross / 2));
+    node.c = Math.round(bottom + NODE_GAP + node.cross / 2);
+  }
+  return dataNodes;
+}
+
+/**
+ * Moves each data node as close as possible to the first activity using it along the
+ * flow, under which it stays clear of the flows between ranks, keeping the nodes of a
+ * row and their labels apart. Call after placeAlongFlow().
+ */
+function placeDataAlongFlow(dataNodes: DataNode[], horizontal: boolean): void {
+  // Labels are below the shapes, so they widen a row that runs left to right and lengthen one that runs down
+  const extent = (node: LayoutNode) => horizontal
+    ? Math.max(node.main, DATA_LABEL_SIZE.width)
+    : node.main + DATA_LABEL_SIZE.height;
+
+  const rows = new Map<number, DataNode[]>();
+  dataNodes.forEach(data => rows.set(data.node.lane, [...(rows.get(data.node.lane) || []), data]));
+
+  for (const row of rows.values()) {
+    const desired = new Map(row.map(data => [data, data.associations[0]?.anchor.m ?? 0]));
+    row.sort((a, b) => desired.get(a)! - desired.get(b)!);
+    const gaps = row.map((data, idx) => idx === 0 ? 0 : (extent(row[idx - 1].node) + extent(data.node)) / 2);
+    placeInOrder(row.map(data => desired.get(data)!), gaps).forEach((m, idx) => { row[idx].node.m = Math.round(m); });
+  }
+}
+
+/**
+ * Routes a data association from the data node to its activity, in flow order.
+ * It runs straight up into the activity when nothing lies between them, and
+ * otherwise along the channel above the data row and up through the gap
+ * before or after the activity's rank into its side.
+ */
+function routeDataAssociation(
+  data: LayoutNode,
+  anchor: LayoutNode,
+  layers: LayoutNode[][],
+  columns: { start: number; size: number }[]
+): FlowPoint[] {
+  const dataTop = data.c - data.cross / 2;
+  const anchorBottom = anchor.c + anchor.cross / 2;
+  const channel = dataTop - NODE_GAP / 2;
+  const isBelowClear = !layers[anchor.rank].some(other =>
+    other !== anchor && other.element && other.c > anchor.c && other.c - other.cross / 2 < dataTop
+  );
+  const span = anchor.main / 2 - EDGE_GAP / 2;
+
+  if (isBelowClear && data.lane === anchor.lane) {
+    if (Math.abs(data.m - anchor.m) <= span) {
+      return [{ m: data.m, c: dataTop }, { m: data.m, c: anchorBottom }];
+    }
+    const m = anchor.m + Math.sign(data.m - anchor.m) * span;
+    return [{ m: data.m, c: dataTop }, { m: data.m, c: channel }, { m, c: channel }, { m, c: anchorBottom }];
+  }
+
+  // Enter the activity from the side facing the data, below its sequence flows
+  const after = data.m > anchor.m;
+  const column = columns[anchor.rank];
+  const gap = after ? column.start + column.size + RANK_GAP / 4 : column.start - RANK_GAP / 4;
+  const side = anchor.m + (after ? anchor.main / 2 : -anchor.main / 2);
+  const c = anchor.c + anchor.cross / 4;
+  if (Math.abs(gap - data.m) <= data.main / 2) {
+    return [{ m: gap, c: dataTop }, { m: gap, c }, { m: side, c }];
+  }
+  return [
+    { m: data.m, c: dataTop },
+    { m: data.m, c: channel },
+    { m: gap, c: channel },
+    { m: gap, c },
+    { m: side, c }
+  ];
+}
+
+/**
+ * Positions the ranks along the flow, each as wide as its largest node.
+ * Returns the start and size of each rank.
+ */
+function placeAlongFlow(layers: LayoutNode[][]): { start: number; size: number }[] {
+  let start = 0;
+  return layers.map(layer => {
+    const size = Math.max(0, ...layer.map(n => n.main));
+    layer.forEach(node => { node.m = start + size / 2; });
+    const column = { start, size };
+    start += size + RANK_GAP;
+    return column;
+  });
+}
+
+/**
+ * Routes an edge orthogonally through its dummy nodes. Changes of lane or branch
+ * happen in the gap between two ranks, except at gateways, where branches leave
+ * and join at the gateway's corners when nothing is in the way.
+ */
+function routeEdge(
+  edge: LayoutEdge,
+  layers: LayoutNode[][],
+  columns: { start: number; size: number }[],
+  boundaryCentre?: FlowPoint
+): FlowPoint[] {
+  const { path } = edge;
+  const source = path[0];
+  const target = path[path.length - 1];
+
+  if (edge.source === edge.target) {
+    // Loop over the top of the node
+    const top = source.c - source.cross / 2 - BOUNDARY_DETOUR;
+    const start = source.m + source.main / 2;
+    const end = source.m - source.main / 2;
+    return [
+      { m: start, c: source.c },
+      { m: start + BOUNDARY_DETOUR, c: source.c },
+      { m: start + BOUNDARY_DETOUR, c: top },
+      { m: end - BOUNDARY_DETOUR, c: top },
+      { m: end - BOUNDARY_DETOUR, c: target.c },
+      { m: end, c: target.c }
+    ];
+  }
+
+  const gapAfter = (rank: number) => columns[rank].start + columns[rank].size + RANK_GAP / 2;
+  const isGateway = (node: LayoutNode) => !!node.element?.type.endsWith('Gateway');
+  const beyondCorner = (node: LayoutNode, c: number) => Math.abs(c - node.c) > node.cross / 2;
+  const isClear = (node: LayoutNode, from: number, to: number) => !layers[node.rank].some(other =>
+    other !== node && other.element &&
+    other.c + other.cross / 2 > Math.min(from, to) && other.c - other.cross / 2 < Math.max(from, to)
+  );
+
+  const points: FlowPoint[] = [];
+  let current: number;
+  let next = 1;
+
+  if (boundaryCentre && !edge.reversed) {
+    // Leave the boundary event away from its host
+    const edgeOfEvent = boundaryCentre.c + EVENT_SIZE / 2;
+    points.push({ m: boundaryCentre.m, c: edgeOfEvent });
+    current = path[1].c >= edgeOfEvent ? path[1].c : edgeOfEvent + BOUNDARY_DETOUR;
+    points.push({ m: boundaryCentre.m, c: current });
+  } else if (isGateway(source) && beyondCorner(source, path[1].c) && isClear(source, source.c, path[1].c)) {
+    // Leave a split gateway from the corner facing the branch
+    const direction = Math.sign(path[1].c - source.c);
+    points.push({ m: source.m, c: source.c + direction * source.cross / 2 });
+    points.push({ m: source.m, c: path[1].c });
+    current = path[1].c;
+  } else {
+    points.push({ m: source.m + source.main / 2, c: source.c });
+    current = source.c;
+  }
+
+  for (; next < path.length; next++) {
+    const node = path[next];
+    if (node.c === current) continue;
+
+    if (node === target && isGateway(target) && beyondCorner(target, current) && isClear(target, current, target.c)) {
+      // Join a gateway at the corner facing the branch
+      const direction = Math.sign(current - target.c);
+      points.push({ m: target.m, c: current });
+      points.push({ m: target.m, c: target.c + direction * target.cross / 2 });
+      return finishRoute(points, edge.reversed);
+    }
+
+    const bend = gapAfter(path[next - 1].rank);
+    points.push({ m: bend, c: current }, { m: bend, c: node.c });
+    current = node.c;
+  }
+
+  points.push({ m: target.m - target.main / 2, c: target.c });
+  return finishRoute(points, edge.reversed);
+}
+
+/**
+ * Drops redundant waypoints and restores the direction of reversed edges
+ */
+function finishRoute(points: FlowPoint[], reversed: boolean): FlowPoint[] {
+  const result = points.filter((point, idx) => {
+    const previous = points[idx - 1];
+    return !previous || previous.m !== point.m || previous.c !== point.c;
+  }).filter((point, idx, all) => {
+    const previous = all[idx - 1];
+    const following = all[idx + 1];
+    if (!previous || !following) return true;
+    return !((previous.m === point.m && point.m === following.m) || (previous.c === point.c && point.c === following.c));
+  });
+
+  return reversed ? result.reverse() : result;
+}
+
+/**
+ * Sizes each group around its member shapes on the group's diagram
+ */
+function layoutGroups(context: LayoutContext, diElements: BpmnDiElement[]): void {
+  for (const group of context.elements.filter(e => e.type === 'group')) {
+    const plane = context.collapsed ? group.parentId : undefined;
+    const members = new Set(group.memberIds || []);
+    const bounds = getBounds(diElements.filter(di => members.has(di.bpmnElement) && di.plane === plane));
+    if (!bounds) continue;
+
+    diElements.push({
+      id: `${group.id}_di`,
+      bpmnElement: group.id,
+      plane,
+      x: bounds.minX - GROUP_PADDING,
+      y: bounds.minY - GROUP_PADDING,
+      width: bounds.maxX - bounds.minX + 2 * GROUP_PADDING,
+      height: bounds.maxY - bounds.minY + 2 * GROUP_PADDING
+    });
+  }
+}
+
+/**
+ * Gets the default shape size of a flow node
+ */
+function getShapeSize(element: BpmnElement): { width: number; height: number } {
+  if (element.type.endsWith('Event')) return { width: EVENT_SIZE, height: EVENT_SIZE };
+  if (element.type.endsWith('Gateway')) return { width: GATEWAY_SIZE, height: GATEWAY_SIZE };
+  return { width: TASK_WIDTH, height: TASK_HEIGHT };
+}
+
+/**
+ * Computes the bounding box of DI shapes and edges
+ */
+function getBounds(
+  diElements: BpmnDiElement[]
+): { minX: number; minY: number; maxX: number; maxY: number } | undefined {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const di of diElements) {
+    if (di.waypoints) {
+      di.waypoints.forEach(p => { xs.push(p.x); ys.push(p.y); });
+    } else if (di.width !== undefined && di.height !== undefined) {
+      xs.push(di.x!, di.x! + di.width);
+      ys.push(di.y!, di.y! + di.height);
+    }
+  }
+  if (xs.length === 0) return undefined;
+
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+}
+
+/**
+ * Moves DI shapes and edges by an offset
+ */
+function translate(diElements: BpmnDiElement[], dx: number, dy: number): void {
+  for (const di of diElements) {
+    if (di.waypoints) {
+      di.waypoints = di.waypoints.map(p => ({ x: p.x + dx, y: p.y + dy }));
+    } else if (di.x !== undefined && di.y !== undefined) {
+      di.x += dx;
+      di.y += dy;
+    }
+  }
+}
+
+/**
+ * Moves a diagram so its top-left corner is at the diagram origin
+ */
+function moveToOrigin(diElements: BpmnDiElement[]): void {
+  const bounds = getBounds(diElements);
+  if (bounds) translate(diElements, DIAGRAM_ORIGIN.x - bounds.minX, DIAGRAM_ORIGIN.y - bounds.minY);
+}
+
+function roundBounds(bounds: { x: number; y: number; width: number; height: number }) {
+  return {
+    x: Math.round(bounds.x),
+    y: Math.round(bounds.y),
+    width: Math.round(bounds.width),
+    height: Math.round(bounds.height)
+  };
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
@@ -0,0 +1,360 @@
+/**
+ * bpmn-svg.ts
+ * Renders the process diagram of a converted BPMN model as a standalone SVG,
+ * without a browser or bpmn-js
+ */
+
+import { BpmnElement, BpmnEventDefinition, BpmnLoopCharacteristics } from './BpmnFactory';
+import { BpmnDiElement } from './bpmn-layout';
+import { BpmnModel } from './plandefinition-to-bpmn';
+
+export interface SvgRenderOptions {
+  /** Name shown in a pool the model has no participant for */
+  title?: string;
+}
+
+const MARGIN = 20;
+const FONT_SIZE = 12;
+const LINE_HEIGHT = 14;
+// Rough average glyph width of the sans-serif font at FONT_SIZE
+const CHAR_WIDTH = 6.5;
+const LABEL_WIDTH = 100;
+const POOL_LABEL_SIZE = 30;
+const STROKE = '#22242a';
+
+/**
+ * Renders the process plane of a BPMN model, the same diagram the viewer shows
+ * first. Drill-down planes of collapsed sub-processes are not rendered.
+ */
+export function renderBpmnSvg(model: BpmnModel, options: SvgRenderOptions = {}): string {
+  const elementsById = new Map(model.elements.map(element => [element.id, element]));
+  const lanesById = new Map(model.lanes.map(lane => [lane.id, lane]));
+  const participantsById = new Map(model.participants.map(participant => [participant.id, participant]));
+  const diagram = model.diagram.filter(di => !di.plane);
+
+  const shapes = diagram.filter(di => !di.waypoints);
+  const edges = diagram.filter(di => di.waypoints);
+  const typeOf = (di: BpmnDiElement) => elementsById.get(di.bpmnElement)?.type;
+
+  const body: string[] = [];
+
+  // The pool and its lanes at the back, then containers, flows and the flow nodes on top
+  const swimlanes = shapes
+    .filter(di => di.isHorizontal !== undefined)
+    .sort((a, b) => area(b) - area(a));
+  for (const di of swimlanes) {
+    const name = lanesById.get(di.bpmnElement)?.name ?? participantsById.get(di.bpmnElement)?.name;
+    body.push(renderSwimlane(di, name ?? options.title ?? ''));
+  }
+  const containers = shapes
+    .filter(di => typeOf(di) === 'subProcess' && di.isExpanded)
+    .sort((a, b) => area(b) - area(a));
+  containers.forEach(di => body.push(renderActivity(di, elementsById.get(di.bpmnElement)!)));
+  for (const di of edges) {
+    const element = elementsById.get(di.bpmnElement);
+    body.push(element?.type.startsWith('data')
+      ? renderDataAssociation(di)
+      : renderSequenceFlow(di, element));
+  }
+  for (const di of shapes) {
+    const element = elementsById.get(di.bpmnElement);
+    if (!element || containers.includes(di)) continue;
+    if (element.type === 'group') {
+      body.push(renderGroup(di, element));
+    } else if (element.type.endsWith('Event')) {
+      body.push(renderEvent(di, element));
+    } else if (element.type.endsWith('Gateway')) {
+      body.push(renderGateway(di, element));
+    } else if (element.type === 'dataObjectReference' || element.type === 'dataStoreReference') {
+      body.push(renderData(di, element));
+    } else {
+      body.push(renderActivity(di, element));
+    }
+  }
+
+  const bounds = getDiagramBounds(diagram);
+  const width = bounds.maxX - bounds.minX + 2 * MARGIN;
+  const height = bounds.maxY - bounds.minY + 2 * MARGIN;
+  const viewBox = `${bounds.minX - MARGIN} ${bounds.minY - MARGIN} ${width} ${height}`;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="${viewBox}"`,
+    `  font-family="Arial, Helvetica, sans-serif" font-size="${FONT_SIZE}">`,
+    '  <defs>',
+    '    <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto">',
+    `      <path d="M 0 0 L 10 5 L 0 10 Z" fill="${STROKE}" />`,
+    '    </marker>',
+    '    <marker id="open-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto">',
+    `      <path d="M 0 0 L 10 5 L 0 10" fill="none" stroke="${STROKE}" />`,
+    '    </marker>',
+    '  </defs>',
+    `  <rect x="${bounds.minX - MARGIN}" y="${bounds.minY - MARGIN}" width="${width}" height="${height}" fill="white" />`,
+    ...body.map(part => `  ${part}`),
+    '</svg>'
+  ].join('\n');
+}
+
+function renderSwimlane(di: BpmnDiElement, name: string): string {
+  const { x, y, width, height } = box(di);
+  const parts = [`<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="white" stroke="${STROKE}" />`];
+
+  if (di.isHorizontal) {
+    // Horizontal lanes carry their name in a vertical band on the left
+    const cx = x + POOL_LABEL_SIZE / 2;
+    const cy = y + height / 2;
+    parts.push(`<line x1="${x + POOL_LABEL_SIZE}" y1="${y}" x2="${x + POOL_LABEL_SIZE}" y2="${y + height}" stroke="${STROKE}" />`);
+    parts.push(text(cx, cy, [name], `transform="rotate(-90 ${cx} ${cy})"`));
+  } else {
+    parts.push(`<line x1="${x}" y1="${y + POOL_LABEL_SIZE}" x2="${x + width}" y2="${y + POOL_LABEL_SIZE}" stroke="${STROKE}" />`);
+    parts.push(text(x + width / 2, y + POOL_LABEL_SIZE / 2, [name]));
+  }
+  return parts.join('\n  ');
+}
+
+function renderGroup(di: BpmnDiElement, element: BpmnElement): string {
+  const { x, y, width, height } = box(di);
+  return [
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="10" fill="none" stroke="${STROKE}" stroke-dasharray="8 3 1 3" />`,
+    text(x + width / 2, y + LINE_HEIGHT, wrap(element.name, width))
+  ].join('\n  ');
+}
+
+function renderActivity(di: BpmnDiElement, element: BpmnElement): string {
+  const { x, y, width, height } = box(di);
+  const strokeWidth = element.type === 'callActivity' ? 4 : 2;
+  const parts = [
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" rx="10" fill="white" stroke="${STROKE}" stroke-width="${strokeWidth}" />`
+  ];
+
+  // Markers sit side by side at the bottom centre: the loop marker, then the collapsed marker
+  const markers: ((mx: number, my: number) => string)[] = [];
+  const loop = element.loopCharacteristics;
+  if (loop) markers.push((mx, my) => renderLoopMarker(mx, my, loop));
+  const collapsed = element.type === 'callActivity' || (element.type === 'subProcess' && !di.isExpanded);
+  if (collapsed) {
+    // A plus in a square
+    markers.push((mx, my) => `<rect x="${mx}" y="${my}" width="14" height="14" fill="white" stroke="${STROKE}" />` +
+      `<path d="M ${mx + 3} ${my + 7} H ${mx + 11} M ${mx + 7} ${my + 3} V ${my + 11}" stroke="${STROKE}" />`);
+  }
+  const markersStart = x + width / 2 - (markers.length * 14 + (markers.length - 1) * 4) / 2;
+  markers.forEach((marker, idx) => parts.push(marker(markersStart + idx * 18, y + height - 18)));
+
+  if (element.type === 'subProcess' && di.isExpanded) {
+    parts.push(text(x + width / 2, y + LINE_HEIGHT, wrap(element.name, width - 10)));
+    return parts.join('\n  ');
+  }
+
+  const typeLabel = TASK_TYPE_LABELS[element.type];
+  if (typeLabel) {
+    parts.push(`<text x="${x + 6}" y="${y + 14}" font-size="9" fill="#666">${escapeXml(typeLabel)}</text>`);
+  }
+  parts.push(text(x + width / 2, y + height / 2, wrap(element.name, width - 10)));
+  return parts.join('\n  ');
+}
+
+/**
+ * Draws a loop marker in the 14 x 14 box at mx, my: a circular arrow for standard
+ * loops, three bars for multi-instance activities, lying down when sequential
+ */
+function renderLoopMarker(mx: number, my: number, loop: BpmnLoopCharacteristics): string {
+  if (loop.type === 'standard') {
+    return `<path d="M ${mx + 4} ${my + 13} A 6 6 0 1 1 ${mx + 10} ${my + 13}" fill="none" stroke="${STROKE}" stroke-width="1.5" />` +
+      `<path d="M ${mx + 1} ${my + 10} L ${mx + 4} ${my + 13} L ${mx} ${my + 14}" fill="none" stroke="${STROKE}" stroke-width="1.5" />`;
+  }
+  const bars = [2, 7, 12].map(offset => loop.isSequential
+    ? `M ${mx} ${my + offset} H ${mx + 14}`
+    : `M ${mx + offset} ${my} V ${my + 14}`);
+  return `<path d="${bars.join(' ')}" stroke="${STROKE}" stroke-width="2" />`;
+}
+
+const TASK_TYPE_LABELS: Record<string, string> = {
+  userTask: 'user',
+  serviceTask: 'service',
+  scriptTask: 'script',
+  businessRuleTask: 'rule',
+  manualTask: 'manual',
+  sendTask: 'send',
+  receiveTask: 'receive'
+};
+
+function renderEvent(di: BpmnDiElement, element: BpmnElement): string {
+  const { x, y, width, height } = box(di);
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  const r = width / 2;
+  const dashed = element.type === 'boundaryEvent' && element.cancelActivity === false ? ' stroke-dasharray="5 2"' : '';
+  const parts: string[] = [];
+
+  if (element.type === 'endEvent') {
+    parts.push(`<circle cx="${cx}" cy="${cy}" r="${r}" fill="white" stroke="${STROKE}" stroke-width="4" />`);
+  } else if (element.type === 'startEvent') {
+    parts.push(`<circle cx="${cx}" cy="${cy}" r="${r}" fill="white" stroke="${STROKE}" stroke-width="2" />`);
+  } else {
+    // Intermediate and boundary events have a double ring
+    parts.push(`<circle cx="${cx}" cy="${cy}" r="${r}" fill="white" stroke="${STROKE}"${dashed} />`);
+    parts.push(`<circle cx="${cx}" cy="${cy}" r="${r - 3}" fill="none" stroke="${STROKE}"${dashed} />`);
+  }
+
+  if (element.eventDefinition) {
+    parts.push(renderEventMarker(cx, cy, element.eventDefinition));
+  }
+  if (element.name) {
+    parts.push(text(cx, y + height + LINE_HEIGHT, wrap(element.name, LABEL_WIDTH)));
+  }
+  return parts.join('\n  ');
+}
+
+function renderEventMarker(cx: number, cy: number, definition: BpmnEventDefinition): string {
+  switch (definition.type) {
+    case 'message':
+      return `<path d="M ${cx - 8} ${cy - 5} H ${cx + 8} V ${cy + 6} H ${cx - 8} Z M ${cx - 8} ${cy - 5} L ${cx} ${cy + 1} L ${cx + 8} ${cy - 5}" fill="white" stroke="${STROKE}" />`;
+    case 'timer':
+      return `<circle cx="${cx}" cy="${cy}" r="9" fill="white" stroke="${STROKE}" />` +
+        `<path d="M ${cx} ${cy} L ${cx} ${cy - 7} M ${cx} ${cy} L ${cx + 5} ${cy + 2}" stroke="${STROKE}" />`;
+    case 'conditional':
+      return `<rect x="${cx - 6}" y="${cy - 8}" width="12" height="16" fill="white" stroke="${STROKE}" />` +
+        `<path d="M ${cx - 4} ${cy - 4} H ${cx + 4} M ${cx - 4} ${cy} H ${cx + 4} M ${cx - 4} ${cy + 4} H ${cx + 4}" stroke="${STROKE}" />`;
+  }
+}
+
+function renderGateway(di: BpmnDiElement, element: BpmnElement): string {
+  const { x, y, width, height } = box(di);
+  const cx = x + width / 2;
+  const cy = y + height / 2;
+  const parts = [
+    `<path d="M ${cx} ${y} L ${x + width} ${cy} L ${cx} ${y + height} L ${x} ${cy} Z" fill="white" stroke="${STROKE}" stroke-width="2" />`
+  ];
+
+  switch (element.type) {
+    case 'exclusiveGateway':
+      parts.push(`<path d="M ${cx - 7} ${cy - 7} L ${cx + 7} ${cy + 7} M ${cx + 7} ${cy - 7} L ${cx - 7} ${cy + 7}" stroke="${STROKE}" stroke-width="3" />`);
+      break;
+    case 'parallelGateway':
+      parts.push(`<path d="M ${cx} ${cy - 10} V ${cy + 10} M ${cx - 10} ${cy} H ${cx + 10}" stroke="${STROKE}" stroke-width="3" />`);
+      break;
+    case 'inclusiveGateway':
+      parts.push(`<circle cx="${cx}" cy="${cy}" r="10" fill="none" stroke="${STROKE}" stroke-width="2.5" />`);
+      break;
+    case 'eventBasedGateway':
+      parts.push(`<circle cx="${cx}" cy="${cy}" r="11" fill="none" stroke="${STROKE}" />`);
+      parts.push(`<circle cx="${cx}" cy="${cy}" r="8" fill="none" stroke="${STROKE}" />`);
+      break;
+  }
+
+  if (element.name) {
+    parts.push(text(cx, y + height + LINE_HEIGHT, wrap(element.name, LABEL_WIDTH)));
+  }
+  return parts.join('\n  ');
+}
+
+function renderSequenceFlow(di: BpmnDiElement, element?: BpmnElement): string {
+  const points = di.waypoints!;
+  const parts = [
+    `<polyline points="${points.map(p => `${p.x},${p.y}`).join(' ')}" fill="none" stroke="${STROKE}" stroke-width="1.5" marker-end="url(#arrow)" />`
+  ];
+  if (element?.name) {
+    // Flow labels sit just past the start of the first segment
+    const [first, second] = points;
+    const lx = first.x + Math.sign(second.x - first.x) * 20;
+    const ly = first.y + Math.sign(second.y - first.y) * 20 - 4;
+    parts.push(`<text x="${lx}" y="${ly}" font-size="11">${escapeXml(element.name)}</text>`);
+  }
+  return parts.join('\n  ');
+}
+
+function renderDataAssociation(di: BpmnDiElement): string {
+  const points = di.waypoints!.map(p => `${p.x},${p.y}`).join(' ');
+  return `<polyline points="${points}" fill="none" stroke="${STROKE}" stroke-dasharray="3 3" marker-end="url(#open-arrow)" />`;
+}
+
+function renderData(di: BpmnDiElement, element: BpmnElement): string {
+  const { x, y, width, height } = box(di);
+  const parts: string[] = [];
+
+  if (element.type === 'dataStoreReference') {
+    // A cylinder, the top rim drawn as a full ellipse
+    const rx = width / 2;
+    const ry = 6;
+    parts.push(`<path d="M ${x} ${y + ry} V ${y + height - ry} A ${rx} ${ry} 0 0 0 ${x + width} ${y + height - ry} V ${y + ry}" fill="white" stroke="${STROKE}" stroke-width="2" />`);
+    parts.push(`<ellipse cx="${x + rx}" cy="${y + ry}" rx="${rx}" ry="${ry}" fill="white" stroke="${STROKE}" stroke-width="2" />`);
+  } else {
+    // A page with a folded corner
+    const fold = 10;
+    parts.push(`<path d="M ${x} ${y} H ${x + width - fold} L ${x + width} ${y + fold} V ${y + height} H ${x} Z" fill="white" stroke="${STROKE}" stroke-width="2" />`);
+    parts.push(`<path d="M ${x + width - fold} ${y} V ${y + fold} H ${x + width}" fill="none" stroke="${STROKE}" />`);
+  }
+
+  if (element.name) {
+    parts.push(text(x + width / 2, y + height + LINE_HEIGHT, wrap(element.name, LABEL_WIDTH)));
+  }
+  return parts.join('\n  ');
+}
+
+/**
+ * Renders centred lines of text, vertically centred on cy
+ */
+function text(cx: number, cy: number, lines: string[], attributes = ''): string {
+  const top = cy - ((lines.length - 1) * LINE_HEIGHT) / 2 + FONT_SIZE / 3;
+  const spans = lines
+    .map((line, i) => `<tspan x="${cx}" y="${top + i * LINE_HEIGHT}">${escapeXml(line)}</tspan>`)
+    .join('');
+  return `<text text-anchor="middle"${attributes ? ` ${attributes}` : ''}>${spans}</text>`;
+}
+
+/**
+ * Breaks a label into lines that fit a width, estimated from the average glyph width
+ */
+function wrap(label: string | undefined, width: number): string[] {
+  if (!label) return [];
+  const maxChars = Math.max(4, Math.floor(width / CHAR_WIDTH));
+  const lines: string[] = [];
+  let line = '';
+  for (const word of label.split(/\s+/)) {
+    if (line && line.length + 1 + word.length > maxChars) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function box(di: BpmnDiElement): { x: number; y: number; width: number; height: number } {
+  return { x: di.x || 0, y: di.y || 0, width: di.width || 0, height: di.height || 0 };
+}
+
+function area(di: BpmnDiElement): number {
+  return (di.width || 0) * (di.height || 0);
+}
+
+/**
+ * Bounds of all shapes and flows, with room for the labels below events and gateways
+ */
+function getDiagramBounds(diagram: BpmnDiElement[]): { minX: number; minY: number; maxX: number; maxY: number } {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (const di of diagram) {
+    if (di.waypoints) {
+      di.waypoints.forEach(p => {
+        xs.push(p.x);
+        ys.push(p.y);
+      });
+    } else {
+      const { x, y, width, height } = box(di);
+      xs.push(x, x + width);
+      ys.push(y, y + height + 2 * LINE_HEIGHT);
+    }
+  }
+  if (xs.length === 0) return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
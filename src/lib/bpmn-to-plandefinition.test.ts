@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { convertBpmnToPlanDefinition } from './bpmn-to-plandefinition';
+import { convertPlanDefinitionToBpmn } from './plandefinition-to-bpmn';
+
+const roundTrip = (planDefinition: any) =>
+  convertBpmnToPlanDefinition(convertPlanDefinitionToBpmn(planDefinition).xml).planDefinition;
+
+describe('convertBpmnToPlanDefinition', () => {
+  describe('round trip', () => {
+    const planDefinition = {
+      resourceType: 'PlanDefinition',
+      id: 'diabetes',
+      action: [
+        {
+          id: 'action-1',
+          title: 'Assess',
+          description: 'Assess the patient\nand record the findings',
+          textEquivalent: 'Assess the patient'
+        },
+        {
+          id: 'action-2',
+          title: 'Check HbA1c',
+          description: 'Order an HbA1c test',
+          condition: [{
+            kind: 'applicability',
+            expression: { language: 'text/fhirpath', expression: 'AgeInYears() >= 18' }
+          }],
+          type: { coding: [{ code: 'create' }] }
+        }
+      ]
+    };
+
+    it('restores the ids of the actions', () => {
+      const actions = roundTrip(planDefinition).action!;
+
+      expect(actions.map(action => action.id)).toEqual(['action-1', 'action-2']);
+      expect(actions[1].relatedAction).toEqual([{ actionId: 'action-1', relationship: 'after-end' }]);
+    });
+
+    it('restores the description and text without the lines the converter wrote', () => {
+      const actions = roundTrip(planDefinition).action!;
+
+      expect(actions[0].description).toBe('Assess the patient\nand record the findings');
+      expect(actions[0].textEquivalent).toBe('Assess the patient');
+      expect(actions[1].description).toBe('Order an HbA1c test');
+    });
+
+    it('gives the same actions on every further round trip', () => {
+      const once = roundTrip(planDefinition);
+      const twice = roundTrip(once);
+
+      expect(twice.action!.map(a => [a.id, a.description])).toEqual(once.action!.map(a => [a.id, a.description]));
+    });
+  });
+
+  it('keeps the ids and documentation of activities the converter did not generate', () => {
+    const { planDefinition } = convertBpmnToPlanDefinition(`<?xml version="1.0" encoding="UTF-8"?>
+<bpmn:definitions xmlns:bpmn="http://www.omg.org/spec/BPMN/20100524/MODEL" id="Definitions_1">
+  <bpmn:process id="Process_1">
+    <bpmn:startEvent id="Start_1" />
+    <bpmn:task id="Task_1" name="Assess">
+      <bpmn:documentation>Description: written by hand</bpmn:documentation>
+    </bpmn:task>
+    <bpmn:sequenceFlow id="Flow_1" sourceRef="Start_1" targetRef="Task_1" />
+  </bpmn:process>
+</bpmn:definitions>`);
+
+    expect(planDefinition.action![0]).toMatchObject({ id: 'Task_1', description: 'Description: written by hand' });
+  });
+});
@@ -0,0 +1,739 @@
+/**
+ * bpmn-to-plandefinition.ts
+ * Converts BPMN 2.0 XML back to a FHIR PlanDefinition
+ */
+
+import { Element, xml2js } from 'xml-js';
+import { FhirAction, FhirDataRequirement, FhirPlanDefinition, FhirTriggerDefinition } from './fhir-types';
+import { timerDefinitionToTiming } from './fhir-timing';
+
+export interface BpmnConversionResult {
+  planDefinition: FhirPlanDefinition;
+  /** BPMN constructs that could not be mapped, or only approximately */
+  warnings: string[];
+}
+
+const ACTIVITY_TYPES = [
+  'task',
+  'userTask',
+  'manualTask',
+  'serviceTask',
+  'sendTask',
+  'receiveTask',
+  'scriptTask',
+  'businessRuleTask',
+  'callActivity',
+  'subProcess'
+];
+
+// Flow nodes that only shape the control flow and are folded into the actions around them
+const STRUCTURAL_TYPES = [
+  'startEvent',
+  'endEvent',
+  'intermediateCatchEvent',
+  'boundaryEvent',
+  'exclusiveGateway',
+  'parallelGateway',
+  'inclusiveGateway',
+  'eventBasedGateway'
+];
+
+// Children of a process or sub-process that carry no process semantics
+const IGNORED_TYPES = ['sequenceFlow', 'laneSet', 'documentation', 'extensionElements', 'incoming', 'outgoing',
+  'standardLoopCharacteristics', 'multiInstanceLoopCharacteristics'];
+
+// Data is mapped through the data associations of the activities that use it
+const DATA_TYPES = ['dataObject', 'dataObjectReference', 'dataStoreReference', 'property', 'dataInputAssociation',
+  'dataOutputAssociation'];
+
+const DEFAULT_EXPRESSION_LANGUAGE = 'text/cql-expression';
+
+// Activities the converter generated are named after the key of their action, e.g.
+// Task_hba1c-check, after the P1_ prefix of a pool when a Bundle was converted
+const GENERATED_ACTIVITY_ID = /^(?:P\d+_)?(?:Task|SubProcess|CallActivity)_(.+)$/;
+
+// Labels of the lines the converter writes into the documentation of an activity
+const DOCUMENTATION_LABEL = new RegExp(`^(${[
+  'Description', 'Text', 'Type', 'Definition', 'Kind', 'Code', 'Product', 'Dosage', 'Participants', 'Triggers',
+  'Condition \\d+(?: \\[[a-z-]+\\])?', 'Dynamic Value \\d+', 'Documentation \\d+'
+].join('|')}): `);
+
+// Branch conditions of a generated choice, which only test whether the
+// branch's action is in the selectedActions variable, in FHIRPath, FEEL or JUEL
+const SELECTION_CONDITION = /^(%selectedActions contains '[^']*'|list contains\(selectedActions, "[^"]*"\)|\$\{selectedActions\.contains\('[^']*'\)\})$/;
+
+interface BpmnNode {
+  id: string;
+  type: string;
+  name?: string;
+  element: Element;
+  incoming: BpmnFlow[];
+  outgoing: BpmnFlow[];
+}
+
+interface BpmnFlow {
+  id: string;
+  sourceRef: string;
+  targetRef: string;
+  condition?: { expression: string; language?: string };
+}
+
+/**
+ * State shared by all steps of a single conversion
+ */
+interface ImportContext {
+  /** bpmn:message names by id */
+  messages: Map<string, string>;
+  /** Lane names by flow node id */
+  laneNames: Map<string, string>;
+  /** Ids of the actions generated activities were converted from, by activity id */
+  actionIds: Map<string, string>;
+  /** Names of data object and data store references by id */
+  dataNames: Map<string, string>;
+  warnings: string[];
+  /** Whether the process is started by typed start events, i.e. is an ECA rule */
+  hasTriggeredStart: boolean;
+}
+
+/**
+ * What leads up to an activity: the activities it follows and the events and
+ * conditions on the paths from them
+ */
+interface Antecedents {
+  predecessors: string[];
+  triggers: FhirTriggerDefinition[];
+  startConditions: string[];
+  /** Flow conditions on each path, a path without conditions is always taken */
+  pathConditions: string[][];
+  language?: string;
+}
+
+/**
+ * Converts BPMN 2.0 XML to a FHIR PlanDefinition.
+ *
+ * Tasks, call activities and sub-processes become actions; sub-processes nest
+ * their content as child actions. Gateways and events are folded into the actions
+ * that follow them: sequence flows become after-end relatedAction entries,
+ * conditions on flows become applicability conditions, message, timer and
+ * conditional events become triggers, intermediate conditional events become
+ * start conditions and interrupting conditional boundary events stop conditions.
+ * Lanes become participant roles, and the data an activity reads and writes its
+ * input and output, with the assignments into its output as dynamicValues.
+ */
+export function convertBpmnToPlanDefinition(xml: string): BpmnConversionResult {
+  let document: Element;
+  try {
+    document = xml2js(xml, {
+      compact: false,
+      ignoreComment: true,
+      ignoreDeclaration: true,
+      ignoreInstruction: true,
+      ignoreDoctype: true
+    }) as Element;
+  } catch (error: any) {
+    throw new Error(`Invalid BPMN: ${error.message}`);
+  }
+
+  const definitions = childElements(document).find(e => localName(e) === 'definitions');
+  if (!definitions) {
+    throw new Error('Invalid BPMN: root element must be "definitions"');
+  }
+
+  const context: ImportContext = {
+    messages: new Map(),
+    laneNames: new Map(),
+    actionIds: new Map(),
+    dataNames: new Map(),
+    warnings: [],
+    hasTriggeredStart: false
+  };
+
+  childElements(definitions, 'message').forEach(message => {
+    context.messages.set(attr(message, 'id')!, attr(message, 'name') || attr(message, 'id')!);
+  });
+
+  const processes = childElements(definitions, 'process');
+  const process = processes.find(p => childElements(p).some(e => ACTIVITY_TYPES.includes(localName(e)))) || processes[0];
+  if (!process) {
+    throw new Error('Invalid BPMN: no process found');
+  }
+  processes.filter(p => p !== process).forEach(p => {
+    context.warnings.push(`Process ${describe(p)} was skipped, only one process per file is converted`);
+  });
+  if (childElements(definitions, 'collaboration').some(c => childElements(c, 'messageFlow').length > 0)) {
+    context.warnings.push('Message flows between pools cannot be mapped and were skipped');
+  }
+
+  collectLanes(process, context);
+  collectActionIds(process, context);
+  collectDataReferences(process, context);
+
+  const processId = attr(process, 'id');
+  const planDefinition: FhirPlanDefinition = {
+    resourceType: 'PlanDefinition',
+    ...(processId ? { id: processId } : {}),
+    title: attr(process, 'name') || 'Imported BPMN Process',
+    status: 'draft'
+  };
+
+  const description = getDocumentation(process);
+  if (description) planDefinition.description = description;
+
+  const { actions } = convertContainer(process, context);
+
+  if (context.hasTriggeredStart) {
+    planDefinition.type = {
+      coding: [{
+        system: 'http://terminology.hl7.org/CodeSystem/plan-definition-type',
+        code: 'eca-rule',
+        display: 'ECA Rule'
+      }]
+    };
+  }
+  if (actions.length > 0) planDefinition.action = actions;
+  else context.warnings.push('The process contains no activities');
+
+  return { planDefinition, warnings: [...new Set(context.warnings)] };
+}
+
+/**
+ * Converts the activities of a process or sub-process into sibling actions,
+ * in the order they are performed. A choice right after the start of the
+ * container becomes the selection behavior of the actions.
+ */
+function convertContainer(
+  container: Element,
+  context: ImportContext
+): { actions: FhirAction[]; selectionBehavior?: FhirAction['selectionBehavior'] } {
+  const nodes = new Map<string, BpmnNode>();
+  const flows: BpmnFlow[] = [];
+
+  for (const element of childElements(container)) {
+    const type = localName(element);
+    const id = attr(element, 'id');
+
+    if (type === 'sequenceFlow') {
+      const condition = childElements(element, 'conditionExpression')[0];
+      // Camunda 8 marks FEEL expressions with a leading "="
+      const expression = condition && textContent(condition)?.replace(/^=\s*/, '');
+      // Selecting a branch is what the choice itself stands for, so it is no condition of the action
+      const selection = expression && SELECTION_CONDITION.test(expression.trim());
+      flows.push({
+        id: id || '',
+        sourceRef: attr(element, 'sourceRef') || '',
+        targetRef: attr(element, 'targetRef') || '',
+        ...(expression && !selection ? { condition: { expression, language: attr(condition, 'language') } } : {})
+      });
+    } else if (!IGNORED_TYPES.includes(type) && !DATA_TYPES.includes(type)) {
+      // Unsupported nodes are still passed through, so the flow around them stays connected
+      if (id) nodes.set(id, { id, type, name: attr(element, 'name'), element, incoming: [], outgoing: [] });
+      if (!ACTIVITY_TYPES.includes(type) && !STRUCTURAL_TYPES.includes(type)) {
+        context.warnings.push(`${type} ${describe(element)} cannot be mapped and was skipped`);
+      }
+    }
+  }
+
+  for (const flow of flows) {
+    nodes.get(flow.sourceRef)?.outgoing.push(flow);
+    nodes.get(flow.targetRef)?.incoming.push(flow);
+  }
+
+  // The default flow of a gateway is taken when none of the other conditions hold
+  nodes.forEach(node => {
+    const defaultFlow = node.outgoing.find(f => f.id === attr(node.element, 'default'));
+    const conditions = node.outgoing.filter(f => f.condition).map(f => f.condition!);
+    if (!defaultFlow || defaultFlow.condition || conditions.length === 0) return;
+
+    const expression = conditions.length === 1
+      ? conditions[0].expression
+      : conditions.map(c => `(${c.expression})`).join(' or ');
+    defaultFlow.condition = { expression: `not (${expression})`, language: conditions[0].language };
+  });
+
+  const choice = localName(container) === 'subProcess' ? findInitialChoice(nodes) : undefined;
+  nodes.forEach(node => node !== choice?.gateway && checkStructuralNode(node, context));
+
+  const activities = [...nodes.values()].filter(n => ACTIVITY_TYPES.includes(n.type) && !isEventSubProcess(n));
+  nodes.forEach(node => {
+    if (isEventSubProcess(node)) {
+      context.warnings.push(`Event sub-process ${describe(node.element)} cannot be mapped and was skipped`);
+    }
+  });
+
+  const antecedents = new Map(activities.map(a => [a.id, findAntecedents(a, nodes, context)]));
+  const ordered = orderActivities(activities, antecedents);
+
+  // Activities that start the container run side by side
+  const roots = ordered.filter(a => antecedents.get(a.id)!.predecessors.length === 0);
+
+  const actions = ordered.map(activity => {
+    const action = convertActivity(activity, antecedents.get(activity.id)!, nodes, context);
+    if (!choice && roots.length > 1 && roots.indexOf(activity) > 0) {
+      action.relatedAction = [{ actionId: getActionId(roots[0].id, context), relationship: 'concurrent-with-start' }];
+    }
+    return action;
+  });
+
+  return { actions, selectionBehavior: choice?.selectionBehavior };
+}
+
+/**
+ * Finds an exclusive or inclusive gateway that directly follows the start event
+ * and chooses between unconditional branches. A branch that leads straight to
+ * another gateway or the end lets the choice select nothing.
+ */
+function findInitialChoice(
+  nodes: Map<string, BpmnNode>
+): { gateway: BpmnNode; selectionBehavior: FhirAction['selectionBehavior'] } | undefined {
+  const starts = [...nodes.values()].filter(n => n.type === 'startEvent');
+  if (starts.length !== 1 || starts[0].outgoing.length !== 1) return undefined;
+
+  const gateway = nodes.get(starts[0].outgoing[0].targetRef);
+  if (!gateway || gateway.outgoing.length < 2 || gateway.outgoing.some(f => f.condition)) return undefined;
+
+  const allowsNone = gateway.outgoing.some(f => !ACTIVITY_TYPES.includes(nodes.get(f.targetRef)?.type || ''));
+  switch (gateway.type) {
+    case 'exclusiveGateway':
+      return { gateway, selectionBehavior: allowsNone ? 'at-most-one' : 'exactly-one' };
+    case 'inclusiveGateway':
+      return { gateway, selectionBehavior: allowsNone ? 'any' : 'one-or-more' };
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Builds the action for one activity
+ */
+function convertActivity(
+  activity: BpmnNode,
+  antecedents: Antecedents,
+  nodes: Map<string, BpmnNode>,
+  context: ImportContext
+): FhirAction {
+  const action: FhirAction = { id: getActionId(activity.id, context), title: activity.name || activity.id };
+
+  const documentation = getDocumentation(activity.element);
+  if (documentation && attr(activity.element, 'fhir:path')) {
+    // Only the description and text of the action come back from what the converter wrote
+    const sections = parseGeneratedDocumentation(documentation);
+    if (sections.get('Description')) action.description = sections.get('Description');
+    if (sections.get('Text')) action.textEquivalent = sections.get('Text');
+  } else if (documentation) {
+    action.description = documentation;
+  }
+
+  const laneName = context.laneNames.get(activity.id);
+  if (laneName) action.participant = [{ role: { text: laneName } }];
+
+  if (antecedents.triggers.length > 0) action.trigger = antecedents.triggers;
+
+  const conditions: NonNullable<FhirAction['condition']> = [];
+  const applicability = combinePathConditions(antecedents.pathConditions);
+  if (applicability) {
+    conditions.push({
+      kind: 'applicability',
+      expression: { language: antecedents.language || DEFAULT_EXPRESSION_LANGUAGE, expression: applicability }
+    });
+  }
+  antecedents.startConditions.forEach(expression => conditions.push({
+    kind: 'start',
+    expression: { language: DEFAULT_EXPRESSION_LANGUAGE, expression }
+  }));
+
+  // Interrupting conditional boundary events stop the action
+  [...nodes.values()]
+    .filter(n => n.type === 'boundaryEvent' && attr(n.element, 'attachedToRef') === activity.id)
+    .forEach(boundaryEvent => {
+      const definition = getEventDefinition(boundaryEvent.element);
+      const expression = definition && localName(definition) === 'conditionalEventDefinition'
+        ? getConditionText(definition)
+        : undefined;
+      if (expression && attr(boundaryEvent.element, 'cancelActivity') !== 'false') {
+        conditions.push({ kind: 'stop', expression: { language: DEFAULT_EXPRESSION_LANGUAGE, expression } });
+      } else {
+        context.warnings.push(
+          `Boundary event ${describe(boundaryEvent.element)} on ${describe(activity.element)} cannot be mapped, ` +
+          'only interrupting conditional boundary events become stop conditions'
+        );
+      }
+    });
+  if (conditions.length > 0) action.condition = conditions;
+
+  if (antecedents.predecessors.length > 0) {
+    action.relatedAction = antecedents.predecessors.map(id => ({
+      actionId: getActionId(id, context),
+      relationship: 'after-end'
+    }));
+  }
+
+  const data = convertDataAssociations(activity.element, context);
+  if (data.input.length > 0) action.input = data.input;
+  if (data.output.length > 0) action.output = data.output;
+  if (data.dynamicValue.length > 0) action.dynamicValue = data.dynamicValue;
+
+  if (activity.type === 'callActivity') {
+    const calledElement = attr(activity.element, 'calledElement');
+    if (calledElement) action.definitionCanonical = `PlanDefinition/${calledElement}`;
+    else context.warnings.push(`Call activity ${describe(activity.element)} has no calledElement`);
+  }
+
+  if (activity.type === 'subProcess') {
+    const { actions, selectionBehavior } = convertContainer(activity.element, context);
+    if (selectionBehavior) action.selectionBehavior = selectionBehavior;
+    if (actions.length > 0) action.action = actions;
+  }
+
+  const loop = childElements(activity.element).find(e =>
+    localName(e) === 'standardLoopCharacteristics' || localName(e) === 'multiInstanceLoopCharacteristics'
+  );
+  // Parallel instances mean the action may be selected multiple times
+  if (loop && localName(loop) === 'multiInstanceLoopCharacteristics' && attr(loop, 'isSequential') !== 'true') {
+    action.cardinalityBehavior = 'multiple';
+  } else if (loop) {
+    context.warnings.push(`Loop marker of ${describe(activity.element)} cannot be mapped and was dropped`);
+  }
+
+  return action;
+}
+
+/**
+ * Walks back from an activity over gateways and events to the activities it
+ * follows, collecting the triggers and conditions on the way
+ */
+function findAntecedents(activity: BpmnNode, nodes: Map<string, BpmnNode>, context: ImportContext): Antecedents {
+  const result: Antecedents = { predecessors: [], triggers: [], startConditions: [], pathConditions: [] };
+  const seenEvents = new Set<string>();
+
+  const addPredecessor = (id: string, conditions: string[]) => {
+    if (!result.predecessors.includes(id)) result.predecessors.push(id);
+    result.pathConditions.push(conditions);
+  };
+
+  const walk = (node: BpmnNode, conditions: string[], path: Set<string>) => {
+    for (const flow of node.incoming) {
+      const pathConditions = flow.condition ? [...conditions, flow.condition.expression] : conditions;
+      if (flow.condition?.language) result.language = flow.condition.language;
+
+      const source = nodes.get(flow.sourceRef);
+      if (!source) continue;
+
+      if (ACTIVITY_TYPES.includes(source.type)) {
+        addPredecessor(source.id, pathConditions);
+      } else if (source.type === 'boundaryEvent') {
+        // Interrupted activities continue along the boundary event's flow
+        addPredecessor(attr(source.element, 'attachedToRef') || source.id, pathConditions);
+      } else if (path.has(source.id)) {
+        context.warnings.push(`Loop through ${describe(source.element)} cannot be mapped and was cut`);
+      } else {
+        if (!seenEvents.has(source.id)) {
+          seenEvents.add(source.id);
+          collectEvent(source, nodes, result, context);
+        }
+        if (source.type === 'startEvent') {
+          result.pathConditions.push(pathConditions);
+        } else {
+          walk(source, pathConditions, new Set(path).add(source.id));
+        }
+      }
+    }
+  };
+
+  walk(activity, [], new Set([activity.id]));
+  return result;
+}
+
+/**
+ * Records what an event in front of an activity means for the activity: typed
+ * start events and catch events are triggers, except intermediate conditional
+ * events outside an event-based choice, which wait for a start condition
+ */
+function collectEvent(
+  event: BpmnNode,
+  nodes: Map<string, BpmnNode>,
+  antecedents: Antecedents,
+  context: ImportContext
+): void {
+  if (event.type !== 'startEvent' && event.type !== 'intermediateCatchEvent') return;
+
+  const definition = getEventDefinition(event.element);
+  if (!definition) return;
+
+  const definitionType = localName(definition);
+  if (definitionType === 'conditionalEventDefinition' && event.type === 'intermediateCatchEvent') {
+    const afterEventGateway = event.incoming.some(f => nodes.get(f.sourceRef)?.type === 'eventBasedGateway');
+    if (!afterEventGateway) {
+      antecedents.startConditions.push(getConditionText(definition) || event.name || event.id);
+      return;
+    }
+  }
+
+  const trigger = getTrigger(event, definition, context);
+  if (!trigger) return;
+
+  antecedents.triggers.push(trigger);
+  if (event.type === 'startEvent') context.hasTriggeredStart = true;
+}
+
+/**
+ * Maps a message, timer or conditional event definition to a trigger
+ */
+function getTrigger(event: BpmnNode, definition: Element, context: ImportContext): FhirTriggerDefinition | undefined {
+  switch (localName(definition)) {
+    case 'messageEventDefinition': {
+      const messageRef = attr(definition, 'messageRef');
+      return { type: 'named-event', name: (messageRef && context.messages.get(messageRef)) || event.name || event.id };
+    }
+    case 'timerEventDefinition': {
+      const timer = {
+        timeDate: textContent(childElements(definition, 'timeDate')[0]),
+        timeCycle: textContent(childElements(definition, 'timeCycle')[0]),
+        timeDuration: textContent(childElements(definition, 'timeDuration')[0])
+      };
+      const timing = timerDefinitionToTiming(timer);
+      if (!timing) {
+        context.warnings.push(`Timer of ${describe(event.element)} cannot be expressed as a FHIR Timing and was dropped`);
+        return undefined;
+      }
+      return { type: 'periodic', timingTiming: timing };
+    }
+    case 'conditionalEventDefinition': {
+      const expression = getConditionText(definition);
+      return {
+        type: 'data-changed',
+        ...(expression ? { condition: { language: DEFAULT_EXPRESSION_LANGUAGE, expression } } : {})
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Reports structural nodes whose meaning is lost in the conversion
+ */
+function checkStructuralNode(node: BpmnNode, context: ImportContext): void {
+  const definition = getEventDefinition(node.element);
+  const definitionType = definition && localName(definition);
+  const supportedDefinitions = ['messageEventDefinition', 'timerEventDefinition', 'conditionalEventDefinition'];
+
+  if (node.type === 'endEvent' && definitionType) {
+    context.warnings.push(`${definitionType} of end event ${describe(node.element)} cannot be mapped and was dropped`);
+  } else if (
+    (node.type === 'startEvent' || node.type === 'intermediateCatchEvent') &&
+    definitionType && !supportedDefinitions.includes(definitionType)
+  ) {
+    context.warnings.push(`${definitionType} of ${describe(node.element)} cannot be mapped and was dropped`);
+  }
+
+  // Choices need a condition on each branch to survive the conversion
+  if ((node.type === 'exclusiveGateway' || node.type === 'inclusiveGateway') && node.outgoing.length > 1) {
+    const defaultFlow = attr(node.element, 'default');
+    const unconditional = node.outgoing.filter(f => !f.condition && f.id !== defaultFlow);
+    if (unconditional.length > 0) {
+      context.warnings.push(
+        `Gateway ${describe(node.element)} has branches without a condition; they are converted as always taken`
+      );
+    }
+  }
+}
+
+/**
+ * Orders activities so each comes after the activities it follows, keeping
+ * document order where the flow leaves a choice
+ */
+function orderActivities(activities: BpmnNode[], antecedents: Map<string, Antecedents>): BpmnNode[] {
+  const ordered: BpmnNode[] = [];
+  const placed = new Set<string>();
+  const ids = new Set(activities.map(a => a.id));
+
+  while (ordered.length < activities.length) {
+    const next = activities.find(a => !placed.has(a.id) &&
+      antecedents.get(a.id)!.predecessors.every(p => placed.has(p) || !ids.has(p) || p === a.id)
+    ) || activities.find(a => !placed.has(a.id))!; // Only reached for cycles
+
+    ordered.push(next);
+    placed.add(next.id);
+  }
+
+  return ordered;
+}
+
+/**
+ * Combines the conditions of all paths to an activity. The activity is
+ * applicable when any path is taken, so paths are or-ed and the conditions
+ * along one path and-ed. A path without conditions makes the activity unconditional.
+ */
+function combinePathConditions(pathConditions: string[][]): string | undefined {
+  if (pathConditions.length === 0 || pathConditions.some(p => p.length === 0)) return undefined;
+
+  const paths = [...new Set(pathConditions.map(conditions =>
+    conditions.length === 1 ? conditions[0] : conditions.map(c => `(${c})`).join(' and ')
+  ))];
+  return paths.length === 1 ? paths[0] : paths.map(p => `(${p})`).join(' or ');
+}
+
+/**
+ * Maps each flow node in a lane to the lane's name
+ */
+function collectLanes(process: Element, context: ImportContext): void {
+  const visit = (laneSet: Element) => {
+    for (const lane of childElements(laneSet, 'lane')) {
+      const name = attr(lane, 'name');
+      if (name) {
+        childElements(lane, 'flowNodeRef').forEach(ref => context.laneNames.set(textContent(ref) || '', name));
+      }
+      childElements(lane, 'childLaneSet').forEach(visit);
+    }
+  };
+  childElements(process, 'laneSet').forEach(visit);
+}
+
+/**
+ * Recovers the action ids of the activities the converter generated, which it
+ * marked with their fhir:path. Ids that would clash keep their activity id.
+ */
+function collectActionIds(process: Element, context: ImportContext): void {
+  const generated = new Map<string, string>();
+  const visit = (container: Element) => {
+    for (const element of childElements(container)) {
+      const id = attr(element, 'id');
+      const key = id && attr(element, 'fhir:path') && ACTIVITY_TYPES.includes(localName(element))
+        ? GENERATED_ACTIVITY_ID.exec(id)?.[1]
+        : undefined;
+      if (key) generated.set(id!, key);
+      if (localName(element) === 'subProcess') visit(element);
+    }
+  };
+  visit(process);
+
+  const keys = [...generated.values()];
+  generated.forEach((key, id) => {
+    if (keys.indexOf(key) === keys.lastIndexOf(key)) context.actionIds.set(id, key);
+  });
+}
+
+/**
+ * Gets the id of the action an activity becomes
+ */
+function getActionId(activityId: string, context: ImportContext): string {
+  return context.actionIds.get(activityId) || activityId;
+}
+
+/**
+ * Splits the documentation the converter wrote into its labelled sections, e.g.
+ * Description. A section runs on over the lines that do not start another one.
+ */
+function parseGeneratedDocumentation(documentation: string): Map<string, string> {
+  const sections = new Map<string, string>();
+  let label: string | undefined;
+  for (const line of documentation.split('\n')) {
+    const match = DOCUMENTATION_LABEL.exec(line);
+    if (match) {
+      label = match[1];
+      sections.set(label, line.substring(match[0].length));
+    } else if (label) {
+      sections.set(label, `${sections.get(label)}\n${line}`);
+    }
+  }
+  return sections;
+}
+
+/**
+ * Records the names of the data references of the process and its sub-processes
+ */
+function collectDataReferences(container: Element, context: ImportContext): void {
+  for (const element of childElements(container)) {
+    const type = localName(element);
+    if (type === 'dataObjectReference' || type === 'dataStoreReference') {
+      const id = attr(element, 'id');
+      if (id) context.dataNames.set(id, attr(element, 'name') || id);
+    } else if (type === 'subProcess') {
+      collectDataReferences(element, context);
+    }
+  }
+}
+
+/**
+ * Maps the data associations of an activity to data requirements. The type is
+ * taken from the name of the data, e.g. Observation for "Observation (bp)".
+ */
+function convertDataAssociations(activity: Element, context: ImportContext): {
+  input: FhirDataRequirement[];
+  output: FhirDataRequirement[];
+  dynamicValue: NonNullable<FhirAction['dynamicValue']>;
+} {
+  const toRequirement = (ref: Element | undefined): FhirDataRequirement[] => {
+    const id = textContent(ref);
+    const name = id && context.dataNames.get(id);
+    return name ? [{ type: name.replace(/\s*\(.*\)$/, '') }] : [];
+  };
+
+  const input = childElements(activity, 'dataInputAssociation')
+    .flatMap(association => toRequirement(childElements(association, 'sourceRef')[0]));
+  const outputAssociations = childElements(activity, 'dataOutputAssociation');
+  const output = outputAssociations.flatMap(association => toRequirement(childElements(association, 'targetRef')[0]));
+  const dynamicValue = outputAssociations
+    .flatMap(association => childElements(association, 'assignment'))
+    .flatMap(assignment => {
+      const from = childElements(assignment, 'from')[0];
+      const path = textContent(childElements(assignment, 'to')[0]);
+      const expression = textContent(from);
+      if (!path || !expression) return [];
+      return [{ path, expression: { language: attr(from, 'language') || DEFAULT_EXPRESSION_LANGUAGE, expression } }];
+    });
+
+  return { input, output, dynamicValue };
+}
+
+function isEventSubProcess(node: BpmnNode): boolean {
+  return node.type === 'subProcess' && attr(node.element, 'triggeredByEvent') === 'true';
+}
+
+function getEventDefinition(element: Element): Element | undefined {
+  return childElements(element).find(e => localName(e).endsWith('EventDefinition'));
+}
+
+function getConditionText(definition: Element): string | undefined {
+  return textContent(childElements(definition, 'condition')[0]);
+}
+
+function getDocumentation(element: Element): string | undefined {
+  const text = childElements(element, 'documentation').map(textContent).filter(Boolean).join('\n');
+  return text || undefined;
+}
+
+/**
+ * Gets the local name of an element, without its namespace prefix
+ */
+function localName(element: Element): string {
+  const name = element.name || '';
+  return name.substring(name.indexOf(':') + 1);
+}
+
+function childElements(element: Element, name?: string): Element[] {
+  return (element.elements || []).filter(e => e.type === 'element' && (!name || localName(e) === name));
+}
+
+function attr(element: Element, name: string): string | undefined {
+  const value = element.attributes?.[name];
+  return value === undefined ? undefined : String(value);
+}
+
+function textContent(element: Element | undefined): string | undefined {
+  if (!element) return undefined;
+  const text = (element.elements || [])
+    .map(e => (e.type === 'text' ? e.text : e.type === 'cdata' ? e.cdata : ''))
+    .join('')
+    .trim();
+  return text || undefined;
+}
+
+/**
+ * Describes an element for warnings, e.g. "Review labs" (Task_3)
+ */
+function describe(element: Element): string {
+  const name = attr(element, 'name');
+  const id = attr(element, 'id');
+  return name ? `"${name}" (${id})` : `${id || localName(element)}`;
+}
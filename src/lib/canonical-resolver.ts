@@ -0,0 +1,90 @@
+/**
+ * canonical-resolver.ts
+ * Resolves canonical references to the definitional resources they point at
+ */
+
+import { FhirBundle, FhirResource } from './fhir-types';
+
+/**
+ * Looks up canonical references (url or url|version) in, by priority: the
+ * contained resources of the referencing resource, a loaded Bundle and a local
+ * library of resources. Local "#id" references only match contained resources.
+ */
+export class CanonicalResolver {
+  private readonly bundleResources: FhirResource[];
+  private readonly libraryResources: FhirResource[];
+
+  /**
+   * @param library Resources to fall back on; Bundles among them are unpacked
+   * @param bundle The Bundle the referencing resources were loaded from
+   */
+  constructor(library: FhirResource[] = [], bundle?: FhirBundle) {
+    this.libraryResources = library.flatMap(unpackBundle);
+    this.bundleResources = bundle ? unpackBundle(bundle) : [];
+  }
+
+  /**
+   * Returns a resolver that also searches a Bundle, keeping the library
+   */
+  withBundle(bundle: FhirBundle): CanonicalResolver {
+    return new CanonicalResolver(this.libraryResources, bundle);
+  }
+
+  resolve(canonical: string, container?: FhirResource & { contained?: FhirResource[] }): FhirResource | undefined {
+    const contained = container?.contained || [];
+    if (canonical.startsWith('#')) {
+      return contained.find(r => r.id === canonical.substring(1));
+    }
+
+    for (const resources of [contained, this.bundleResources, this.libraryResources]) {
+      const match = findByCanonical(resources, canonical);
+      if (match) return match;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Lists the resources of a Bundle, including those of nested Bundles. Any other
+ * resource is returned on its own.
+ */
+function unpackBundle(resource: FhirResource): FhirResource[] {
+  if (resource.resourceType !== 'Bundle') return [resource];
+  return ((resource as FhirBundle).entry || [])
+    .map(entry => entry.resource)
+    .filter((r): r is FhirResource => !!r)
+    .flatMap(unpackBundle);
+}
+
+/**
+ * Finds a resource by url and version. Without a version the latest one wins.
+ * References in the relative Type/id form match by resource type and id.
+ */
+function findByCanonical(resources: FhirResource[], canonical: string): FhirResource | undefined {
+  const [url, version] = canonical.split('|');
+  const matches = resources.filter(r => r.url === url && (!version || r.version === version));
+  if (matches.length > 0) {
+    return matches.reduce((latest, r) => compareVersions(r.version, latest.version) > 0 ? r : latest);
+  }
+
+  const relative = /^([A-Z][A-Za-z]+)\/([A-Za-z0-9\-.]{1,64})$/.exec(url);
+  return relative ? resources.find(r => r.resourceType === relative[1] && r.id === relative[2]) : undefined;
+}
+
+/**
+ * Compares business versions such as 1.2.0 segment by segment, numerically
+ * where both segments are numbers
+ */
+function compareVersions(a = '', b = ''): number {
+  const aParts = a.split('.');
+  const bParts = b.split('.');
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const aPart = aParts[i] ?? '';
+    const bPart = bParts[i] ?? '';
+    const difference = /^\d+$/.test(aPart) && /^\d+$/.test(bPart)
+      ? Number(aPart) - Number(bPart)
+      : aPart.localeCompare(bPart);
+    if (difference !== 0) return difference;
+  }
+  return 0;
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { ExpressionTranslationError, translateExpression } from './expression-translator';
+
+describe('translateExpression', () => {
+  describe('the patient', () => {
+    it.each([
+      ["Patient.gender = 'female'", 'feel', 'patient.gender = "female"'],
+      ["%patient.gender = 'female'", 'feel', 'patient.gender = "female"'],
+      ["Patient.gender = 'female'", 'juel', "${patient.gender == 'female'}"],
+      ["%patient.gender = 'female'", 'juel', "${patient.gender == 'female'}"]
+    ] as const)('reads %s from the patient variable in %s', (expression, target, expected) => {
+      expect(translateExpression(expression, 'text/fhirpath', target)).toBe(expected);
+    });
+
+    it('computes AgeInYears() in FEEL from the birth date of the patient variable', () => {
+      expect(translateExpression('AgeInYears() >= 18', 'text/fhirpath', 'feel'))
+        .toBe('years and months duration(date(patient.birthDate), today()).years >= 18');
+    });
+
+    it('rejects AgeInYears() in JUEL, which has no date functions', () => {
+      expect(() => translateExpression('AgeInYears() >= 18', 'text/fhirpath', 'juel'))
+        .toThrow(ExpressionTranslationError);
+    });
+
+    it('reads Patient, %patient and AgeInYears() in one condition from the same variable', () => {
+      const expression = "Patient.gender = 'female' and %patient.active and AgeInYears() > 18";
+      expect(translateExpression(expression, 'text/fhirpath', 'feel'))
+        .toBe('patient.gender = "female" and patient.active and ' +
+          'years and months duration(date(patient.birthDate), today()).years > 18');
+    });
+  });
+});
@@ -0,0 +1,718 @@
+/**
+ * expression-translator.ts
+ * Translates the common subset of FHIRPath and CQL conditions to FEEL and JUEL,
+ * the expression languages BPMN engines evaluate
+ */
+
+/**
+ * Expression language of the generated conditions: FEEL for Camunda 8 and DMN
+ * engines, JUEL for Camunda 7, Flowable and Activiti
+ */
+export type ConditionLanguage = 'feel' | 'juel';
+
+/**
+ * Thrown when an expression uses a construct the translator does not cover
+ */
+export class ExpressionTranslationError extends Error {}
+
+// Languages of FHIR Expressions the translator reads
+const FHIRPATH_LANGUAGES = ['text/fhirpath'];
+const CQL_LANGUAGES = ['text/cql', 'text/cql-expression'];
+const CQL_IDENTIFIER_LANGUAGE = 'text/cql-identifier';
+
+// FEEL durations of calendar units, as written in FHIRPath and CQL or as UCUM codes
+export const DURATION_UNITS: Record<string, { designator: string; factor?: number; time?: boolean }> = {
+  year: { designator: 'Y' }, years: { designator: 'Y' }, a: { designator: 'Y' },
+  month: { designator: 'M' }, months: { designator: 'M' }, mo: { designator: 'M' },
+  week: { designator: 'D', factor: 7 }, weeks: { designator: 'D', factor: 7 }, wk: { designator: 'D', factor: 7 },
+  day: { designator: 'D' }, days: { designator: 'D' }, d: { designator: 'D' },
+  hour: { designator: 'H', time: true }, hours: { designator: 'H', time: true }, h: { designator: 'H', time: true },
+  minute: { designator: 'M', time: true }, minutes: { designator: 'M', time: true }, min: { designator: 'M', time: true },
+  second: { designator: 'S', time: true }, seconds: { designator: 'S', time: true }, s: { designator: 'S', time: true }
+};
+
+/**
+ * Syntax tree of a parsed FHIRPath or CQL expression
+ */
+export type ExpressionNode =
+  | { kind: 'literal'; type: 'string' | 'number' | 'boolean' | 'null'; value: string }
+  | { kind: 'temporal'; type: 'date' | 'dateTime' | 'time'; value: string }
+  | { kind: 'quantity'; value: string; unit: string }
+  | { kind: 'identifier'; name: string }
+  | { kind: 'variable'; name: string }
+  | { kind: 'this' }
+  | { kind: 'member'; target: Node; name: string }
+  | { kind: 'index'; target: Node; index: Node }
+  | { kind: 'call'; target?: Node; name: string; args: Node[] }
+  | { kind: 'unary'; operator: '-' | 'not' | 'exists'; operand: Node }
+  | { kind: 'binary'; operator: string; left: Node; right: Node }
+  | { kind: 'isNull'; operand: Node; negated: boolean };
+
+type Node = ExpressionNode;
+
+// Process variable that holds the Patient resource the plan is applied to
+export const SUBJECT_VARIABLE = 'patient';
+
+/**
+ * Translates a FHIRPath or CQL expression to FEEL or JUEL. JUEL expressions are
+ * wrapped in ${...}; FEEL expressions are bare, as the BPMN profile adds any marker.
+ * Throws an ExpressionTranslationError when the expression cannot be translated.
+ */
+export function translateExpression(expression: string, language: string | undefined, target: ConditionLanguage): string {
+  const source = expression.trim();
+  let node: Node;
+  if (language === CQL_IDENTIFIER_LANGUAGE) {
+    // The result of a CQL definition is expected in a process variable of that name
+    node = { kind: 'identifier', name: source.replace(/^"(.*)"$/, '$1') };
+  } else if (language === undefined || FHIRPATH_LANGUAGES.includes(language) || CQL_LANGUAGES.includes(language)) {
+    node = new Parser(source).parse();
+  } else {
+    throw new ExpressionTranslationError(`${language} expressions are not supported`);
+  }
+
+  return target === 'feel' ? emitFeel(node).text : `\${${emitJuel(node).text}}`;
+}
+
+// --- Parsing ---
+
+/**
+ * Parses the common subset of FHIRPath and CQL that the translator covers.
+ * Throws an ExpressionTranslationError when the expression uses anything else.
+ */
+export function parseExpression(expression: string): ExpressionNode {
+  return new Parser(expression.trim()).parse();
+}
+
+interface Token {
+  type: 'identifier' | 'quoted' | 'string' | 'number' | 'temporal' | 'variable' | 'operator' | 'end';
+  value: string;
+}
+
+const TOKEN_PATTERNS: Array<[Token['type'] | 'skip', RegExp]> = [
+  ['skip', /^(\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/],
+  ['temporal', /^@(T\d{2}(:\d{2}(:\d{2}(\.\d+)?)?)?|\d{4}(-\d{2}(-\d{2})?)?(T(\d{2}(:\d{2}(:\d{2}(\.\d+)?)?)?)?(Z|[+-]\d{2}:\d{2})?)?)/],
+  ['number', /^\d+(\.\d+)?/],
+  ['variable', /^%([A-Za-z_][A-Za-z0-9_]*|`[^`]*`|'[^']*')/],
+  ['identifier', /^(\$this|[A-Za-z_][A-Za-z0-9_]*|`[^`]*`)/],
+  ['quoted', /^"(?:[^"\\]|\\.)*"/],
+  ['string', /^'(?:[^'\\]|\\.)*'/],
+  ['operator', /^(<=|>=|!=|!~|<>|[=<>~+\-*/&|()[\],.{}])/]
+];
+
+// Binding strength of the binary operators, from loosest to tightest
+const BINARY_LEVELS: string[][] = [
+  ['implies'],
+  ['or', 'xor'],
+  ['and'],
+  ['in', 'contains'],
+  ['=', '~', '!=', '!~', '<>'],
+  ['<', '>', '<=', '>='],
+  ['|'],
+  ['+', '-', '&'],
+  ['*', '/', 'div', 'mod']
+];
+
+// Operators written as words are identifier tokens
+const WORD_OPERATORS = ['implies', 'or', 'xor', 'and', 'in', 'contains', 'div', 'mod'];
+
+class Parser {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(source: string) {
+    this.tokens = tokenize(source);
+  }
+
+  parse(): Node {
+    const node = this.parseBinary(0);
+    if (this.peek().type !== 'end') {
+      throw new ExpressionTranslationError(`Unexpected "${this.peek().value}"`);
+    }
+    return node;
+  }
+
+  private parseBinary(level: number): Node {
+    if (level === BINARY_LEVELS.length) return this.parseTypeOperator();
+
+    let left = this.parseBinary(level + 1);
+    while (BINARY_LEVELS[level].includes(this.peek().value) && this.isOperatorToken(this.peek())) {
+      const operator = this.next().value;
+      left = { kind: 'binary', operator, left, right: this.parseBinary(level + 1) };
+    }
+    return left;
+  }
+
+  private isOperatorToken(token: Token): boolean {
+    return token.type === 'operator' || (token.type === 'identifier' && WORD_OPERATORS.includes(token.value));
+  }
+
+  /**
+   * "is null" and "is not null" of CQL; type tests are not supported
+   */
+  private parseTypeOperator(): Node {
+    const operand = this.parseUnary();
+    const token = this.peek();
+    if (token.type !== 'identifier' || (token.value !== 'is' && token.value !== 'as')) return operand;
+
+    this.next();
+    const negated = this.peek().value === 'not';
+    if (negated) this.next();
+    if (token.value === 'is' && this.peek().value === 'null') {
+      this.next();
+      return { kind: 'isNull', operand, negated };
+    }
+    throw new ExpressionTranslationError(`Type operator "${token.value}" is not supported`);
+  }
+
+  private parseUnary(): Node {
+    const token = this.peek();
+    if (token.type === 'operator' && (token.value === '-' || token.value === '+')) {
+      this.next();
+      const operand = this.parseUnary();
+      return token.value === '-' ? { kind: 'unary', operator: '-', operand } : operand;
+    }
+    // CQL prefix operators; in FHIRPath these are functions
+    if (token.type === 'identifier' && (token.value === 'not' || token.value === 'exists') && this.peek(1).value !== '.') {
+      this.next();
+      return { kind: 'unary', operator: token.value, operand: this.parseUnary() };
+    }
+    return this.parsePostfix(this.parseTerm());
+  }
+
+  private parsePostfix(node: Node): Node {
+    for (;;) {
+      if (this.accept('.')) {
+        const name = this.expectIdentifier();
+        node = this.accept('(')
+          ? { kind: 'call', target: node, name, args: this.parseArguments() }
+          : { kind: 'member', target: node, name };
+      } else if (this.accept('[')) {
+        const index = this.parseBinary(0);
+        this.expect(']');
+        node = { kind: 'index', target: node, index };
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseTerm(): Node {
+    const token = this.next();
+    switch (token.type) {
+      case 'number': {
+        const unit = this.peek();
+        const isUnit = (unit.type === 'identifier' && unit.value in DURATION_UNITS) || unit.type === 'string';
+        if (!isUnit) return { kind: 'literal', type: 'number', value: token.value };
+        this.next();
+        return { kind: 'quantity', value: token.value, unit: unit.type === 'string' ? unquote(unit.value) : unit.value };
+      }
+      case 'string':
+        return { kind: 'literal', type: 'string', value: unquote(token.value) };
+      case 'temporal': {
+        const value = token.value.substring(1);
+        const type = value.startsWith('T') ? 'time' : value.includes('T') ? 'dateTime' : 'date';
+        return { kind: 'temporal', type, value: type === 'time' ? value.substring(1) : value };
+      }
+      case 'variable':
+        return { kind: 'variable', name: unquote(token.value.substring(1)) };
+      case 'quoted':
+        return { kind: 'identifier', name: unquote(token.value) };
+      case 'identifier':
+        if (token.value === '$this') return { kind: 'this' };
+        if (token.value === 'true' || token.value === 'false') return { kind: 'literal', type: 'boolean', value: token.value };
+        if (token.value === 'null') return { kind: 'literal', type: 'null', value: 'null' };
+        if (this.accept('(')) return { kind: 'call', name: token.value, args: this.parseArguments() };
+        return { kind: 'identifier', name: unquote(token.value) };
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseBinary(0);
+          this.expect(')');
+          return node;
+        }
+        if (token.value === '{') {
+          this.expect('}');
+          return { kind: 'literal', type: 'null', value: 'null' };
+        }
+        if (token.value === '[') throw new ExpressionTranslationError('CQL retrieves are not supported');
+        break;
+    }
+    throw new ExpressionTranslationError(token.type === 'end' ? 'Unexpected end of expression' : `Unexpected "${token.value}"`);
+  }
+
+  private parseArguments(): Node[] {
+    const args: Node[] = [];
+    if (this.accept(')')) return args;
+    do {
+      args.push(this.parseBinary(0));
+    } while (this.accept(','));
+    this.expect(')');
+    return args;
+  }
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.position + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== 'end') this.position++;
+    return token;
+  }
+
+  private accept(operator: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'operator' || token.value !== operator) return false;
+    this.position++;
+    return true;
+  }
+
+  private expect(operator: string): void {
+    if (!this.accept(operator)) {
+      throw new ExpressionTranslationError(`Expected "${operator}" but found "${this.peek().value || 'end of expression'}"`);
+    }
+  }
+
+  private expectIdentifier(): string {
+    const token = this.next();
+    if (token.type !== 'identifier') throw new ExpressionTranslationError(`Expected a name after "."`);
+    return unquote(token.value);
+  }
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let rest = source;
+  while (rest.length > 0) {
+    const match = TOKEN_PATTERNS
+      .map(([type, pattern]) => ({ type, match: pattern.exec(rest) }))
+      .find(candidate => candidate.match);
+    // Other characters are left to the parser, which reports them where they occur
+    const value = match ? match.match![0] : rest[0];
+    if (match?.type !== 'skip') tokens.push({ type: match ? match.type as Token['type'] : 'operator', value });
+    rest = rest.substring(value.length);
+  }
+  tokens.push({ type: 'end', value: '' });
+  return tokens;
+}
+
+function unquote(text: string): string {
+  if (!/^(['"`])[\s\S]*\1$/.test(text)) return text;
+  return text.slice(1, -1).replace(/\\(u[0-9a-fA-F]{4}|.)/g, (_, escaped: string) => {
+    if (escaped.length === 5) return String.fromCharCode(parseInt(escaped.substring(1), 16));
+    return { n: '\n', r: '\r', t: '\t', f: '\f' }[escaped] ?? escaped;
+  });
+}
+
+// --- Emitting ---
+
+/**
+ * Translated text with what the emitters need to know about it: its binding
+ * strength, lower numbers binding tighter, and the kind of value it yields
+ */
+interface Emitted {
+  text: string;
+  level: number;
+  type?: 'list' | 'date' | 'dateTime' | 'time' | 'duration' | 'boolean';
+}
+
+const ATOM = 0;
+const UNARY = 1;
+const MULTIPLICATIVE = 2;
+const ADDITIVE = 3;
+const COMPARISON = 4;
+const AND = 5;
+const OR = 6;
+const CONDITIONAL = 7;
+
+/**
+ * Parenthesizes an operand that binds looser than its operator, or as loose
+ * on the right-hand side of a left-associative one
+ */
+function operand(emitted: Emitted, level: number, right = false): string {
+  return emitted.level > level || (right && emitted.level === level && level !== ATOM)
+    ? `(${emitted.text})`
+    : emitted.text;
+}
+
+/**
+ * Turns a name into a valid variable name, e.g. "Is Adult" into IsAdult
+ */
+function toVariableName(name: string): string {
+  if (/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) return name;
+  const words = name.split(/[^A-Za-z0-9_]+/).filter(Boolean);
+  const joined = words.map((word, i) => (i === 0 ? word : word[0].toUpperCase() + word.substring(1))).join('');
+  if (!joined) throw new ExpressionTranslationError(`"${name}" cannot be used as a variable name`);
+  return /^[0-9]/.test(joined) ? `_${joined}` : joined;
+}
+
+/**
+ * Names the variable an identifier or %variable reads. The patient is one
+ * variable, whether written as Patient at the start of a path or as %patient.
+ */
+function toSubjectOrVariableName(node: Extract<Node, { kind: 'identifier' | 'variable' }>): string {
+  const isSubject = node.kind === 'identifier' ? node.name === 'Patient' : node.name === 'patient';
+  return isSubject ? SUBJECT_VARIABLE : toVariableName(node.name);
+}
+
+function emitFeel(node: Node): Emitted {
+  switch (node.kind) {
+    case 'literal':
+      if (node.type === 'string') return { text: `"${node.value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`, level: ATOM };
+      return { text: node.value, level: ATOM, type: node.type === 'boolean' ? 'boolean' : undefined };
+
+    case 'temporal':
+      return emitFeelTemporal(node.type, node.value);
+
+    case 'quantity': {
+      const unit = DURATION_UNITS[node.unit];
+      if (!unit) throw new ExpressionTranslationError(`Quantities in ${node.unit} are not supported, only calendar durations`);
+      const amount = Number(node.value) * (unit.factor || 1);
+      return { text: `duration("P${unit.time ? 'T' : ''}${amount}${unit.designator}")`, level: ATOM, type: 'duration' };
+    }
+
+    case 'identifier':
+    case 'variable':
+      return { text: toSubjectOrVariableName(node), level: ATOM };
+
+    case 'this':
+      return { text: 'item', level: ATOM };
+
+    case 'member': {
+      const target = emitFeel(node.target);
+      return { text: `${operand(target, ATOM)}.${toVariableName(node.name)}`, level: ATOM, type: target.type === 'list' ? 'list' : undefined };
+    }
+
+    case 'index': {
+      // FHIRPath counts from 0, FEEL from 1
+      const target = emitFeel(node.target);
+      const index = node.index.kind === 'literal' && node.index.type === 'number'
+        ? String(Number(node.index.value) + 1)
+        : `${operand(emitFeel(node.index), ADDITIVE)} + 1`;
+      return { text: `${operand(target, ATOM)}[${index}]`, level: ATOM };
+    }
+
+    case 'call':
+      return emitFeelCall(node);
+
+    case 'unary': {
+      const value = emitFeel(node.operand);
+      if (node.operator === '-') return { text: `-${operand(value, UNARY)}`, level: UNARY };
+      if (node.operator === 'not') return { text: `not(${value.text})`, level: ATOM, type: 'boolean' };
+      return feelExists(value);
+    }
+
+    case 'isNull': {
+      const value = emitFeel(node.operand);
+      return { text: `${operand(value, ADDITIVE)} ${node.negated ? '!=' : '='} null`, level: COMPARISON, type: 'boolean' };
+    }
+
+    case 'binary':
+      return emitFeelBinary(node.operator, node.left, node.right);
+  }
+}
+
+function emitFeelTemporal(type: 'date' | 'dateTime' | 'time', value: string): Emitted {
+  if (type === 'date') {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) throw new ExpressionTranslationError(`Partial date @${value} is not supported`);
+    return { text: `date("${value}")`, level: ATOM, type: 'date' };
+  }
+  // FEEL times need seconds
+  const withSeconds = (time: string) => time.replace(/^(\d{2}:\d{2})(?!:)/, '$1:00');
+  if (type === 'time') return { text: `time("${withSeconds(value)}")`, level: ATOM, type: 'time' };
+
+  const [date, time] = value.split('T');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !/^\d{2}:\d{2}/.test(time || '')) {
+    throw new ExpressionTranslationError(`Partial date and time @${value} is not supported`);
+  }
+  return { text: `date and time("${date}T${withSeconds(time)}")`, level: ATOM, type: 'dateTime' };
+}
+
+function feelExists(value: Emitted): Emitted {
+  return value.type === 'list'
+    ? { text: `count(${value.text}) > 0`, level: COMPARISON, type: 'boolean' }
+    : { text: `${operand(value, ADDITIVE)} != null`, level: COMPARISON, type: 'boolean' };
+}
+
+function emitFeelCall(node: Extract<Node, { kind: 'call' }>): Emitted {
+  const target = node.target && emitFeel(node.target);
+  const args = node.args.map(emitFeel);
+  const name = node.name;
+  const subject = target ? operand(target, ATOM) : '';
+  const expectArguments = (count: number) => {
+    if (args.length !== count) throw new ExpressionTranslationError(`${name}() takes ${count} argument${count === 1 ? '' : 's'}`);
+  };
+
+  if (!target) {
+    switch (name.toLowerCase()) {
+      case 'today':
+        expectArguments(0);
+        return { text: 'today()', level: ATOM, type: 'date' };
+      case 'now':
+        expectArguments(0);
+        return { text: 'now()', level: ATOM, type: 'dateTime' };
+      case 'ageinyears':
+        // CQL measures the age of the patient in context
+        expectArguments(0);
+        return { text: `years and months duration(date(${SUBJECT_VARIABLE}.birthDate), today()).years`, level: ATOM };
+      case 'iif':
+        if (args.length !== 3) throw new ExpressionTranslationError('iif() needs a criterion and both results');
+        return { text: `if ${args[0].text} then ${args[1].text} else ${args[2].text}`, level: CONDITIONAL };
+      case 'exists':
+        expectArguments(1);
+        return feelExists(args[0]);
+    }
+    throw new ExpressionTranslationError(`Function ${name}() is not supported`);
+  }
+
+  // Criteria see the properties of each element, as in a FEEL filter
+  const filter = () => {
+    expectArguments(1);
+    return `${subject}[${args[0].text}]`;
+  };
+  switch (name) {
+    case 'exists':
+      return args.length === 0 ? feelExists(target) : { text: `count(${filter()}) > 0`, level: COMPARISON, type: 'boolean' };
+    case 'empty':
+      expectArguments(0);
+      return target.type === 'list'
+        ? { text: `count(${target.text}) = 0`, level: COMPARISON, type: 'boolean' }
+        : { text: `${operand(target, ADDITIVE)} = null`, level: COMPARISON, type: 'boolean' };
+    case 'hasValue':
+      expectArguments(0);
+      return { text: `${operand(target, ADDITIVE)} != null`, level: COMPARISON, type: 'boolean' };
+    case 'where':
+      return { text: filter(), level: ATOM, type: 'list' };
+    case 'all':
+      return { text: `count(${filter()}) = count(${target.text})`, level: COMPARISON, type: 'boolean' };
+    case 'count':
+      expectArguments(0);
+      return { text: `count(${target.text})`, level: ATOM };
+    case 'first':
+      expectArguments(0);
+      return { text: `${subject}[1]`, level: ATOM };
+    case 'last':
+      expectArguments(0);
+      return { text: `${subject}[-1]`, level: ATOM };
+    case 'not':
+      expectArguments(0);
+      return { text: `not(${target.text})`, level: ATOM, type: 'boolean' };
+    case 'contains':
+    case 'startsWith':
+    case 'endsWith':
+    case 'matches': {
+      expectArguments(1);
+      const feelName = { contains: 'contains', startsWith: 'starts with', endsWith: 'ends with', matches: 'matches' }[name];
+      return { text: `${feelName}(${target.text}, ${args[0].text})`, level: ATOM, type: 'boolean' };
+    }
+    case 'lower':
+    case 'upper':
+    case 'length': {
+      expectArguments(0);
+      const feelName = { lower: 'lower case', upper: 'upper case', length: 'string length' }[name];
+      return { text: `${feelName}(${target.text})`, level: ATOM };
+    }
+  }
+  throw new ExpressionTranslationError(`Function ${name}() is not supported`);
+}
+
+function emitFeelBinary(operator: string, leftNode: Node, rightNode: Node): Emitted {
+  let left = emitFeel(leftNode);
+  let right = emitFeel(rightNode);
+
+  switch (operator) {
+    case 'and':
+    case 'or': {
+      const level = operator === 'and' ? AND : OR;
+      return { text: `${operand(left, level)} ${operator} ${operand(right, level, true)}`, level, type: 'boolean' };
+    }
+    case 'implies':
+      return { text: `not(${left.text}) or ${operand(right, OR, true)}`, level: OR, type: 'boolean' };
+
+    case '=':
+    case '!=':
+    case '<>':
+    case '<':
+    case '>':
+    case '<=':
+    case '>=': {
+      // FHIR dates are strings in process variables, so they are parsed to compare them
+      left = asTemporal(left, right.type);
+      right = asTemporal(right, left.type);
+      const feelOperator = operator === '<>' ? '!=' : operator;
+      return { text: `${operand(left, ADDITIVE)} ${feelOperator} ${operand(right, ADDITIVE)}`, level: COMPARISON, type: 'boolean' };
+    }
+
+    case 'in':
+      return { text: `list contains(${right.text}, ${left.text})`, level: ATOM, type: 'boolean' };
+    case 'contains':
+      return { text: `list contains(${left.text}, ${right.text})`, level: ATOM, type: 'boolean' };
+    case '|':
+      return { text: `union(${left.text}, ${right.text})`, level: ATOM, type: 'list' };
+
+    case '+':
+    case '-':
+    case '&': {
+      if (right.type === 'duration') left = asTemporal(left, 'date');
+      const type = right.type === 'duration' && (left.type === 'date' || left.type === 'dateTime') ? left.type : undefined;
+      const feelOperator = operator === '&' ? '+' : operator;
+      return { text: `${operand(left, ADDITIVE)} ${feelOperator} ${operand(right, ADDITIVE, true)}`, level: ADDITIVE, type };
+    }
+
+    case '*':
+    case '/':
+      return { text: `${operand(left, MULTIPLICATIVE)} ${operator} ${operand(right, MULTIPLICATIVE, true)}`, level: MULTIPLICATIVE };
+    case 'div':
+      return { text: `floor(${left.text} / ${operand(right, MULTIPLICATIVE, true)})`, level: ATOM };
+    case 'mod':
+      return { text: `modulo(${left.text}, ${right.text})`, level: ATOM };
+  }
+  throw new ExpressionTranslationError(`Operator "${operator}" is not supported`);
+}
+
+/**
+ * Parses a value compared with a date or date and time, unless it already is one
+ */
+function asTemporal(value: Emitted, otherType: Emitted['type']): Emitted {
+  if (value.type || value.level !== ATOM) return value;
+  if (otherType === 'date') return { text: `date(${value.text})`, level: ATOM, type: 'date' };
+  if (otherType === 'dateTime') return { text: `date and time(${value.text})`, level: ATOM, type: 'dateTime' };
+  return value;
+}
+
+function emitJuel(node: Node): Emitted {
+  switch (node.kind) {
+    case 'literal':
+      if (node.type === 'string') return { text: `'${node.value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`, level: ATOM };
+      return { text: node.value, level: ATOM };
+
+    case 'temporal':
+    case 'quantity':
+      throw new ExpressionTranslationError('JUEL has no dates or durations');
+
+    case 'identifier':
+    case 'variable':
+      return { text: toSubjectOrVariableName(node), level: ATOM };
+
+    case 'this':
+      throw new ExpressionTranslationError('JUEL cannot iterate over collections');
+
+    case 'member':
+      return { text: `${operand(emitJuel(node.target), ATOM)}.${toVariableName(node.name)}`, level: ATOM };
+
+    case 'index':
+      return { text: `${operand(emitJuel(node.target), ATOM)}[${emitJuel(node.index).text}]`, level: ATOM };
+
+    case 'call':
+      return emitJuelCall(node);
+
+    case 'unary': {
+      const value = emitJuel(node.operand);
+      if (node.operator === '-') return { text: `-${operand(value, UNARY)}`, level: UNARY };
+      if (node.operator === 'not') return { text: `not ${operand(value, UNARY)}`, level: UNARY };
+      return { text: `not empty ${operand(value, UNARY)}`, level: UNARY };
+    }
+
+    case 'isNull':
+      return { text: `${operand(emitJuel(node.operand), ADDITIVE)} ${node.negated ? '!=' : '=='} null`, level: COMPARISON };
+
+    case 'binary':
+      return emitJuelBinary(node.operator, node.left, node.right);
+  }
+}
+
+function emitJuelCall(node: Extract<Node, { kind: 'call' }>): Emitted {
+  const args = node.args.map(emitJuel);
+  const name = node.name;
+  const expectArguments = (count: number) => {
+    if (args.length !== count) throw new ExpressionTranslationError(`${name}() takes ${count} argument${count === 1 ? '' : 's'}`);
+  };
+
+  if (!node.target) {
+    if (name === 'iif' && args.length === 3) {
+      return { text: `${operand(args[0], OR)} ? ${operand(args[1], OR)} : ${operand(args[2], CONDITIONAL)}`, level: CONDITIONAL };
+    }
+    if (name === 'exists' && args.length === 1) {
+      return { text: `not empty ${operand(args[0], UNARY)}`, level: UNARY };
+    }
+    throw new ExpressionTranslationError(`Function ${name}() is not supported in JUEL`);
+  }
+
+  const target = emitJuel(node.target);
+  const subject = operand(target, ATOM);
+  switch (name) {
+    case 'exists':
+      if (args.length > 0) break;
+      return { text: `not empty ${subject}`, level: UNARY };
+    case 'empty':
+      expectArguments(0);
+      return { text: `empty ${subject}`, level: UNARY };
+    case 'hasValue':
+      expectArguments(0);
+      return { text: `${operand(target, ADDITIVE)} != null`, level: COMPARISON };
+    case 'count':
+      expectArguments(0);
+      return { text: `${subject}.size()`, level: ATOM };
+    case 'first':
+      expectArguments(0);
+      return { text: `${subject}[0]`, level: ATOM };
+    case 'not':
+      expectArguments(0);
+      return { text: `not ${subject}`, level: UNARY };
+    case 'contains':
+    case 'startsWith':
+    case 'endsWith':
+    case 'matches':
+      expectArguments(1);
+      return { text: `${subject}.${name}(${args[0].text})`, level: ATOM };
+    case 'lower':
+    case 'upper':
+    case 'length': {
+      expectArguments(0);
+      const method = { lower: 'toLowerCase', upper: 'toUpperCase', length: 'length' }[name];
+      return { text: `${subject}.${method}()`, level: ATOM };
+    }
+  }
+  throw new ExpressionTranslationError(`Function ${name}() is not supported in JUEL`);
+}
+
+function emitJuelBinary(operator: string, leftNode: Node, rightNode: Node): Emitted {
+  const left = emitJuel(leftNode);
+  const right = emitJuel(rightNode);
+
+  switch (operator) {
+    case 'and':
+    case 'or': {
+      const level = operator === 'and' ? AND : OR;
+      return { text: `${operand(left, level)} ${operator} ${operand(right, level, true)}`, level };
+    }
+    case 'implies':
+      return { text: `not ${operand(left, UNARY)} or ${operand(right, OR, true)}`, level: OR };
+
+    case '=':
+    case '!=':
+    case '<>':
+    case '<':
+    case '>':
+    case '<=':
+    case '>=': {
+      const juelOperator = operator === '=' ? '==' : operator === '<>' ? '!=' : operator;
+      return { text: `${operand(left, ADDITIVE)} ${juelOperator} ${operand(right, ADDITIVE)}`, level: COMPARISON };
+    }
+
+    case 'in':
+      return { text: `${operand(right, ATOM)}.contains(${left.text})`, level: ATOM };
+    case 'contains':
+      return { text: `${operand(left, ATOM)}.contains(${right.text})`, level: ATOM };
+
+    case '+':
+    case '-':
+      return { text: `${operand(left, ADDITIVE)} ${operator} ${operand(right, ADDITIVE, true)}`, level: ADDITIVE };
+    case '*':
+    case '/':
+    case 'mod': {
+      const juelOperator = operator === 'mod' ? '%' : operator;
+      return { text: `${operand(left, MULTIPLICATIVE)} ${juelOperator} ${operand(right, MULTIPLICATIVE, true)}`, level: MULTIPLICATIVE };
+    }
+  }
+  throw new ExpressionTranslationError(`Operator "${operator}" is not supported in JUEL`);
+}
@@ -0,0 +1,63 @@
+/**
+ * fhir-bundle.ts
+ * Finds the PlanDefinitions in a FHIR Bundle and converts them together
+ */
+
+import { FhirBundle, FhirPlanDefinition } from './fhir-types';
+import { CanonicalResolver } from './canonical-resolver';
+import {
+  ConversionOptions,
+  ConversionResult,
+  PlanDefinitionSource,
+  convertPlanDefinitionsToBpmn
+} from './plandefinition-to-bpmn';
+
+/**
+ * A PlanDefinition found in a resource, with its FHIR path
+ */
+export interface PlanDefinitionEntry extends PlanDefinitionSource {
+  path: string;
+  fullUrl?: string;
+}
+
+export function isBundle(resource: any): resource is FhirBundle {
+  return resource?.resourceType === 'Bundle';
+}
+
+/**
+ * Lists the PlanDefinitions of a Bundle by their path, e.g. Bundle.entry[2].resource.
+ * A PlanDefinition on its own is returned as the only entry.
+ */
+export function findPlanDefinitions(resource: any): PlanDefinitionEntry[] {
+  if (resource?.resourceType === 'PlanDefinition') {
+    return [{ planDefinition: resource, path: 'PlanDefinition' }];
+  }
+  if (!isBundle(resource)) return [];
+
+  const entries: PlanDefinitionEntry[] = [];
+  (resource.entry || []).forEach((entry, idx) => {
+    if (entry?.resource?.resourceType !== 'PlanDefinition') return;
+    entries.push({
+      planDefinition: entry.resource as FhirPlanDefinition,
+      path: `Bundle.entry[${idx}].resource`,
+      fullUrl: entry.fullUrl
+    });
+  });
+  return entries;
+}
+
+/**
+ * Converts every PlanDefinition of a Bundle into one BPMN document, each as a
+ * pool of its own. Definitions they reference are also looked up in the Bundle.
+ */
+export function convertBundleToBpmn(bundle: any, options: ConversionOptions = {}): ConversionResult {
+  if (!isBundle(bundle)) {
+    throw new Error('Invalid Bundle: resourceType must be "Bundle"');
+  }
+  const entries = findPlanDefinitions(bundle);
+  if (entries.length === 0) {
+    throw new Error('The Bundle contains no PlanDefinition');
+  }
+  const resolver = (options.resolver || new CanonicalResolver()).withBundle(bundle);
+  return convertPlanDefinitionsToBpmn(entries, { ...options, resolver });
+}
@@ -0,0 +1,184 @@
+/**
+ * fhir-client.ts
+ * Minimal FHIR REST client for finding PlanDefinitions and the resources they reference
+ */
+
+import { FhirActivityDefinition, FhirAction, FhirBundle, FhirPlanDefinition, FhirResource } from './fhir-types';
+import { CanonicalResolver } from './canonical-resolver';
+
+export interface FhirClientOptions {
+  /** Sent as "Authorization: Bearer <token>" */
+  token?: string;
+  /** Replaces the global fetch, e.g. in tests */
+  fetch?: typeof fetch;
+}
+
+export interface PlanDefinitionSearch {
+  /** Matches titles containing this text */
+  title?: string;
+  status?: string;
+  /** Maximum number of results, 50 by default */
+  count?: number;
+}
+
+/**
+ * A PlanDefinition together with the definitions and libraries it references
+ */
+export interface PlanDefinitionPackage {
+  planDefinition: FhirPlanDefinition;
+  resources: FhirResource[];
+  /** Canonical references the server could not resolve */
+  unresolved: string[];
+}
+
+/**
+ * A failed request, with the HTTP status when the server answered
+ */
+export class FhirServerError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+  }
+}
+
+const FHIR_JSON = 'application/fhir+json';
+
+export class FhirClient {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl: string, private readonly options: FhirClientOptions = {}) {
+    this.baseUrl = baseUrl.trim().replace(/\/+$/, '');
+    if (!/^https?:\/\//.test(this.baseUrl)) {
+      throw new FhirServerError(`Not an http(s) URL: ${baseUrl}`);
+    }
+  }
+
+  /**
+   * Searches PlanDefinitions by title and status, returning the resources of the first page
+   */
+  async searchPlanDefinitions(search: PlanDefinitionSearch = {}): Promise<FhirPlanDefinition[]> {
+    const params = new URLSearchParams({ _count: String(search.count ?? 50) });
+    if (search.title) params.set('title:contains', search.title);
+    if (search.status) params.set('status', search.status);
+
+    const bundle = await this.request<FhirBundle>(`PlanDefinition?${params}`);
+    return getBundleResources(bundle).filter(r => r.resourceType === 'PlanDefinition') as FhirPlanDefinition[];
+  }
+
+  async read<T extends FhirResource>(resourceType: string, id: string): Promise<T> {
+    return this.request<T>(`${resourceType}/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Finds a resource by its canonical URL (url or url|version); without a version
+   * the latest one the server has
+   */
+  async resolveCanonical(resourceType: string, canonical: string): Promise<FhirResource | undefined> {
+    const [url, version] = canonical.split('|');
+    const params = new URLSearchParams({ url });
+    if (version) params.set('version', version);
+
+    const bundle = await this.request<FhirBundle>(`${resourceType}?${params}`);
+    const matches = getBundleResources(bundle).filter(r => r.resourceType === resourceType);
+    return new CanonicalResolver(matches).resolve(canonical);
+  }
+
+  /**
+   * Loads a PlanDefinition with the ActivityDefinitions, PlanDefinitions and
+   * Libraries it references. Uses the $package operation where the server supports
+   * it, and otherwise reads the references one by one.
+   */
+  async fetchPlanDefinitionPackage(id: string): Promise<PlanDefinitionPackage> {
+    try {
+      const bundle = await this.request<FhirBundle>(`PlanDefinition/${encodeURIComponent(id)}/$package`);
+      const resources = getBundleResources(bundle);
+      const planDefinition = resources.find(r => r.resourceType === 'PlanDefinition' && r.id === id);
+      if (planDefinition) {
+        return {
+          planDefinition: planDefinition as FhirPlanDefinition,
+          resources: resources.filter(r => r !== planDefinition),
+          unresolved: []
+        };
+      }
+    } catch (error) {
+      // Servers without $package answer 400, 404, 405 or 501
+      if (!(error instanceof FhirServerError) || error.status === undefined || error.status === 401 || error.status === 403) {
+        throw error;
+      }
+    }
+    return this.fetchReferences(await this.read<FhirPlanDefinition>('PlanDefinition', id));
+  }
+
+  private async fetchReferences(planDefinition: FhirPlanDefinition): Promise<PlanDefinitionPackage> {
+    const result: PlanDefinitionPackage = { planDefinition, resources: [], unresolved: [] };
+    const contained = new Set((planDefinition.contained || []).map(r => r.id && `#${r.id}`));
+    const definitions = collectDefinitionCanonicals(planDefinition.action || []).filter(c => !contained.has(c));
+    const libraries = new Set(planDefinition.library || []);
+
+    for (const canonical of new Set(definitions)) {
+      const resourceType = /(^|\/)PlanDefinition\//.test(canonical) ? 'PlanDefinition' : 'ActivityDefinition';
+      const resource = await this.resolveCanonical(resourceType, canonical);
+      if (!resource) {
+        result.unresolved.push(canonical);
+        continue;
+      }
+      result.resources.push(resource);
+      (resource as FhirActivityDefinition).library?.forEach(library => libraries.add(library));
+    }
+
+    for (const canonical of libraries) {
+      const library = await this.resolveCanonical('Library', canonical);
+      if (library) {
+        result.resources.push(library);
+      } else {
+        result.unresolved.push(canonical);
+      }
+    }
+    return result;
+  }
+
+  private async request<T>(path: string): Promise<T> {
+    const headers: Record<string, string> = { Accept: FHIR_JSON };
+    if (this.options.token) headers.Authorization = `Bearer ${this.options.token}`;
+
+    const fetchFn = this.options.fetch || fetch;
+    let response: Response;
+    try {
+      response = await fetchFn(`${this.baseUrl}/${path}`, { headers });
+    } catch (error: any) {
+      throw new FhirServerError(`Cannot reach ${this.baseUrl}: ${error.message}`);
+    }
+
+    const body = await response.text();
+    if (!response.ok) {
+      throw new FhirServerError(`${response.status} ${response.statusText}: ${getOutcomeText(body) || path}`, response.status);
+    }
+    try {
+      return JSON.parse(body) as T;
+    } catch {
+      throw new FhirServerError(`The server did not answer with JSON for ${path}`, response.status);
+    }
+  }
+}
+
+function getBundleResources(bundle: FhirBundle): FhirResource[] {
+  return (bundle.entry || []).map(entry => entry.resource).filter((r): r is FhirResource => !!r);
+}
+
+function collectDefinitionCanonicals(actions: FhirAction[]): string[] {
+  return actions.flatMap(action => [
+    ...(action.definitionCanonical ? [action.definitionCanonical] : []),
+    ...collectDefinitionCanonicals(action.action || [])
+  ]);
+}
+
+/**
+ * Reads the diagnostics of an OperationOutcome error body
+ */
+function getOutcomeText(body: string): string | undefined {
+  try {
+    const outcome = JSON.parse(body);
+    return (outcome.issue || []).map((issue: any) => issue.diagnostics || issue.details?.text).filter(Boolean).join('; ');
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * fhir-structures.ts
+ * Element definitions of the FHIR R4 resources and data types the tools read
+ */
+
+export type PrimitiveType = 'string' | 'code' | 'id' | 'uri' | 'canonical' | 'markdown'
+  | 'boolean' | 'integer' | 'decimal' | 'date' | 'dateTime';
+
+/**
+ * Definition of a FHIR element: a primitive or a complex type with its own
+ * elements. Complex types without elements are not described any further.
+ */
+export interface ElementDefinition {
+  type: PrimitiveType | StructureDefinition | 'complex';
+  array?: boolean;
+  required?: boolean;
+  /** Allowed values of a required code binding */
+  codes?: string[];
+}
+
+export type StructureDefinition = Record<string, ElementDefinition>;
+
+const COMPLEX = { type: 'complex' } as const;
+const COMPLEX_ARRAY = { type: 'complex', array: true } as const;
+
+const CODING: StructureDefinition = {
+  id: { type: 'string' },
+  extension: COMPLEX_ARRAY,
+  system: { type: 'uri' },
+  version: { type: 'string' },
+  code: { type: 'code' },
+  display: { type: 'string' },
+  userSelected: { type: 'boolean' }
+};
+
+const CODEABLE_CONCEPT: StructureDefinition = {
+  id: { type: 'string' },
+  extension: COMPLEX_ARRAY,
+  coding: { type: CODING, array: true },
+  text: { type: 'string' }
+};
+
+const EXPRESSION: StructureDefinition = {
+  id: { type: 'string' },
+  extension: COMPLEX_ARRAY,
+  description: { type: 'string' },
+  name: { type: 'id' },
+  language: { type: 'code', required: true },
+  expression: { type: 'string' },
+  reference: { type: 'uri' }
+};
+
+const DATA_REQUIREMENT: StructureDefinition = {
+  id: { type: 'string' },
+  extension: COMPLEX_ARRAY,
+  type: { type: 'code', required: true },
+  profile: { type: 'canonical', array: true },
+  subjectCodeableConcept: { type: CODEABLE_CONCEPT },
+  subjectReference: COMPLEX,
+  mustSupport: { type: 'string', array: true },
+  codeFilter: COMPLEX_ARRAY,
+  dateFilter: COMPLEX_ARRAY,
+  limit: { type: 'integer' },
+  sort: COMPLEX_ARRAY
+};
+
+const TRIGGER_DEFINITION: StructureDefinition = {
+  id: { type: 'string' },
+  extension: COMPLEX_ARRAY,
+  type: {
+    type: 'code',
+    required: true,
+    codes: ['named-event', 'periodic', 'data-changed', 'data-added', 'data-modified', 'data-removed',
+      'data-accessed', 'data-access-ended']
+  },
+  name: { type: 'string' },
+  timingTiming: COMPLEX,
+  timingReference: COMPLEX,
+  timingDate: { type: 'date' },
+  timingDateTime: { type: 'dateTime' },
+  data: { type: DATA_REQUIREMENT, array: true },
+  condition: { type: EXPRESSION }
+};
+
+const RELATED_ARTIFACT: StructureDefinition = {
+  id: { type: 'string' },
+  extension: COMPLEX_ARRAY,
+  type: {
+    type: 'code',
+    required: true,
+    codes: ['documentation', 'justification', 'citation', 'predecessor', 'successor', 'derived-from',
+      'depends-on', 'composed-of']
+  },
+  label: { type: 'string' },
+  display: { type: 'string' },
+  citation: { type: 'markdown' },
+  url: { type: 'uri' },
+  document: COMPLEX,
+  resource: { type: 'canonical' }
+};
+
+const BACKBONE_ELEMENT: StructureDefinition = {
+  id: { type: 'string' },
+  extension: COMPLEX_ARRAY,
+  modifierExtension: COMPLEX_ARRAY
+};
+
+const ACTION_CONDITION: StructureDefinition = {
+  ...BACKBONE_ELEMENT,
+  kind: { type: 'code', required: true, codes: ['applicability', 'start', 'stop'] },
+  expression: { type: EXPRESSION }
+};
+
+const ACTION_RELATED_ACTION: StructureDefinition = {
+  ...BACKBONE_ELEMENT,
+  actionId: { type: 'id', required: true },
+  relationship: {
+    type: 'code',
+    required: true,
+    codes: ['before-start', 'before', 'before-end', 'concurrent-with-start', 'concurrent',
+      'concurrent-with-end', 'after-start', 'after', 'after-end']
+  },
+  offsetDuration: COMPLEX,
+  offsetRange: COMPLEX
+};
+
+const ACTION_PARTICIPANT: StructureDefinition = {
+  ...BACKBONE_ELEMENT,
+  type: { type: 'code', required: true, codes: ['patient', 'practitioner', 'related-person', 'device'] },
+  role: { type: CODEABLE_CONCEPT }
+};
+
+const ACTION_DYNAMIC_VALUE: StructureDefinition = {
+  ...BACKBONE_ELEMENT,
+  path: { type: 'string' },
+  expression: { type: EXPRESSION }
+};
+
+const ACTION: StructureDefinition = {
+  ...BACKBONE_ELEMENT,
+  prefix: { type: 'string' },
+  title: { type: 'string' },
+  description: { type: 'string' },
+  textEquivalent: { type: 'string' },
+  priority: { type: 'code', codes: ['routine', 'urgent', 'asap', 'stat'] },
+  code: { type: CODEABLE_CONCEPT, array: true },
+  reason: { type: CODEABLE_CONCEPT, array: true },
+  documentation: { type: RELATED_ARTIFACT, array: true },
+  goalId: { type: 'id', array: true },
+  subjectCodeableConcept: { type: CODEABLE_CONCEPT },
+  subjectReference: COMPLEX,
+  subjectCanonical: { type: 'canonical' },
+  trigger: { type: TRIGGER_DEFINITION, array: true },
+  condition: { type: ACTION_CONDITION, array: true },
+  input: { type: DATA_REQUIREMENT, array: true },
+  output: { type: DATA_REQUIREMENT, array: true },
+  relatedAction: { type: ACTION_RELATED_ACTION, array: true },
+  timingDateTime: { type: 'dateTime' },
+  timingAge: COMPLEX,
+  timingPeriod: COMPLEX,
+  timingDuration: COMPLEX,
+  timingRange: COMPLEX,
+  timingTiming: COMPLEX,
+  participant: { type: ACTION_PARTICIPANT, array: true },
+  type: { type: CODEABLE_CONCEPT },
+  groupingBehavior: { type: 'code', codes: ['visual-group', 'logical-group', 'sentence-group'] },
+  selectionBehavior: {
+    type: 'code',
+    codes: ['any', 'all', 'all-or-none', 'exactly-one', 'at-most-one', 'one-or-more']
+  },
+  requiredBehavior: { type: 'code', codes: ['must', 'could', 'must-unless-documented'] },
+  precheckBehavior: { type: 'code', codes: ['yes', 'no'] },
+  cardinalityBehavior: { type: 'code', codes: ['single', 'multiple'] },
+  definitionCanonical: { type: 'canonical' },
+  definitionUri: { type: 'uri' },
+  transform: { type: 'canonical' },
+  dynamicValue: { type: ACTION_DYNAMIC_VALUE, array: true }
+};
+// Actions nest recursively
+ACTION.action = { type: ACTION, array: true };
+
+export const PLAN_DEFINITION: StructureDefinition = {
+  resourceType: { type: 'string', required: true },
+  id: { type: 'id' },
+  meta: COMPLEX,
+  implicitRules: { type: 'uri' },
+  language: { type: 'code' },
+  text: COMPLEX,
+  contained: COMPLEX_ARRAY,
+  extension: COMPLEX_ARRAY,
+  modifierExtension: COMPLEX_ARRAY,
+  url: { type: 'uri' },
+  identifier: COMPLEX_ARRAY,
+  version: { type: 'string' },
+  name: { type: 'string' },
+  title: { type: 'string' },
+  subtitle: { type: 'string' },
+  type: { type: CODEABLE_CONCEPT },
+  status: { type: 'code', required: true, codes: ['draft', 'active', 'retired', 'unknown'] },
+  experimental: { type: 'boolean' },
+  subjectCodeableConcept: { type: CODEABLE_CONCEPT },
+  subjectReference: COMPLEX,
+  date: { type: 'dateTime' },
+  publisher: { type: 'string' },
+  contact: COMPLEX_ARRAY,
+  description: { type: 'markdown' },
+  useContext: COMPLEX_ARRAY,
+  jurisdiction: { type: CODEABLE_CONCEPT, array: true },
+  purpose: { type: 'markdown' },
+  usage: { type: 'string' },
+  copyright: { type: 'markdown' },
+  approvalDate: { type: 'date' },
+  lastReviewDate: { type: 'date' },
+  effectivePeriod: COMPLEX,
+  topic: { type: CODEABLE_CONCEPT, array: true },
+  author: COMPLEX_ARRAY,
+  editor: COMPLEX_ARRAY,
+  reviewer: COMPLEX_ARRAY,
+  endorser: COMPLEX_ARRAY,
+  relatedArtifact: { type: RELATED_ARTIFACT, array: true },
+  library: { type: 'canonical', array: true },
+  goal: COMPLEX_ARRAY,
+  action: { type: ACTION, array: true }
+};
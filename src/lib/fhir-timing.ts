@@ -0,0 +1,212 @@
+/**
+ * fhir-timing.ts
+ * Converts FHIR Timing values to ISO 8601 expressions for BPMN timer events
+ */
+
+import { FhirQuantity, FhirRange, FhirTiming } from './fhir-types';
+
+export interface TimerDefinition {
+  timeDate?: string;
+  timeDuration?: string;
+  timeCycle?: string;
+}
+
+type UnitOfTime = 's' | 'min' | 'h' | 'd' | 'wk' | 'mo' | 'a';
+
+const UNIT_NAMES: Record<UnitOfTime, [string, string]> = {
+  s: ['second', 'seconds'],
+  min: ['minute', 'minutes'],
+  h: ['hour', 'hours'],
+  d: ['day', 'days'],
+  wk: ['week', 'weeks'],
+  mo: ['month', 'months'],
+  a: ['year', 'years']
+};
+
+// Next smaller unit and how many of it make up one of the larger unit
+const SMALLER_UNIT: Partial<Record<UnitOfTime, [UnitOfTime, number]>> = {
+  a: ['mo', 12],
+  mo: ['d', 30],
+  wk: ['d', 7],
+  d: ['h', 24],
+  h: ['min', 60],
+  min: ['s', 60]
+};
+
+/**
+ * Checks whether a string is a FHIR UnitsOfTime code
+ */
+export function isUnitOfTime(unit: string | undefined): unit is UnitOfTime {
+  return !!unit && unit in UNIT_NAMES;
+}
+
+// Unit names that Duration and Age quantities use besides the UCUM codes
+const UNIT_ALIASES: Record<string, UnitOfTime> = {
+  sec: 's', second: 's', seconds: 's',
+  minute: 'min', minutes: 'min',
+  hour: 'h', hours: 'h',
+  day: 'd', days: 'd',
+  week: 'wk', weeks: 'wk',
+  month: 'mo', months: 'mo',
+  year: 'a', years: 'a', yr: 'a'
+};
+
+/**
+ * Reads a Duration or Age quantity as an amount of a unit of time, from its
+ * UCUM code or else its unit name
+ */
+export function readDuration(quantity: FhirQuantity | undefined): { value: number; unit: UnitOfTime } | undefined {
+  if (quantity?.value === undefined) return undefined;
+  const unit = [quantity.code, quantity.unit]
+    .map(u => u?.trim())
+    .map(u => isUnitOfTime(u) ? u : u && UNIT_ALIASES[u.toLowerCase()])
+    .find(Boolean);
+  return unit ? { value: quantity.value, unit } : undefined;
+}
+
+/**
+ * Converts a Duration quantity to an ISO 8601 duration with a description,
+ * e.g. 4 wk -> P4W, "4 weeks"
+ */
+export function durationToTimer(quantity: FhirQuantity | undefined): { timeDuration: string; text: string } | undefined {
+  const duration = readDuration(quantity);
+  if (!duration) return undefined;
+  return { timeDuration: toIsoDuration(duration.value, duration.unit), text: describeDuration(duration.value, duration.unit) };
+}
+
+/**
+ * Converts a Range of durations to an ISO 8601 duration for its lower bound,
+ * described with both bounds, e.g. "2 to 4 weeks". Ranges without a lower bound
+ * have no earliest time and give undefined.
+ */
+export function rangeToTimer(range: FhirRange | undefined): { timeDuration: string; text: string } | undefined {
+  const low = readDuration(range?.low);
+  const high = readDuration(range?.high);
+  if (!low) return undefined;
+
+  const timeDuration = toIsoDuration(low.value, low.unit);
+  if (!high) return { timeDuration, text: `at least ${describeDuration(low.value, low.unit)}` };
+  const lowText = low.unit === high.unit ? String(low.value) : describeDuration(low.value, low.unit);
+  return { timeDuration, text: `${lowText} to ${describeDuration(high.value, high.unit)}` };
+}
+
+/**
+ * Converts an amount of a FHIR unit of time to an ISO 8601 duration, e.g. 4 wk -> P4W.
+ * Fractions are carried into the next smaller unit because ISO durations in BPMN
+ * engines are expected to use whole numbers.
+ */
+export function toIsoDuration(value: number, unit: UnitOfTime): string {
+  let amount = value;
+  let currentUnit = unit;
+  while (!Number.isInteger(amount) && SMALLER_UNIT[currentUnit]) {
+    const [smaller, factor] = SMALLER_UNIT[currentUnit]!;
+    amount *= factor;
+    currentUnit = smaller;
+  }
+  amount = Math.round(amount);
+
+  switch (currentUnit) {
+    case 's': return `PT${amount}S`;
+    case 'min': return `PT${amount}M`;
+    case 'h': return `PT${amount}H`;
+    case 'd': return `P${amount}D`;
+    case 'wk': return `P${amount}W`;
+    case 'mo': return `P${amount}M`;
+    case 'a': return `P${amount}Y`;
+  }
+}
+
+/**
+ * Formats an amount of a FHIR unit of time for labels, e.g. "4 weeks"
+ */
+export function describeDuration(value: number, unit: UnitOfTime): string {
+  const [singular, plural] = UNIT_NAMES[unit];
+  return `${value} ${value === 1 ? singular : plural}`;
+}
+
+/**
+ * Converts a FHIR Timing into a timer definition.
+ * Repeating timings become an ISO 8601 repeating interval (R[n][/start]/interval),
+ * timings with explicit event dates fire at the first of them.
+ */
+export function timingToTimerDefinition(timing: FhirTiming): TimerDefinition | undefined {
+  const repeat = timing.repeat;
+
+  if (repeat && repeat.period !== undefined && isUnitOfTime(repeat.periodUnit)) {
+    const interval = toIsoDuration(repeat.period / (repeat.frequency || 1), repeat.periodUnit);
+    const parts = [repeat.count !== undefined ? `R${repeat.count}` : 'R'];
+    if (repeat.boundsPeriod?.start) parts.push(repeat.boundsPeriod.start);
+    parts.push(interval);
+    return { timeCycle: parts.join('/') };
+  }
+
+  if (timing.event && timing.event.length > 0) {
+    return { timeDate: timing.event[0] };
+  }
+
+  return undefined;
+}
+
+/**
+ * Describes a FHIR Timing in words, e.g. "2 times per day" or "every 4 weeks"
+ */
+export function describeTiming(timing: FhirTiming): string | undefined {
+  const repeat = timing.repeat;
+
+  if (repeat && repeat.period !== undefined && isUnitOfTime(repeat.periodUnit)) {
+    const frequency = repeat.frequency || 1;
+    const period = frequency === 1
+      ? `every ${repeat.period === 1 ? UNIT_NAMES[repeat.periodUnit][0] : describeDuration(repeat.period, repeat.periodUnit)}`
+      : `${frequency} times per ${repeat.period === 1 ? UNIT_NAMES[repeat.periodUnit][0] : describeDuration(repeat.period, repeat.periodUnit)}`;
+    return repeat.count !== undefined ? `${period}, ${repeat.count} times` : period;
+  }
+
+  if (timing.event && timing.event.length > 0) {
+    return `at ${timing.event[0]}`;
+  }
+
+  return timing.code?.text || timing.code?.coding?.[0]?.display || timing.code?.coding?.[0]?.code;
+}
+
+const ISO_DATE_UNITS: Record<string, UnitOfTime> = { Y: 'a', M: 'mo', W: 'wk', D: 'd' };
+const ISO_TIME_UNITS: Record<string, UnitOfTime> = { H: 'h', M: 'min', S: 's' };
+
+/**
+ * Parses an ISO 8601 duration with a single component, e.g. P4W -> 4 wk.
+ * Returns undefined for durations that combine several units.
+ */
+export function fromIsoDuration(duration: string): { value: number; unit: UnitOfTime } | undefined {
+  const match = /^P(?:(\d+(?:\.\d+)?)([YMWD])|T(\d+(?:\.\d+)?)([HMS]))$/.exec(duration.trim());
+  if (!match) return undefined;
+  return match[1] !== undefined
+    ? { value: Number(match[1]), unit: ISO_DATE_UNITS[match[2]] }
+    : { value: Number(match[3]), unit: ISO_TIME_UNITS[match[4]] };
+}
+
+/**
+ * Converts a timer definition back into a FHIR Timing: the inverse of
+ * timingToTimerDefinition. Returns undefined for timers that cannot be expressed.
+ */
+export function timerDefinitionToTiming(timer: TimerDefinition): FhirTiming | undefined {
+  if (timer.timeCycle) {
+    const match = /^R(\d*)\/(?:([^/]+)\/)?(P[^/]+)$/.exec(timer.timeCycle.trim());
+    const interval = match && fromIsoDuration(match[3]);
+    if (!match || !interval) return undefined;
+
+    return {
+      repeat: {
+        ...(match[1] ? { count: Number(match[1]) } : {}),
+        ...(match[2] ? { boundsPeriod: { start: match[2] } } : {}),
+        frequency: 1,
+        period: interval.value,
+        periodUnit: interval.unit
+      }
+    };
+  }
+
+  if (timer.timeDate) {
+    return { event: [timer.timeDate] };
+  }
+
+  return undefined;
+}
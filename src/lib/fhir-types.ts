@@ -0,0 +1,158 @@
+/**
+ * fhir-types.ts
+ * Minimal FHIR resource shapes consumed by the PlanDefinition converter
+ */
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirExpression {
+  description?: string;
+  language?: string;
+  expression?: string;
+}
+
+export interface FhirQuantity {
+  value?: number;
+  unit?: string;
+  system?: string;
+  code?: string;
+}
+
+export interface FhirRange {
+  low?: FhirQuantity;
+  high?: FhirQuantity;
+}
+
+export interface FhirPeriod {
+  start?: string;
+  end?: string;
+}
+
+export interface FhirTiming {
+  event?: string[];
+  repeat?: {
+    boundsPeriod?: FhirPeriod;
+    count?: number;
+    countMax?: number;
+    frequency?: number;
+    frequencyMax?: number;
+    period?: number;
+    periodMax?: number;
+    periodUnit?: string;
+  };
+  code?: FhirCodeableConcept;
+}
+
+export interface FhirDataRequirement {
+  type?: string;
+  profile?: string[];
+}
+
+export interface FhirTriggerDefinition {
+  type?: string;
+  name?: string;
+  timingTiming?: FhirTiming;
+  timingReference?: { reference?: string };
+  timingDate?: string;
+  timingDateTime?: string;
+  data?: FhirDataRequirement[];
+  condition?: FhirExpression;
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  url?: string;
+  version?: string;
+}
+
+export interface FhirParticipant {
+  type?: string;
+  role?: FhirCodeableConcept;
+}
+
+export interface FhirActivityDefinition extends FhirResource {
+  name?: string;
+  title?: string;
+  description?: string;
+  kind?: string;
+  code?: FhirCodeableConcept;
+  participant?: FhirParticipant[];
+  library?: string[];
+  productCodeableConcept?: FhirCodeableConcept;
+  productReference?: { reference?: string; display?: string };
+  dosage?: Array<{
+    text?: string;
+  }>;
+}
+
+export interface FhirPlanDefinition extends FhirResource {
+  name?: string;
+  title?: string;
+  status?: string;
+  description?: string;
+  type?: FhirCodeableConcept;
+  contained?: FhirResource[];
+  library?: string[];
+  action?: FhirAction[];
+}
+
+export interface FhirBundle extends FhirResource {
+  type?: string;
+  entry?: Array<{
+    fullUrl?: string;
+    resource?: FhirResource;
+  }>;
+}
+
+export interface FhirRelatedAction {
+  actionId?: string;
+  relationship?: string;
+  offsetDuration?: FhirQuantity;
+  offsetRange?: FhirRange;
+}
+
+export interface FhirAction {
+  id?: string;
+  title?: string;
+  description?: string;
+  textEquivalent?: string;
+  documentation?: Array<{
+    type?: string;
+    display?: string;
+  }>;
+  trigger?: FhirTriggerDefinition[];
+  condition?: Array<{
+    kind?: string;
+    expression?: FhirExpression;
+  }>;
+  relatedAction?: FhirRelatedAction[];
+  timingDateTime?: string;
+  timingAge?: FhirQuantity;
+  timingPeriod?: FhirPeriod;
+  timingDuration?: FhirQuantity;
+  timingRange?: FhirRange;
+  timingTiming?: FhirTiming;
+  type?: FhirCodeableConcept;
+  participant?: FhirParticipant[];
+  groupingBehavior?: 'visual-group' | 'logical-group' | 'sentence-group';
+  selectionBehavior?: 'any' | 'all' | 'all-or-none' | 'exactly-one' | 'at-most-one' | 'one-or-more';
+  cardinalityBehavior?: 'single' | 'multiple';
+  definitionCanonical?: string;
+  input?: FhirDataRequirement[];
+  output?: FhirDataRequirement[];
+  dynamicValue?: Array<{
+    path?: string;
+    expression?: FhirExpression;
+  }>;
+  action?: FhirAction[]; // Nested actions
+}
@@ -0,0 +1,282 @@
+/**
+ * fhir-xml.ts
+ * Reads and writes FHIR resources in the FHIR XML format
+ */
+
+import { Element, js2xml, xml2js } from 'xml-js';
+import { ElementDefinition, PLAN_DEFINITION, PrimitiveType, StructureDefinition } from './fhir-structures';
+
+export type FhirFormat = 'json' | 'xml';
+
+const FHIR_NAMESPACE = 'http://hl7.org/fhir';
+const XHTML_NAMESPACE = 'http://www.w3.org/1999/xhtml';
+
+// Structures known in detail; other resources are read with the fallbacks below
+const RESOURCE_STRUCTURES: Record<string, StructureDefinition> = {
+  PlanDefinition: PLAN_DEFINITION
+};
+
+// Elements that repeat wherever they occur in the resources read here, used where
+// no structure definition says otherwise
+const REPEATING_ELEMENTS = new Set([
+  'extension', 'modifierExtension', 'contained', 'identifier', 'contact', 'telecom', 'useContext',
+  'jurisdiction', 'topic', 'author', 'editor', 'reviewer', 'endorser', 'relatedArtifact', 'library',
+  'coding', 'participant', 'dosage', 'dynamicValue', 'bodySite', 'observationRequirement',
+  'specimenRequirement', 'observationResultRequirement', 'content', 'parameter', 'dataRequirement',
+  'profile', 'codeFilter', 'dateFilter', 'sort', 'event', 'dayOfWeek', 'timeOfDay', 'when',
+  'entry', 'link', 'tag', 'security', 'issue', 'doseAndRate', 'additionalInstruction', 'given',
+  'prefix', 'suffix', 'line', 'target', 'addresses', 'documentation', 'valueSet', 'mustSupport'
+]);
+
+const NUMERIC_ELEMENTS = new Set([
+  'count', 'countMax', 'duration', 'durationMax', 'frequency', 'frequencyMax', 'period', 'periodMax',
+  'offset', 'sequence', 'total', 'value', 'low', 'high', 'limit', 'size', 'rank', 'numerator', 'denominator'
+]);
+
+const BOOLEAN_ELEMENTS = new Set(['experimental', 'userSelected', 'asNeededBoolean', 'doNotPerform', 'inactive']);
+
+/**
+ * Tells apart FHIR XML from FHIR JSON by the first character of the text
+ */
+export function detectFormat(text: string): FhirFormat {
+  return text.trimStart().startsWith('<') ? 'xml' : 'json';
+}
+
+/**
+ * Checks whether an XML text is a FHIR resource rather than, e.g., a BPMN diagram
+ */
+export function isFhirXml(text: string): boolean {
+  return new RegExp(`^\\s*(<\\?xml[^>]*>\\s*)?<[A-Z][A-Za-z]+[^>]*xmlns=["']${FHIR_NAMESPACE}["']`).test(text);
+}
+
+/**
+ * Parses FHIR JSON or FHIR XML into a resource
+ */
+export function parseFhir(text: string): any {
+  return detectFormat(text) === 'xml' ? parseFhirXml(text) : JSON.parse(text);
+}
+
+/**
+ * Writes a resource as FHIR JSON or FHIR XML
+ */
+export function formatFhir(resource: any, format: FhirFormat): string {
+  return format === 'xml' ? serializeFhirXml(resource) : JSON.stringify(resource, null, 2);
+}
+
+/**
+ * Parses a FHIR XML resource into the same shape as its FHIR JSON representation.
+ * Elements repeat, and primitives are numbers or booleans, as the structure
+ * definitions say; elements without one fall back on lists of common names.
+ */
+export function parseFhirXml(xml: string): any {
+  let document: Element;
+  try {
+    document = xml2js(xml, {
+      compact: false,
+      ignoreComment: true,
+      ignoreDeclaration: true,
+      ignoreInstruction: true,
+      ignoreDoctype: true
+    }) as Element;
+  } catch (error: any) {
+    throw new Error(`Invalid XML: ${error.message}`);
+  }
+
+  const root = childElements(document)[0];
+  if (!root || root.attributes?.xmlns !== FHIR_NAMESPACE) {
+    throw new Error(`Invalid FHIR XML: the root element must be a resource in the ${FHIR_NAMESPACE} namespace`);
+  }
+  return readResource(root);
+}
+
+function readResource(element: Element): any {
+  const resourceType = localName(element);
+  return { resourceType, ...readComplex(element, RESOURCE_STRUCTURES[resourceType], true) };
+}
+
+function readComplex(element: Element, structure: StructureDefinition | undefined, isResource = false): any {
+  const result: any = {};
+
+  // Element ids and extension urls are attributes; a resource's id is an element
+  if (!isResource && element.attributes?.id !== undefined) result.id = String(element.attributes.id);
+  if (element.attributes?.url !== undefined) result.url = String(element.attributes.url);
+
+  const children = childElements(element);
+  const names = [...new Set(children.map(localName))];
+  for (const name of names) {
+    const occurrences = children.filter(child => localName(child) === name);
+    const definition = structure?.[name];
+    const repeats = definition ? !!definition.array : REPEATING_ELEMENTS.has(name) || occurrences.length > 1;
+
+    if (name === 'div' && occurrences[0].attributes?.xmlns === XHTML_NAMESPACE) {
+      result.div = js2xml({ elements: [occurrences[0]] });
+      continue;
+    }
+
+    const values = occurrences.map(child => readValue(child, name, definition));
+    const primitives = values.filter(v => v.isPrimitive);
+    if (primitives.length > 0) {
+      // Primitive values and their ids and extensions are split, as in FHIR JSON
+      const plain = values.map(v => v.value ?? null);
+      const extras = values.map(v => v.extra ?? null);
+      if (plain.some(v => v !== null)) result[name] = repeats ? plain : plain[0];
+      if (extras.some(v => v !== null)) result[`_${name}`] = repeats ? extras : extras[0];
+    } else {
+      result[name] = repeats ? values.map(v => v.value) : values[0].value;
+    }
+  }
+  return result;
+}
+
+function readValue(
+  element: Element,
+  name: string,
+  definition: ElementDefinition | undefined
+): { isPrimitive: boolean; value?: any; extra?: any } {
+  const type = definition?.type;
+  const attributes = element.attributes || {};
+  const children = childElements(element);
+
+  // Inline resources: contained, Bundle.entry.resource and the like
+  const inline = children.length === 1 && /^[A-Z]/.test(localName(children[0])) ? children[0] : undefined;
+  if (inline && (name === 'contained' || name === 'resource' || name === 'outcome')) {
+    return { isPrimitive: false, value: readResource(inline) };
+  }
+
+  const isPrimitive = typeof type === 'string' && type !== 'complex'
+    ? true
+    : type === undefined && attributes.value !== undefined;
+  if (!isPrimitive) {
+    return { isPrimitive: false, value: readComplex(element, typeof type === 'object' ? type : undefined) };
+  }
+
+  const extra: any = {};
+  if (attributes.id !== undefined) extra.id = String(attributes.id);
+  const extensions = children.filter(child => localName(child) === 'extension').map(child => readComplex(child, undefined));
+  if (extensions.length > 0) extra.extension = extensions;
+
+  return {
+    isPrimitive: true,
+    value: attributes.value === undefined ? undefined : toPrimitive(String(attributes.value), name, type as PrimitiveType),
+    extra: Object.keys(extra).length > 0 ? extra : undefined
+  };
+}
+
+function toPrimitive(value: string, name: string, type: PrimitiveType | undefined): string | number | boolean {
+  if (type === 'boolean' || (!type && BOOLEAN_ELEMENTS.has(name))) return value === 'true';
+  if (type === 'integer' || type === 'decimal' || (!type && NUMERIC_ELEMENTS.has(name) && /^-?\d+(\.\d+)?$/.test(value))) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Writes a resource in FHIR JSON shape as FHIR XML. Elements of known structures
+ * are written in definition order, others in the order of the JSON properties.
+ */
+export function serializeFhirXml(resource: any): string {
+  if (typeof resource?.resourceType !== 'string') {
+    throw new Error('Not a FHIR resource: resourceType is missing');
+  }
+  // Narrative XHTML is mixed content, so it is inserted after indenting the rest
+  const xhtml: string[] = [];
+  const root = writeResource(resource, xhtml);
+  root.attributes = { xmlns: FHIR_NAMESPACE };
+  const xml = js2xml(
+    { declaration: { attributes: { version: '1.0', encoding: 'UTF-8' } }, elements: [root] },
+    { spaces: 2 }
+  );
+  return xml.replace(/<xhtml-(\d+)\/>/g, (_, index) => xhtml[Number(index)]);
+}
+
+function writeResource(resource: any, xhtml: string[]): Element {
+  const { resourceType, ...content } = resource;
+  return {
+    type: 'element',
+    name: resourceType,
+    elements: writeChildren(content, RESOURCE_STRUCTURES[resourceType], xhtml, true)
+  };
+}
+
+function writeChildren(
+  value: any,
+  structure: StructureDefinition | undefined,
+  xhtml: string[],
+  isResource = false
+): Element[] {
+  const order = structure ? Object.keys(structure) : [];
+  const names = Object.keys(value)
+    .filter(key => !key.startsWith('_') || !(key.substring(1) in value))
+    .map(key => key.startsWith('_') ? key.substring(1) : key)
+    .filter(name => isResource || name !== 'id')
+    .sort((a, b) => rank(order, a) - rank(order, b));
+
+  return names.flatMap(name => {
+    const values = toArray(value[name]);
+    const extras = toArray(value[`_${name}`]);
+    const definition = structure?.[name];
+    return Array.from({ length: Math.max(values.length, extras.length) }, (_, i) =>
+      writeElement(name, values[i] ?? null, extras[i] ?? null, definition, xhtml)
+    );
+  });
+}
+
+function writeElement(
+  name: string,
+  value: any,
+  extra: any,
+  definition: ElementDefinition | undefined,
+  xhtml: string[]
+): Element {
+  if (name === 'div' && typeof value === 'string') {
+    xhtml.push(value);
+    return { type: 'element', name: `xhtml-${xhtml.length - 1}` };
+  }
+  if (value !== null && typeof value === 'object') {
+    if (typeof value.resourceType === 'string') {
+      return { type: 'element', name, elements: [writeResource(value, xhtml)] };
+    }
+    const attributes: Record<string, string> = {};
+    if (value.id !== undefined) attributes.id = escapeAttribute(String(value.id));
+    if (value.url !== undefined && (name === 'extension' || name === 'modifierExtension')) {
+      attributes.url = escapeAttribute(String(value.url));
+    }
+    const structure = typeof definition?.type === 'object' ? definition.type : undefined;
+    const { url, ...rest } = value;
+    const content = name === 'extension' || name === 'modifierExtension' ? rest : value;
+    return { type: 'element', name, attributes, elements: writeChildren(content, structure, xhtml) };
+  }
+
+  // Primitive, with its id and extensions from the _name property
+  const attributes: Record<string, string> = {};
+  if (extra?.id !== undefined) attributes.id = escapeAttribute(String(extra.id));
+  if (value !== null) attributes.value = escapeAttribute(String(value));
+  const extensions = toArray(extra?.extension).map(extension => writeElement('extension', extension, null, undefined, xhtml));
+  return { type: 'element', name, attributes, elements: extensions };
+}
+
+/**
+ * Escapes an attribute value for js2xml, which only escapes quotes itself
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function rank(order: string[], name: string): number {
+  const index = order.indexOf(name);
+  return index === -1 ? order.length : index;
+}
+
+function toArray(value: any): any[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function childElements(element: Element): Element[] {
+  return (element.elements || []).filter(e => e.type === 'element');
+}
+
+function localName(element: Element): string {
+  const name = element.name || '';
+  return name.substring(name.indexOf(':') + 1);
+}
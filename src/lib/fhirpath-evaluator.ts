@@ -0,0 +1,566 @@
+/**
+ * fhirpath-evaluator.ts
+ * Evaluates the common subset of FHIRPath and CQL conditions against FHIR
+ * resources, so a PlanDefinition can be tried out on a test patient
+ */
+
+import { FhirResource } from './fhir-types';
+import { DURATION_UNITS, ExpressionNode, parseExpression } from './expression-translator';
+
+/**
+ * Thrown when an expression cannot be evaluated, e.g. because it calls a function
+ * the evaluator does not cover or compares values of different types
+ */
+export class ExpressionEvaluationError extends Error {}
+
+/**
+ * What expressions are evaluated against
+ */
+export interface EvaluationContext {
+  /** Resources of the test patient, e.g. the entries of a Bundle */
+  resources: FhirResource[];
+  /** Resource paths start from, and %patient, %subject, %context and %resource stand for */
+  subject?: FhirResource;
+  /** Moment today() and now() evaluate to, the current time by default */
+  now?: Date;
+}
+
+// Languages of FHIR Expressions the evaluator reads
+const EVALUATED_LANGUAGES = ['text/fhirpath', 'text/cql', 'text/cql-expression'];
+const CQL_IDENTIFIER_LANGUAGE = 'text/cql-identifier';
+
+// Variables that stand for the subject, as CDS Hooks and $apply set them
+const SUBJECT_VARIABLES = ['patient', 'subject', 'context', 'resource', 'rootResource'];
+
+/**
+ * A date, date and time or time literal, or the result of today() and now()
+ */
+interface Temporal {
+  temporal: 'date' | 'dateTime' | 'time';
+  value: string;
+}
+
+/**
+ * A quantity literal, e.g. 18 years, or a FHIR Quantity
+ */
+interface Quantity {
+  value: number;
+  unit: string;
+}
+
+/**
+ * Where an expression is evaluated: the items a path starts from and the item
+ * $this stands for in the criteria of where(), select() and all()
+ */
+interface Scope {
+  focus: unknown[];
+  item?: unknown;
+}
+
+/**
+ * Evaluates a FHIRPath or CQL expression to a collection, as FHIRPath does.
+ * A name of a resource type at the start of a path, e.g. Observation, selects
+ * the resources of that type among the test patient's resources.
+ * Throws an ExpressionEvaluationError when the expression cannot be evaluated.
+ */
+export function evaluateExpression(expression: string, language: string | undefined, context: EvaluationContext): unknown[] {
+  if (language === CQL_IDENTIFIER_LANGUAGE) {
+    throw new ExpressionEvaluationError(`"${expression}" names a CQL definition, which needs its library to be evaluated`);
+  }
+  if (language !== undefined && !EVALUATED_LANGUAGES.includes(language)) {
+    throw new ExpressionEvaluationError(`${language} expressions are not supported`);
+  }
+
+  let node: ExpressionNode;
+  try {
+    node = parseExpression(expression);
+  } catch (e: any) {
+    throw new ExpressionEvaluationError(e.message);
+  }
+  const subject = context.subject ? [context.subject] : [];
+  return new Evaluator(context).evaluate(node, { focus: subject });
+}
+
+/**
+ * Reads the result of a condition as a boolean: true or false for a single
+ * boolean, true for any other single item and undefined when it is empty
+ */
+export function toBoolean(result: unknown[]): boolean | undefined {
+  if (result.length === 0) return undefined;
+  if (result.length > 1) throw new ExpressionEvaluationError(`Expected a single value but found ${result.length}`);
+  return typeof result[0] === 'boolean' ? result[0] : true;
+}
+
+/**
+ * Writes a result the way FHIRPath tools show it, e.g. [true] or [ ]
+ */
+export function formatResult(result: unknown[]): string {
+  const items = result.map(item => {
+    if (isTemporal(item)) return `@${item.temporal === 'time' ? 'T' : ''}${item.value}`;
+    if (isQuantity(item) && !isResource(item)) return `${item.value} '${item.unit}'`;
+    if (isResource(item)) return `${item.resourceType}/${item.id || '?'}`;
+    return typeof item === 'string' ? `'${item}'` : JSON.stringify(item);
+  });
+  return items.length > 0 ? `[${items.join(', ')}]` : '[ ]';
+}
+
+class Evaluator {
+  constructor(private context: EvaluationContext) {}
+
+  evaluate(node: ExpressionNode, scope: Scope): unknown[] {
+    switch (node.kind) {
+      case 'literal':
+        if (node.type === 'null') return [];
+        if (node.type === 'boolean') return [node.value === 'true'];
+        return [node.type === 'number' ? Number(node.value) : node.value];
+
+      case 'temporal':
+        return [{ temporal: node.type, value: node.value } as Temporal];
+
+      case 'quantity':
+        return [{ value: Number(node.value), unit: node.unit } as Quantity];
+
+      case 'identifier':
+        return this.evaluateName(node.name, scope.focus);
+
+      case 'variable':
+        if (SUBJECT_VARIABLES.includes(node.name)) return this.context.subject ? [this.context.subject] : [];
+        throw new ExpressionEvaluationError(`%${node.name} is not known`);
+
+      case 'this':
+        return scope.item === undefined ? scope.focus : [scope.item];
+
+      case 'member':
+        return getChildren(this.evaluate(node.target, scope), node.name);
+
+      case 'index': {
+        const index = single(this.evaluate(node.index, scope));
+        if (typeof index !== 'number') throw new ExpressionEvaluationError('An index must be a number');
+        const items = this.evaluate(node.target, scope);
+        return index >= 0 && index < items.length ? [items[index]] : [];
+      }
+
+      case 'call':
+        return this.evaluateCall(node, scope);
+
+      case 'unary': {
+        const value = this.evaluate(node.operand, scope);
+        if (node.operator === 'exists') return [value.length > 0];
+        if (node.operator === 'not') {
+          const operand = toBoolean(value);
+          return operand === undefined ? [] : [!operand];
+        }
+        const number = single(value);
+        if (number === undefined) return [];
+        if (typeof number === 'number') return [-number];
+        if (isQuantity(number)) return [{ value: -number.value, unit: number.unit }];
+        throw new ExpressionEvaluationError('Only numbers and quantities can be negated');
+      }
+
+      case 'isNull': {
+        const isEmpty = this.evaluate(node.operand, scope).length === 0;
+        return [node.negated ? !isEmpty : isEmpty];
+      }
+
+      case 'binary':
+        return this.evaluateBinary(node.operator, node.left, node.right, scope);
+    }
+  }
+
+  /**
+   * A name at the start of a path is a property of the focus, unless it names the
+   * type of the focus or of other resources of the patient
+   */
+  private evaluateName(name: string, focus: unknown[]): unknown[] {
+    if (/^[A-Z]/.test(name)) {
+      const typed = focus.filter(item => isResource(item) && item.resourceType === name);
+      if (typed.length > 0) return typed;
+      const children = getChildren(focus, name);
+      return children.length > 0 ? children : this.context.resources.filter(resource => resource.resourceType === name);
+    }
+    return getChildren(focus, name);
+  }
+
+  private evaluateCall(node: Extract<ExpressionNode, { kind: 'call' }>, scope: Scope): unknown[] {
+    const name = node.name;
+    const expectArguments = (count: number) => {
+      if (node.args.length !== count) throw new ExpressionEvaluationError(`${name}() takes ${count} argument${count === 1 ? '' : 's'}`);
+    };
+
+    if (!node.target) {
+      switch (name.toLowerCase()) {
+        case 'today':
+          expectArguments(0);
+          return [{ temporal: 'date', value: toDateString(this.now()) } as Temporal];
+        case 'now':
+          expectArguments(0);
+          return [{ temporal: 'dateTime', value: this.now().toISOString() } as Temporal];
+        case 'ageinyears':
+          // CQL measures the age of the patient in context
+          expectArguments(0);
+          return this.ageInYears();
+        case 'iif': {
+          if (node.args.length < 2 || node.args.length > 3) throw new ExpressionEvaluationError('iif() needs a criterion and a result');
+          const criterion = toBoolean(this.evaluate(node.args[0], scope));
+          if (criterion) return this.evaluate(node.args[1], scope);
+          return node.args[2] ? this.evaluate(node.args[2], scope) : [];
+        }
+        case 'exists':
+          // CQL's exists(x); FHIRPath's exists() of the focus is handled below
+          if (node.args.length === 1) return [this.evaluate(node.args[0], scope).length > 0];
+      }
+    }
+
+    const items = node.target ? this.evaluate(node.target, scope) : scope.focus;
+    // Criteria and projections are evaluated on each item, which $this stands for
+    const forEach = (item: unknown) => this.evaluate(node.args[0], { focus: [item], item });
+    const argument = (i: number) => this.evaluate(node.args[i], scope);
+
+    switch (name) {
+      case 'exists':
+        if (node.args.length === 0) return [items.length > 0];
+        expectArguments(1);
+        return [items.some(item => toBoolean(forEach(item)) === true)];
+      case 'empty':
+        expectArguments(0);
+        return [items.length === 0];
+      case 'hasValue':
+        expectArguments(0);
+        return [items.length === 1 && isPrimitive(items[0])];
+      case 'where':
+        expectArguments(1);
+        return items.filter(item => toBoolean(forEach(item)) === true);
+      case 'select':
+        expectArguments(1);
+        return items.flatMap(forEach);
+      case 'all':
+        expectArguments(1);
+        return [items.every(item => toBoolean(forEach(item)) === true)];
+      case 'count':
+        expectArguments(0);
+        return [items.length];
+      case 'first':
+        expectArguments(0);
+        return items.slice(0, 1);
+      case 'last':
+        expectArguments(0);
+        return items.slice(-1);
+      case 'not': {
+        expectArguments(0);
+        const value = toBoolean(items);
+        return value === undefined ? [] : [!value];
+      }
+      case 'contains':
+      case 'startsWith':
+      case 'endsWith':
+      case 'matches': {
+        expectArguments(1);
+        const text = single(items);
+        const other = single(argument(0));
+        if (text === undefined || other === undefined) return [];
+        if (typeof text !== 'string' || typeof other !== 'string') {
+          throw new ExpressionEvaluationError(`${name}() compares strings`);
+        }
+        if (name === 'matches') return [new RegExp(other).test(text)];
+        return [name === 'contains' ? text.includes(other) : name === 'startsWith' ? text.startsWith(other) : text.endsWith(other)];
+      }
+      case 'lower':
+      case 'upper':
+      case 'length': {
+        expectArguments(0);
+        const text = single(items);
+        if (text === undefined) return [];
+        if (typeof text !== 'string') throw new ExpressionEvaluationError(`${name}() takes a string`);
+        return [name === 'lower' ? text.toLowerCase() : name === 'upper' ? text.toUpperCase() : text.length];
+      }
+    }
+    throw new ExpressionEvaluationError(`Function ${name}() is not supported`);
+  }
+
+  private evaluateBinary(operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode, scope: Scope): unknown[] {
+    const left = this.evaluate(leftNode, scope);
+    const right = this.evaluate(rightNode, scope);
+
+    switch (operator) {
+      case 'and':
+      case 'or':
+      case 'xor':
+      case 'implies': {
+        const a = toBoolean(left);
+        const b = toBoolean(right);
+        const result = evaluateLogic(operator, a, b);
+        return result === undefined ? [] : [result];
+      }
+
+      case '=':
+      case '!=':
+      case '<>': {
+        if (left.length === 0 || right.length === 0) return [];
+        const equal = left.length === right.length && left.every((item, i) => isEqual(item, right[i]));
+        return [operator === '=' ? equal : !equal];
+      }
+      case '~':
+      case '!~': {
+        const equivalent = left.length === right.length && left.every((item, i) => isEquivalent(item, right[i]));
+        return [operator === '~' ? equivalent : !equivalent];
+      }
+
+      case '<':
+      case '>':
+      case '<=':
+      case '>=': {
+        const a = single(left);
+        const b = single(right);
+        if (a === undefined || b === undefined) return [];
+        const order = compare(a, b);
+        if (order === undefined) return [];
+        return [operator === '<' ? order < 0 : operator === '>' ? order > 0 : operator === '<=' ? order <= 0 : order >= 0];
+      }
+
+      case 'in':
+        if (left.length === 0) return [];
+        return [right.some(item => isEqual(single(left), item))];
+      case 'contains':
+        if (right.length === 0) return [];
+        return [left.some(item => isEqual(item, single(right)))];
+      case '|':
+        return [...left, ...right].filter((item, i, all) => all.findIndex(other => isEqual(item, other)) === i);
+
+      case '&':
+        return [`${single(left) ?? ''}${single(right) ?? ''}`];
+      case '+':
+      case '-':
+      case '*':
+      case '/':
+      case 'div':
+      case 'mod': {
+        const a = single(left);
+        const b = single(right);
+        if (a === undefined || b === undefined) return [];
+        return [calculate(operator, a, b)];
+      }
+    }
+    throw new ExpressionEvaluationError(`Operator "${operator}" is not supported`);
+  }
+
+  private now(): Date {
+    return this.context.now || new Date();
+  }
+
+  private ageInYears(): unknown[] {
+    const birthDate = (this.context.subject as { birthDate?: unknown } | undefined)?.birthDate;
+    if (typeof birthDate !== 'string') return [];
+    const [year, month = 1, day = 1] = birthDate.split('-').map(Number);
+    const today = this.now();
+    const hadBirthday = today.getMonth() + 1 > month || (today.getMonth() + 1 === month && today.getDate() >= day);
+    return [today.getFullYear() - year - (hadBirthday ? 0 : 1)];
+  }
+}
+
+/**
+ * Gets a property of each item, flattening lists. Choice elements are found by
+ * their name without the type, e.g. value for valueQuantity.
+ */
+function getChildren(items: unknown[], name: string): unknown[] {
+  const children: unknown[] = [];
+  for (const item of items) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) continue;
+    const record = item as Record<string, unknown>;
+    let value = record[name];
+    if (value === undefined) {
+      const choice = Object.keys(record).find(key => key.length > name.length && key.startsWith(name) && /^[A-Z]/.test(key[name.length]));
+      value = choice && record[choice];
+    }
+    if (value === undefined || value === null) continue;
+    children.push(...(Array.isArray(value) ? value : [value]));
+  }
+  return children;
+}
+
+function single(items: unknown[]): unknown {
+  if (items.length > 1) throw new ExpressionEvaluationError(`Expected a single value but found ${items.length}`);
+  return items[0];
+}
+
+function evaluateLogic(operator: string, a: boolean | undefined, b: boolean | undefined): boolean | undefined {
+  switch (operator) {
+    case 'and':
+      if (a === false || b === false) return false;
+      return a === undefined || b === undefined ? undefined : true;
+    case 'or':
+      if (a === true || b === true) return true;
+      return a === undefined || b === undefined ? undefined : false;
+    case 'xor':
+      return a === undefined || b === undefined ? undefined : a !== b;
+    default:
+      if (a === false || b === true) return true;
+      return a === undefined || b === undefined ? undefined : false;
+  }
+}
+
+function isResource(item: unknown): item is FhirResource {
+  return !!item && typeof item === 'object' && typeof (item as FhirResource).resourceType === 'string';
+}
+
+function isTemporal(item: unknown): item is Temporal {
+  return !!item && typeof item === 'object' && 'temporal' in item;
+}
+
+function isQuantity(item: unknown): item is Quantity {
+  return !!item && typeof item === 'object' && typeof (item as Quantity).value === 'number';
+}
+
+function isPrimitive(item: unknown): boolean {
+  return typeof item !== 'object' || isTemporal(item);
+}
+
+/**
+ * Reads a FHIR date, dateTime or time string as the temporal it is compared with
+ */
+function asTemporal(item: unknown, type: Temporal['temporal']): Temporal | undefined {
+  if (isTemporal(item)) return item;
+  if (typeof item !== 'string') return undefined;
+  if (type === 'time') return /^\d{2}:\d{2}/.test(item) ? { temporal: 'time', value: item } : undefined;
+  if (!/^\d{4}(-\d{2}(-\d{2})?)?/.test(item)) return undefined;
+  return { temporal: item.includes('T') ? 'dateTime' : 'date', value: item };
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (isTemporal(a) || isTemporal(b)) {
+    const type = isTemporal(a) ? a.temporal : (b as Temporal).temporal;
+    return compareTemporals(asTemporal(a, type), asTemporal(b, type)) === 0;
+  }
+  if (isQuantity(a) && isQuantity(b)) return compareQuantities(a, b) === 0;
+  if (typeof a === 'object' || typeof b === 'object') return JSON.stringify(a) === JSON.stringify(b);
+  return a === b;
+}
+
+function isEquivalent(a: unknown, b: unknown): boolean {
+  if (typeof a === 'string' && typeof b === 'string') {
+    const normalize = (text: string) => text.trim().replace(/\s+/g, ' ').toLowerCase();
+    return normalize(a) === normalize(b);
+  }
+  return isEqual(a, b);
+}
+
+/**
+ * Orders two values, or returns undefined when FHIRPath leaves the order open,
+ * e.g. for dates of different precision
+ */
+function compare(a: unknown, b: unknown): number | undefined {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (isTemporal(a) || isTemporal(b)) {
+    const type = isTemporal(a) ? a.temporal : (b as Temporal).temporal;
+    return compareTemporals(asTemporal(a, type), asTemporal(b, type));
+  }
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  if (isQuantity(a) && isQuantity(b)) return compareQuantities(a, b);
+  throw new ExpressionEvaluationError(`Cannot compare ${describeType(a)} with ${describeType(b)}`);
+}
+
+function compareTemporals(a: Temporal | undefined, b: Temporal | undefined): number | undefined {
+  if (!a || !b) throw new ExpressionEvaluationError('Only dates and times can be compared with dates and times');
+  if ((a.temporal === 'time') !== (b.temporal === 'time')) {
+    throw new ExpressionEvaluationError('Times of day cannot be compared with dates');
+  }
+  const hasTime = (t: Temporal) => t.temporal === 'dateTime' && /T\d{2}:\d{2}/.test(t.value);
+  if (hasTime(a) && hasTime(b)) return Date.parse(a.value) - Date.parse(b.value);
+
+  // Without a time of day, the parts both values have are compared
+  const dateA = a.value.split('T')[0];
+  const dateB = b.value.split('T')[0];
+  const length = Math.min(dateA.length, dateB.length);
+  const order = dateA.substring(0, length).localeCompare(dateB.substring(0, length));
+  if (order !== 0) return order;
+  return dateA.length === dateB.length && hasTime(a) === hasTime(b) ? 0 : undefined;
+}
+
+function compareQuantities(a: Quantity, b: Quantity): number | undefined {
+  const unitA = getUnit(a);
+  const unitB = getUnit(b);
+  if (unitA !== unitB && !(isCalendarUnit(unitA) && isCalendarUnit(unitB) && sameCalendarUnit(unitA, unitB))) {
+    throw new ExpressionEvaluationError(`Cannot compare quantities in ${unitA || 'no unit'} and ${unitB || 'no unit'}`);
+  }
+  return a.value - b.value;
+}
+
+// FHIR Quantities carry their UCUM code next to a human-readable unit
+function getUnit(quantity: Quantity): string {
+  return (quantity as { code?: string }).code || quantity.unit || '';
+}
+
+function isCalendarUnit(unit: string): boolean {
+  return unit in DURATION_UNITS;
+}
+
+function sameCalendarUnit(a: string, b: string): boolean {
+  const unitA = DURATION_UNITS[a];
+  const unitB = DURATION_UNITS[b];
+  return unitA.designator === unitB.designator && !!unitA.time === !!unitB.time && unitA.factor === unitB.factor;
+}
+
+function calculate(operator: string, a: unknown, b: unknown): unknown {
+  if (typeof a === 'number' && typeof b === 'number') {
+    switch (operator) {
+      case '+': return a + b;
+      case '-': return a - b;
+      case '*': return a * b;
+      case '/': return a / b;
+      case 'div': return Math.trunc(a / b);
+      case 'mod': return a % b;
+    }
+  }
+  if (operator === '+' && typeof a === 'string' && typeof b === 'string') return a + b;
+
+  const temporal = asTemporal(a, 'date');
+  if ((operator === '+' || operator === '-') && temporal && isQuantity(b)) {
+    return addDuration(temporal, operator === '+' ? b.value : -b.value, getUnit(b));
+  }
+  throw new ExpressionEvaluationError(`Cannot apply "${operator}" to ${describeType(a)} and ${describeType(b)}`);
+}
+
+/**
+ * Adds a calendar duration to a date, keeping the precision of the date. Months
+ * and years end on the last day of a shorter month, as in FHIRPath.
+ */
+function addDuration(temporal: Temporal, amount: number, unitName: string): Temporal {
+  const unit = DURATION_UNITS[unitName];
+  if (!unit) throw new ExpressionEvaluationError(`Quantities in ${unitName} cannot be added to dates`);
+  if (temporal.temporal === 'time') throw new ExpressionEvaluationError('Durations can only be added to dates');
+
+  const hasTime = temporal.temporal === 'dateTime' && /T\d{2}:\d{2}/.test(temporal.value);
+  const date = new Date(hasTime ? temporal.value : `${temporal.value.split('T')[0]}T00:00:00Z`);
+  if (isNaN(date.getTime())) throw new ExpressionEvaluationError(`Partial date @${temporal.value} is not supported`);
+
+  if (unit.time) {
+    if (!hasTime) throw new ExpressionEvaluationError('Hours, minutes and seconds can only be added to dates with a time');
+    const seconds = { H: 3600, M: 60, S: 1 }[unit.designator]!;
+    return { temporal: 'dateTime', value: new Date(date.getTime() + amount * seconds * 1000).toISOString() };
+  }
+
+  if (unit.designator === 'D') {
+    date.setUTCDate(date.getUTCDate() + amount * (unit.factor || 1));
+  } else {
+    const months = unit.designator === 'Y' ? amount * 12 : amount;
+    const day = date.getUTCDate();
+    date.setUTCDate(1);
+    date.setUTCMonth(date.getUTCMonth() + months);
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    date.setUTCDate(Math.min(day, lastDay));
+  }
+  return hasTime
+    ? { temporal: 'dateTime', value: date.toISOString() }
+    : { temporal: 'date', value: date.toISOString().substring(0, 10) };
+}
+
+function toDateString(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function describeType(item: unknown): string {
+  if (isTemporal(item)) return item.temporal === 'dateTime' ? 'a date and time' : `a ${item.temporal}`;
+  if (isResource(item)) return `a ${item.resourceType}`;
+  if (isQuantity(item)) return 'a quantity';
+  return typeof item === 'object' ? 'an element' : `a ${typeof item}`;
+}
@@ -0,0 +1,170 @@
+/**
+ * json-locator.ts
+ * Locates the elements of a PlanDefinition in its JSON source text
+ */
+
+/**
+ * Character range of a JSON value, end exclusive
+ */
+export interface JsonRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where an element is in the JSON text: its value and, for properties, its key
+ */
+export interface JsonLocation {
+  value: JsonRange;
+  key?: JsonRange;
+}
+
+/**
+ * Finds the source location of every element in a PlanDefinition JSON text, by
+ * FHIR path (e.g. PlanDefinition.action[0].title). Paths start with rootPath,
+ * Bundle for a Bundle. Returns an empty map when the text is not valid JSON.
+ */
+export function locateJson(json: string, rootPath = 'PlanDefinition'): Map<string, JsonLocation> {
+  const locations = new Map<string, JsonLocation>();
+  try {
+    new JsonScanner(json, (path, value, key) => locations.set(path, { value, key })).scanDocument(rootPath);
+  } catch {
+    locations.clear();
+  }
+  return locations;
+}
+
+/**
+ * Finds the source range of every action in a PlanDefinition JSON text, by
+ * FHIR path (e.g. PlanDefinition.action[1].action[0]). Returns an empty map
+ * when the text is not valid JSON.
+ */
+export function locateActions(json: string, rootPath = 'PlanDefinition'): Map<string, JsonRange> {
+  const locations = new Map<string, JsonRange>();
+  locateJson(json, rootPath).forEach((location, path) => {
+    if (/\.action\[\d+\]$/.test(path)) locations.set(path, location.value);
+  });
+  return locations;
+}
+
+/**
+ * Finds the innermost action whose source range contains an offset
+ */
+export function findActionAt(locations: Map<string, JsonRange>, offset: number): string | undefined {
+  let found: string | undefined;
+  let foundLength = Infinity;
+  for (const [path, range] of locations) {
+    const length = range.end - range.start;
+    if (offset >= range.start && offset <= range.end && length < foundLength) {
+      found = path;
+      foundLength = length;
+    }
+  }
+  return found;
+}
+
+/**
+ * Minimal JSON scanner reporting the range of each value with its path
+ */
+class JsonScanner {
+  private pos = 0;
+
+  constructor(
+    private readonly text: string,
+    private readonly onValue: (path: string, value: JsonRange, key?: JsonRange) => void
+  ) {}
+
+  scanDocument(rootPath: string): void {
+    this.scanValue(rootPath);
+    this.skipWhitespace();
+    if (this.pos < this.text.length) this.fail();
+  }
+
+  private scanValue(path: string, key?: JsonRange): void {
+    this.skipWhitespace();
+    const start = this.pos;
+    const char = this.text[this.pos];
+    if (char === '{') {
+      this.scanObject(path);
+    } else if (char === '[') {
+      this.scanArray(path);
+    } else if (char === '"') {
+      this.scanString();
+    } else {
+      const literal = /^(?:true|false|null|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(this.text.slice(this.pos, this.pos + 64));
+      if (!literal) this.fail();
+      this.pos += literal![0].length;
+    }
+    this.onValue(path, { start, end: this.pos }, key);
+  }
+
+  private scanObject(path: string): void {
+    this.pos++;
+    this.skipWhitespace();
+    if (this.text[this.pos] === '}') {
+      this.pos++;
+      return;
+    }
+    for (;;) {
+      this.skipWhitespace();
+      const keyStart = this.pos;
+      const key = this.scanString();
+      const keyRange = { start: keyStart, end: this.pos };
+      this.expect(':');
+      this.scanValue(`${path}.${key}`, keyRange);
+      this.skipWhitespace();
+      if (this.text[this.pos] === '}') {
+        this.pos++;
+        return;
+      }
+      this.expect(',');
+    }
+  }
+
+  private scanArray(path: string): void {
+    this.pos++;
+    this.skipWhitespace();
+    if (this.text[this.pos] === ']') {
+      this.pos++;
+      return;
+    }
+    for (let i = 0; ; i++) {
+      this.scanValue(`${path}[${i}]`);
+      this.skipWhitespace();
+      if (this.text[this.pos] === ']') {
+        this.pos++;
+        return;
+      }
+      this.expect(',');
+    }
+  }
+
+  private scanString(): string {
+    if (this.text[this.pos] !== '"') this.fail();
+    const start = this.pos;
+    for (this.pos++; this.pos < this.text.length; this.pos++) {
+      const char = this.text[this.pos];
+      if (char === '\\') {
+        this.pos++;
+      } else if (char === '"') {
+        this.pos++;
+        return JSON.parse(this.text.slice(start, this.pos));
+      }
+    }
+    return this.fail();
+  }
+
+  private expect(char: string): void {
+    this.skipWhitespace();
+    if (this.text[this.pos] !== char) this.fail();
+    this.pos++;
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.text[this.pos] || '')) this.pos++;
+  }
+
+  private fail(): never {
+    throw new SyntaxError(`Unexpected token at position ${this.pos}`);
+  }
+}
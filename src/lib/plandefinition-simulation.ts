@@ -0,0 +1,260 @@
+/**
+ * plandefinition-simulation.ts
+ * Runs a PlanDefinition against a test patient: evaluates the applicability
+ * conditions of its actions and traces the path a token takes through the diagram
+ */
+
+import { BpmnElement, isFlowNode } from './BpmnFactory';
+import { FhirAction, FhirResource } from './fhir-types';
+import { PlanDefinitionSource } from './plandefinition-to-bpmn';
+import { EvaluationContext, evaluateExpression, formatResult, toBoolean } from './fhirpath-evaluator';
+
+/**
+ * The resources of a test patient, as loaded from a Bundle or a single Patient
+ */
+export interface TestPatient {
+  patient: FhirResource;
+  resources: FhirResource[];
+  /** Name shown for the patient, e.g. "Jane Doe" */
+  name: string;
+}
+
+/**
+ * What the simulation decided about an action:
+ * - applicable: its conditions hold, or it has none
+ * - not-applicable: one of its applicability conditions does not hold
+ * - undetermined: a condition could not be evaluated, so the action is assumed to apply
+ * - not-selected: it applies, but its parent's selectionBehavior chose other actions
+ * - not-reached: its parent was not taken, so it was not evaluated
+ */
+export type ActionOutcome = 'applicable' | 'not-applicable' | 'undetermined' | 'not-selected' | 'not-reached';
+
+export interface ConditionResult {
+  /** FHIR path of the condition, e.g. PlanDefinition.action[1].condition[0] */
+  path: string;
+  expression: string;
+  /** Whether the condition holds, undefined when it could not be evaluated */
+  met?: boolean;
+  /** The evaluated collection, e.g. [false] or [ ] */
+  result?: string;
+  error?: string;
+}
+
+export interface ActionResult {
+  /** FHIR path of the action, as in the source map of the diagram */
+  path: string;
+  title: string;
+  /** Nesting depth, 0 for the actions of the PlanDefinition */
+  depth: number;
+  outcome: ActionOutcome;
+  conditions: ConditionResult[];
+}
+
+/**
+ * The path through the diagram: the elements the token passes in the order it
+ * reaches them, and the flow nodes and sequence flows it never reaches
+ */
+export interface SimulationTrace {
+  steps: string[];
+  skipped: string[];
+}
+
+// Outcomes of actions the token passes through
+const TAKEN_OUTCOMES: ActionOutcome[] = ['applicable', 'undetermined'];
+
+/**
+ * Reads a test patient from a Bundle, whose first Patient is the subject, or from a Patient
+ */
+export function loadTestPatient(resource: any): TestPatient {
+  const resources: FhirResource[] = resource?.resourceType === 'Bundle'
+    ? (resource.entry || []).map((entry: any) => entry?.resource).filter((r: any) => typeof r?.resourceType === 'string')
+    : [resource];
+  const patient = resources.find(r => r?.resourceType === 'Patient');
+  if (!patient) {
+    throw new Error(resource?.resourceType === 'Bundle' ? 'The Bundle contains no Patient' : 'Not a Patient or a Bundle');
+  }
+  return { patient, resources, name: getPatientName(patient) };
+}
+
+function getPatientName(patient: any): string {
+  const name = patient.name?.[0];
+  const text = name?.text || [...(name?.given || []), name?.family].filter(Boolean).join(' ');
+  return text || patient.id || 'Patient';
+}
+
+/**
+ * Evaluates the applicability conditions of every action of the PlanDefinitions
+ * against the test patient, walking the actions as the diagram does. Start,
+ * stop and trigger conditions are assumed to be met eventually.
+ */
+export function simulatePlanDefinitions(
+  sources: PlanDefinitionSource[],
+  testPatient: TestPatient,
+  now?: Date
+): ActionResult[] {
+  const context: EvaluationContext = { resources: testPatient.resources, subject: testPatient.patient, now };
+  const results: ActionResult[] = [];
+  for (const { planDefinition, path } of sources) {
+    simulateActions(context, planDefinition.action || [], path || 'PlanDefinition', 0, true, results);
+  }
+  return results;
+}
+
+/**
+ * Evaluates sibling actions, and their children when they are taken. The
+ * results of each action directly precede those of its children.
+ */
+function simulateActions(
+  context: EvaluationContext,
+  actions: FhirAction[],
+  parentPath: string,
+  depth: number,
+  reached: boolean,
+  results: ActionResult[],
+  selectionBehavior?: FhirAction['selectionBehavior']
+): void {
+  const siblings = actions.map((action, i): { result: ActionResult; action: FhirAction } => {
+    const path = `${parentPath}.action[${i}]`;
+    const result: ActionResult = {
+      path,
+      title: action.title || action.description || `Action ${i + 1}`,
+      depth,
+      outcome: 'not-reached',
+      conditions: []
+    };
+    if (reached) {
+      result.conditions = evaluateConditions(context, action, path);
+      result.outcome = getOutcome(result.conditions);
+    }
+    return { result, action };
+  });
+
+  // The first alternative that applies is selected, or all or none of them
+  const taken = siblings.filter(({ result }) => TAKEN_OUTCOMES.includes(result.outcome));
+  if (selectionBehavior === 'exactly-one' || selectionBehavior === 'at-most-one') {
+    taken.slice(1).forEach(({ result }) => { result.outcome = 'not-selected'; });
+  } else if (selectionBehavior === 'all-or-none' && taken.length < siblings.length) {
+    taken.forEach(({ result }) => { result.outcome = 'not-selected'; });
+  }
+
+  for (const { result, action } of siblings) {
+    results.push(result);
+    if (action.action && action.action.length > 0) {
+      simulateActions(context, action.action, result.path, depth + 1, TAKEN_OUTCOMES.includes(result.outcome),
+        results, action.selectionBehavior);
+    }
+  }
+}
+
+function evaluateConditions(context: EvaluationContext, action: FhirAction, path: string): ConditionResult[] {
+  const conditions: ConditionResult[] = [];
+  (action.condition || []).forEach((condition, i) => {
+    if (condition.kind && condition.kind !== 'applicability') return;
+
+    const expression = condition.expression?.expression || '';
+    const result: ConditionResult = { path: `${path}.condition[${i}]`, expression };
+    try {
+      if (!expression) throw new Error('The condition has no expression');
+      const value = evaluateExpression(expression, condition.expression?.language, context);
+      result.result = formatResult(value);
+      result.met = toBoolean(value) === true;
+    } catch (e: any) {
+      result.error = e.message;
+    }
+    conditions.push(result);
+  });
+  return conditions;
+}
+
+function getOutcome(conditions: ConditionResult[]): ActionOutcome {
+  if (conditions.some(condition => condition.met === false)) return 'not-applicable';
+  return conditions.some(condition => condition.met === undefined) ? 'undetermined' : 'applicable';
+}
+
+/**
+ * Follows the token from the start events of the processes through the
+ * generated elements. Decision gateways pass it on when their action is taken
+ * and along their default flow otherwise; selection gateways pass it to the
+ * alternatives that were selected; an event-based gateway waits for its first
+ * event. Sub-processes are run through before the token leaves them.
+ */
+export function traceSimulation(elements: BpmnElement[], results: ActionResult[]): SimulationTrace {
+  const outcomes = new Map(results.map(result => [result.path, result.outcome]));
+  const isTaken = (path: string | undefined) => {
+    const actionPath = path && getActionPath(path, outcomes);
+    return !actionPath || TAKEN_OUTCOMES.includes(outcomes.get(actionPath)!);
+  };
+
+  const outgoing = new Map<string, BpmnElement[]>();
+  for (const flow of elements.filter(e => e.type === 'sequenceFlow')) {
+    outgoing.set(flow.sourceRef!, [...(outgoing.get(flow.sourceRef!) || []), flow]);
+  }
+
+  const chooseFlows = (node: BpmnElement): BpmnElement[] => {
+    const flows = outgoing.get(node.id) || [];
+    if (flows.length <= 1 || node.type === 'parallelGateway' || !node.type.endsWith('Gateway')) return flows;
+    if (node.type === 'eventBasedGateway') return flows.slice(0, 1);
+
+    // Flows into an alternative are traced to that action; the others belong
+    // to the gateway's own action and bypass or enter all of its children
+    const nodeAction = node.sourcePath && getActionPath(node.sourcePath, outcomes);
+    const own = (flow: BpmnElement) => flow.sourcePath && getActionPath(flow.sourcePath, outcomes) === nodeAction;
+    const choice = flows.some(flow => flow.name === 'None') || !flows.every(own);
+    if (node.default && !choice) {
+      const taken = isTaken(node.sourcePath);
+      return flows.filter(flow => (flow.id === node.default) !== taken);
+    }
+
+    const alternatives = flows.filter(flow => !own(flow) && isTaken(flow.sourcePath));
+    const childTaken = results.some(result => nodeAction && getParentPath(result.path) === nodeAction &&
+      TAKEN_OUTCOMES.includes(result.outcome));
+    const bypass = flows.filter(flow => own(flow) && (flow.name === 'None') !== childTaken);
+    return [...alternatives, ...bypass];
+  };
+
+  const steps: string[] = [];
+  const visited = new Set<string>();
+  const byId = new Map(elements.map(element => [element.id, element]));
+  const run = (starts: BpmnElement[]) => {
+    const queue = [...starts];
+    starts.forEach(start => visited.add(start.id));
+    while (queue.length > 0) {
+      const node = queue.shift()!;
+      steps.push(node.id);
+      if (node.type === 'subProcess') {
+        run(elements.filter(e => e.parentId === node.id && e.type === 'startEvent'));
+      }
+      for (const flow of chooseFlows(node)) {
+        steps.push(flow.id);
+        const target = byId.get(flow.targetRef!);
+        if (target && !visited.has(target.id)) {
+          visited.add(target.id);
+          queue.push(target);
+        }
+      }
+    }
+  };
+  run(elements.filter(e => !e.parentId && e.type === 'startEvent'));
+
+  const stepSet = new Set(steps);
+  const skipped = elements
+    .filter(e => (e.type === 'sequenceFlow' || isFlowNode(e)) && !stepSet.has(e.id))
+    .map(e => e.id);
+  return { steps, skipped };
+}
+
+/**
+ * Finds the action a FHIR path belongs to, e.g. PlanDefinition.action[0] for
+ * PlanDefinition.action[0].trigger[1]
+ */
+function getActionPath(path: string, actions: Map<string, unknown>): string | undefined {
+  for (let end = path.length; end > 0; end = path.lastIndexOf('.', end - 1)) {
+    const candidate = path.substring(0, end);
+    if (actions.has(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+function getParentPath(path: string): string {
+  return path.substring(0, path.lastIndexOf('.action['));
+}
@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { convertPlanDefinitionToBpmn } from './plandefinition-to-bpmn';
+
+describe('convertPlanDefinitionToBpmn', () => {
+  describe('repetition', () => {
+    const convertAction = (action: object) =>
+      convertPlanDefinitionToBpmn({ resourceType: 'PlanDefinition', action: [action] });
+
+    it('models a repeat count as loop cardinality and not also as a timer cycle', () => {
+      const { model } = convertAction({
+        title: 'Dose',
+        timingTiming: { repeat: { count: 3, frequency: 1, period: 1, periodUnit: 'd' } }
+      });
+
+      const activity = model.elements.find(e => e.name === 'Dose')!;
+      expect(activity.loopCharacteristics).toEqual({ type: 'multiInstance', isSequential: true, loopCardinality: '3' });
+      const timers = model.elements.filter(e => e.eventDefinition?.type === 'timer').map(e => e.eventDefinition);
+      expect(timers).toEqual([{ type: 'timer', timeDuration: 'P1D' }]);
+    });
+
+    it('keeps the timer cycle of a repetition without a count or end', () => {
+      const { model } = convertAction({
+        title: 'Dose',
+        timingTiming: { repeat: { frequency: 1, period: 1, periodUnit: 'd' } }
+      });
+
+      expect(model.elements.some(e => e.eventDefinition?.timeCycle)).toBe(true);
+      expect(model.elements.find(e => e.name === 'Dose')!.loopCharacteristics).toEqual({ type: 'standard' });
+    });
+
+    it('reports multiple cardinality without a count', () => {
+      const { model, messages } = convertAction({ title: 'Order labs', cardinalityBehavior: 'multiple' });
+
+      expect(messages).toContainEqual(expect.objectContaining({
+        severity: 'warning',
+        code: 'unbounded-multi-instance',
+        path: 'PlanDefinition.action[0].cardinalityBehavior'
+      }));
+      expect(model.elements.find(e => e.name === 'Order labs')!.loopCharacteristics)
+        .toEqual({ type: 'multiInstance', isSequential: false });
+    });
+
+    it('does not report multiple cardinality when the timing gives a count', () => {
+      const { messages } = convertAction({
+        title: 'Order labs',
+        cardinalityBehavior: 'multiple',
+        timingTiming: { repeat: { count: 2 } }
+      });
+
+      expect(messages.map(m => m.code)).not.toContain('unbounded-multi-instance');
+    });
+  });
+
+  describe('selection', () => {
+    it('takes the branches of an inclusive choice only for the selected actions', () => {
+      const { model } = convertPlanDefinitionToBpmn({
+        resourceType: 'PlanDefinition',
+        action: [{ title: 'Tests', selectionBehavior: 'any', action: [{ title: 'HbA1c' }, { title: 'Lipids' }] }]
+      }, { conditionLanguage: 'feel' });
+
+      const split = model.elements.find(e => e.type === 'inclusiveGateway' && e.outgoing!.length > 1)!;
+      const branches = model.elements.filter(e => e.type === 'sequenceFlow' && e.sourceRef === split.id);
+      expect(branches).toHaveLength(3);
+      for (const flow of branches) {
+        expect(!!flow.conditionExpression).toBe(flow.id !== split.default);
+      }
+    });
+
+    it.each(['exactly-one', 'at-most-one', 'all-or-none'])('gives every branch of %s a condition or the default',
+      behavior => {
+        const { model, messages } = convertPlanDefinitionToBpmn({
+          resourceType: 'PlanDefinition',
+          action: [{ title: 'Tests', selectionBehavior: behavior, action: [{ title: 'HbA1c' }, { title: 'Lipids' }] }]
+        }, { exportProfile: 'zeebe' });
+
+        const split = model.elements.find(e => e.type === 'exclusiveGateway' && e.name?.startsWith('Select'))!;
+        const branches = model.elements.filter(e => e.type === 'sequenceFlow' && e.sourceRef === split.id);
+        for (const flow of branches) {
+          expect(!!flow.conditionExpression).toBe(flow.id !== split.default);
+        }
+        expect(split.default !== undefined).toBe(behavior !== 'exactly-one');
+        expect(messages.map(m => m.code)).not.toContain('zeebe-missing-condition');
+      });
+  });
+
+  describe('triggers', () => {
+    it('starts an ECA rule with the triggers of its first actions and waits for the others', () => {
+      const { model } = convertPlanDefinitionToBpmn({
+        resourceType: 'PlanDefinition',
+        type: { coding: [{ code: 'eca-rule' }] },
+        action: [
+          { title: 'Review', trigger: [{ type: 'named-event', name: 'patient-view' }] },
+          { title: 'Follow up', trigger: [{ type: 'named-event', name: 'order-sign' }] },
+          { title: 'Monitor', action: [{ title: 'Recheck', trigger: [{ type: 'named-event', name: 'lab-result' }] }] }
+        ]
+      });
+
+      expect(model.elements.filter(e => e.type === 'startEvent' && e.eventDefinition).map(e => e.name))
+        .toEqual(['patient-view']);
+      expect(model.elements.filter(e => e.type === 'intermediateEvent').map(e => e.name))
+        .toEqual(['order-sign', 'lab-result']);
+    });
+
+    it('starts an ECA rule with the triggers of every action it begins with', () => {
+      const { model } = convertPlanDefinitionToBpmn({
+        resourceType: 'PlanDefinition',
+        type: { coding: [{ code: 'eca-rule' }] },
+        action: [
+          { id: 'review', title: 'Review', trigger: [{ type: 'named-event', name: 'patient-view' }] },
+          {
+            title: 'Alert',
+            trigger: [{ type: 'named-event', name: 'order-select' }],
+            relatedAction: [{ actionId: 'review', relationship: 'concurrent-with-start' }]
+          }
+        ]
+      });
+
+      expect(model.elements.filter(e => e.type === 'startEvent' && e.eventDefinition).map(e => e.name))
+        .toEqual(['patient-view', 'order-select']);
+      expect(model.elements.some(e => e.type === 'intermediateEvent')).toBe(false);
+    });
+  });
+
+  describe('relationships', () => {
+    it('reports an ordering inside a concurrent group apart from a cycle', () => {
+      const { messages } = convertPlanDefinitionToBpmn({
+        resourceType: 'PlanDefinition',
+        action: [
+          { id: 'a', title: 'A', relatedAction: [{ actionId: 'b', relationship: 'concurrent' }] },
+          { id: 'b', title: 'B', relatedAction: [{ actionId: 'a', relationship: 'after-end' }] }
+        ]
+      });
+
+      expect(messages).toContainEqual(expect.objectContaining({
+        code: 'concurrent-relationship',
+        path: 'PlanDefinition.action[0]'
+      }));
+      expect(messages.map(m => m.code)).not.toContain('cyclic-relationship');
+    });
+
+    it('reports an ordering that closes a cycle', () => {
+      const { messages } = convertPlanDefinitionToBpmn({
+        resourceType: 'PlanDefinition',
+        action: [
+          { id: 'a', title: 'A', relatedAction: [{ actionId: 'b', relationship: 'after-end' }] },
+          { id: 'b', title: 'B', relatedAction: [{ actionId: 'a', relationship: 'after-end' }] }
+        ]
+      });
+
+      expect(messages.map(m => m.code)).toContain('cyclic-relationship');
+      expect(messages.map(m => m.code)).not.toContain('concurrent-relationship');
+    });
+  });
+
+  describe('Zeebe profile', () => {
+    it('reports multi-instance activities without a collection', () => {
+      const { messages } = convertPlanDefinitionToBpmn({
+        resourceType: 'PlanDefinition',
+        action: [{ title: 'Order labs', cardinalityBehavior: 'multiple' }]
+      }, { exportProfile: 'zeebe' });
+
+      expect(messages.map(m => m.code)).toContain('zeebe-missing-input-collection');
+    });
+  });
+
+  describe('lanes', () => {
+    it('gives nested participants lanes only outside sub-processes', () => {
+      const { model } = convertPlanDefinitionToBpmn({
+        resourceType: 'PlanDefinition',
+        action: [
+          { title: 'Triage', groupingBehavior: 'visual-group', action: [
+            { title: 'Vitals', participant: [{ role: { text: 'Nurse' } }] },
+            { title: 'Exam', participant: [{ role: { text: 'Physician' } }] }
+          ] },
+          { title: 'Medication', action: [
+            { title: 'Dispense', participant: [{ role: { text: 'Pharmacist' } }] },
+            { title: 'Administer', participant: [{ role: { text: 'Nurse' } }] }
+          ] }
+        ]
+      });
+
+      const laneNames = model.lanes.map(lane => lane.name);
+      expect(laneNames).toEqual(expect.arrayContaining(['Nurse', 'Physician']));
+      expect(laneNames).not.toContain('Pharmacist');
+      expect(model.lanes.every(lane => lane.flowNodeRefs.length > 0)).toBe(true);
+    });
+  });
+});
@@ -3,179 +3,1357 @@
  * Converts FHIR PlanDefinition to BPMN 2.0 XML
  */
 
-import { BpmnFactory, BpmnElement, BpmnDiElement } from './BpmnFactory';
+import {
+  BpmnFactory,
+  BpmnElement,
+  BpmnEventDefinition,
+  BpmnLane,
+  BpmnLoopCharacteristics,
+  BpmnSource,
+  isDataAssociation
+} from './BpmnFactory';
+import { BpmnDiElement, LayoutOrientation, layoutBpmn, stackPools } from './bpmn-layout';
+import {
+  FhirAction,
+  FhirActivityDefinition,
+  FhirCodeableConcept,
+  FhirDataRequirement,
+  FhirExpression,
+  FhirParticipant,
+  FhirPlanDefinition,
+  FhirResource,
+  FhirTriggerDefinition
+} from './fhir-types';
+import { ActionGraph, ActionOffset, buildActionGraph, ImplicitOrder } from './action-graph';
+import { TimerDefinition, describeTiming, durationToTimer, rangeToTimer, timingToTimerDefinition } from './fhir-timing';
+import { TaskTypeMapping, isPlanDefinitionCanonical, resolveTaskType } from './task-type-mapping';
+import { CanonicalResolver } from './canonical-resolver';
+import { ConditionLanguage, ExpressionTranslationError, translateExpression } from './expression-translator';
+import {
+  ExtensionElement,
+  MODELER_NAMESPACE,
+  ZEEBE_NAMESPACE,
+  ZEEBE_PLATFORM_VERSION,
+  findZeebeProblems,
+  getZeebeEventDefinition,
+  getZeebeExtensions,
+  getZeebeLoopExtensions,
+  getZeebeMessageExtensions,
+  toFeelExpression
+} from './zeebe-profile';
 
-interface FhirPlanDefinition {
-  resourceType: string;
-  id?: string;
-  title?: string;
-  description?: string;
-  action?: FhirAction[];
+/**
+ * Engine the BPMN is made executable for: plain BPMN 2.0, or Camunda 8 with the
+ * Zeebe extension elements it needs to deploy the process
+ */
+export type ExportProfile = 'bpmn' | 'zeebe';
+
+export interface ConversionOptions {
+  /** Draw actions with nested actions as collapsed sub-processes you can drill into */
+  collapseSubProcesses?: boolean;
+  /** Direction the process flows in, left-to-right by default */
+  orientation?: LayoutOrientation;
+  /** Rules for choosing task types, defaults to DEFAULT_TASK_TYPE_MAPPING */
+  taskTypeMapping?: TaskTypeMapping;
+  /** Looks up definitionCanonical references; contained resources are always searched */
+  resolver?: CanonicalResolver;
+  /** Engine extensions to add, plain BPMN 2.0 by default */
+  exportProfile?: ExportProfile;
+  /** Translate FHIRPath and CQL conditions to this language; kept as written by default, FEEL for Zeebe */
+  conditionLanguage?: ConditionLanguage;
+}
+
+/**
+ * State shared by all steps of a single conversion
+ */
+interface ConversionContext {
+  factory: BpmnFactory;
+  options: ConversionOptions;
+  planDefinition: FhirPlanDefinition;
+  /** FHIR path of the PlanDefinition, e.g. PlanDefinition or Bundle.entry[0].resource */
+  rootPath: string;
+  resolver: CanonicalResolver;
+  /** Whether any action has participants, so the process is partitioned into lanes */
+  useLanes: boolean;
+  /** Keys of the data that actions output; other inputs come from outside the process */
+  outputData: Set<string>;
+  messages: ConversionMessage[];
+  statistics: ConversionStatistics;
+}
+
+/**
+ * Links the generated BPMN elements to the FHIR elements they were generated from
+ */
+export interface BpmnSourceMap {
+  /** FHIR path of each BPMN element, by element id */
+  paths: Record<string, string>;
+  /** Main BPMN element of each FHIR path: its activity, or else its first element */
+  elements: Record<string, string>;
+}
+
+/**
+ * Something the diagram does not show as written in the PlanDefinition
+ */
+export interface ConversionMessage {
+  severity: 'warning' | 'info';
+  /** Stable identifier of the kind of message, e.g. unsupported-element */
+  code: string;
+  /** FHIR path of the element the message is about */
+  path: string;
+  message: string;
+}
+
+export interface ConversionStatistics {
+  /** Actions converted, including nested ones */
+  actions: number;
+  /** Elements of the PlanDefinition and its actions that the diagram shows */
+  mappedElements: number;
+  /** Elements of the PlanDefinition and its actions that the diagram leaves out */
+  ignoredElements: number;
+  /** Generated BPMN elements by type, e.g. { userTask: 3, sequenceFlow: 7 } */
+  bpmnElements: Record<string, number>;
+}
+
+/**
+ * The BPMN model the XML is generated from
+ */
+export interface BpmnModel {
+  elements: BpmnElement[];
+  lanes: BpmnLane[];
+  /** Pools of the collaboration, empty when the process is not drawn in one */
+  participants: BpmnParticipant[];
+  diagram: BpmnDiElement[];
+}
+
+export interface BpmnParticipant {
+  id: string;
+  name: string;
+  processRef: string;
+}
+
+/**
+ * A PlanDefinition to convert, with where it is in the input
+ */
+export interface PlanDefinitionSource {
+  planDefinition: FhirPlanDefinition;
+  /** FHIR path of the PlanDefinition, PlanDefinition by default */
+  path?: string;
+}
+
+export interface ConversionResult {
+  xml: string;
+  model: BpmnModel;
+  sourceMap: BpmnSourceMap;
+  messages: ConversionMessage[];
+  statistics: ConversionStatistics;
+}
+
+const DEFAULT_LANE_NAME = 'Unassigned';
+
+/**
+ * A condition as it is written into the BPMN, with its expression language
+ */
+interface Condition {
+  expression: string;
+  language?: string;
 }
 
-interface FhirAction {
-  id?: string;
-  title?: string;
+// Namespace of the fhir:path attribute that traces each element back to the PlanDefinition
+const FHIR_PATH_NAMESPACE = 'https://github.com/gjergjsheldija/plandefinition-to-bpmn/fhir';
+/**
+ * A converted PlanDefinition, before it is written as XML
+ */
+interface ProcessDefinition {
+  id: string;
+  name: string;
   description?: string;
-  textEquivalent?: string;
-  documentation?: Array<{
-    type?: string;
-    display?: string;
-  }>;
-  trigger?: Array<{
-    type?: string;
-    name?: string;
-  }>;
-  condition?: Array<{
-    kind?: string;
-    expression?: {
-      language?: string;
-      expression?: string;
-    };
-  }>;
-  relatedAction?: Array<{
-    actionId?: string;
-    relationship?: string;
-  }>;
-  type?: {
-    coding?: Array<{
-      system?: string;
-      code?: string;
-      display?: string;
-    }>;
+  sourcePath: string;
+  /** Pool the process is drawn in, if any */
+  participantId?: string;
+  /** Prepended to the ids of the process's own elements */
+  idPrefix: string;
+  elements: BpmnElement[];
+  lanes: BpmnLane[];
+  diagram: BpmnDiElement[];
+}
+
+/**
+ * Converts a FHIR PlanDefinition to BPMN 2.0 XML, together with the model it was
+ * generated from, a map back to the FHIR paths and what was left out
+ */
+export function convertPlanDefinitionToBpmn(planDefinition: any, options: ConversionOptions = {}): ConversionResult {
+  return convertPlanDefinitionsToBpmn([{ planDefinition }], options);
+}
+
+/**
+ * Converts several PlanDefinitions into one BPMN document. Each becomes its own
+ * process; with more than one, every process is drawn as a pool of a collaboration.
+ */
+export function convertPlanDefinitionsToBpmn(
+  sources: PlanDefinitionSource[],
+  options: ConversionOptions = {}
+): ConversionResult {
+  if (sources.length === 0) {
+    throw new Error('No PlanDefinition to convert');
+  }
+
+  const collaborating = sources.length > 1;
+  const processIds = new Set<string>();
+  const contexts: ConversionContext[] = [];
+  const processes = sources.map(({ planDefinition, path }, idx) => {
+    // Process ids must be unique across the document
+    let processId = planDefinition?.id || `Process_${idx + 1}`;
+    for (let n = 2; processIds.has(processId); n++) {
+      processId = `${planDefinition.id || 'Process'}_${n}`;
+    }
+    processIds.add(processId);
+
+    const scope = collaborating
+      ? { processId, idPrefix: `P${idx + 1}_`, participantId: `Participant_${idx + 1}` }
+      : { processId, idPrefix: '' };
+    const context = createContext(planDefinition, path || 'PlanDefinition', scope.idPrefix, options);
+    contexts.push(context);
+    return buildProcess(context, scope);
+  });
+
+  const diagram = collaborating
+    ? stackPools(processes.map(p => ({ participantId: p.participantId!, diagram: p.diagram })), options.orientation)
+    : processes[0].diagram;
+  const elements = processes.flatMap(p => p.elements);
+  const statistics: ConversionStatistics = { actions: 0, mappedElements: 0, ignoredElements: 0, bpmnElements: {} };
+  for (const context of contexts) {
+    statistics.actions += context.statistics.actions;
+    statistics.mappedElements += context.statistics.mappedElements;
+    statistics.ignoredElements += context.statistics.ignoredElements;
+  }
+  for (const element of elements) {
+    statistics.bpmnElements[element.type] = (statistics.bpmnElements[element.type] || 0) + 1;
+  }
+
+  return {
+    xml: generateBpmnXml(processes, diagram, options.exportProfile),
+    model: {
+      elements,
+      lanes: processes.flatMap(p => p.lanes),
+      participants: processes
+        .filter(p => p.participantId)
+        .map(p => ({ id: p.participantId!, name: p.name, processRef: p.id })),
+      diagram
+    },
+    sourceMap: buildSourceMap(elements),
+    messages: contexts.flatMap(context => context.messages),
+    statistics
+  };
+}
+
+function createContext(
+  planDefinition: any,
+  rootPath: string,
+  idPrefix: string,
+  options: ConversionOptions
+): ConversionContext {
+  // Validate input
+  if (!planDefinition || planDefinition.resourceType !== 'PlanDefinition') {
+    throw new Error(`Invalid PlanDefinition at ${rootPath}: resourceType must be "PlanDefinition"`);
+  }
+
+  return {
+    factory: new BpmnFactory(idPrefix),
+    options,
+    planDefinition,
+    rootPath,
+    resolver: options.resolver || new CanonicalResolver(),
+    useLanes: false,
+    outputData: new Set(),
+    messages: [],
+    statistics: { actions: 0, mappedElements: 0, ignoredElements: 0, bpmnElements: {} }
   };
-  dynamicValue?: Array<{
-    path?: string;
-    expression?: {
-      language?: string;
-      expression?: string;
-    };
-  }>;
-  action?: FhirAction[]; // Nested actions
 }
 
 /**
- * Converts a FHIR PlanDefinition to BPMN 2.0 XML
+ * Converts the PlanDefinition of a context into a laid out process
  */
-export function convertPlanDefinitionToBpmn(planDefinition: any): string {
-  try {
-    // Validate input
-    if (!planDefinition || planDefinition.resourceType !== 'PlanDefinition') {
-      throw new Error('Invalid PlanDefinition: resourceType must be "PlanDefinition"');
+function buildProcess(
+  context: ConversionContext,
+  scope: { processId: string; idPrefix: string; participantId?: string }
+): ProcessDefinition {
+  const { factory, options, planDefinition, rootPath } = context;
+  const processSource: BpmnSource = { key: 'process', path: rootPath };
+  factory.setCurrentSource(processSource);
+  reportUnsupportedElements(context, planDefinition, rootPath, MAPPED_PLAN_DEFINITION_ELEMENTS, 'info');
+  context.useLanes = hasParticipants(context, planDefinition.action || []);
+  context.outputData = collectOutputData(planDefinition.action || []);
+
+  let actions: FhirAction[] = planDefinition.action || [];
+
+  // In ECA rules the triggers of the actions the process begins with start it.
+  // Top-level actions that follow another action are reached only after it, so
+  // unlike their predecessors' triggers theirs are caught in the flow, as nested ones are
+  let startEventIds: string[] = [];
+  if (isEcaRule(planDefinition)) {
+    const graph = buildActionGraph(actions);
+    const firstActions = new Set(graph.order
+      .filter(g => graph.predecessors[g].length === 0)
+      .flatMap(g => graph.groups[g]));
+    startEventIds = actions.flatMap((action, i) => {
+      if (!firstActions.has(i)) return [];
+      factory.setCurrentSource(getActionSource(action, `${rootPath}.action[${i}]`));
+      return (action.trigger || []).map((trigger, j) => factory.createStartEvent(
+        getTriggerLabel(trigger),
+        getTriggerEventDefinition(context, trigger, `${rootPath}.action[${i}].trigger[${j}]`)
+      ));
+    });
+    factory.setCurrentSource(processSource);
+    if (startEventIds.length > 0) {
+      actions = actions.map((action, i) => firstActions.has(i) ? { ...action, trigger: undefined } : action);
     }
+  }
 
-    const factory = new BpmnFactory();
-    const processId = planDefinition.id || 'Process_1';
-    const processName = planDefinition.title || 'PlanDefinition Process';
-    const processDescription = planDefinition.description;
+  // Create start event
+  if (startEventIds.length === 0) {
+    startEventIds = [factory.createStartEvent()];
+  }
+  let lastElementId = mergeAlternatives(factory, startEventIds);
 
-    // Create start event
-    const startEventId = factory.createStartEvent();
-    let lastElementId = startEventId;
+  // Process actions
+  if (actions.length > 0) {
+    lastElementId = processActions(context, actions, rootPath, lastElementId);
+  } else {
+    addMessage(context, 'warning', 'no-actions', rootPath, 'PlanDefinition has no actions');
+  }
 
-    // Process actions
-    if (planDefinition.action && planDefinition.action.length > 0) {
-      lastElementId = processActions(factory, planDefinition.action, lastElementId);
-    } else {
-      console.warn('PlanDefinition has no actions');
+  // Create end event
+  const endEventId = factory.createEndEvent();
+  factory.createSequenceFlow(lastElementId, endEventId);
+
+  factory.assignLanes(DEFAULT_LANE_NAME);
+
+  // Lay out the diagram
+  const bpmnJson = factory.getBpmnJson();
+  if (options.exportProfile === 'zeebe') {
+    for (const problem of findZeebeProblems(bpmnJson.elements)) {
+      addMessage(context, 'warning', problem.code, problem.element.sourcePath || rootPath, problem.message);
     }
+  }
+  const diElements = layoutBpmn(bpmnJson.elements, bpmnJson.lanes, {
+    orientation: options.orientation,
+    collapseSubProcesses: options.collapseSubProcesses,
+    participantId: scope.participantId
+  });
+
+  return {
+    id: scope.processId,
+    name: planDefinition.title || 'PlanDefinition Process',
+    description: planDefinition.description,
+    sourcePath: rootPath,
+    // Lanes can only be drawn inside a pool, so the process gets a participant
+    participantId: scope.participantId || (bpmnJson.lanes.length > 0 ? 'Participant_1' : undefined),
+    idPrefix: scope.idPrefix,
+    elements: bpmnJson.elements,
+    lanes: bpmnJson.lanes,
+    diagram: diElements
+  };
+}
 
-    // Create end event
-    const endEventId = factory.createEndEvent('temp_incoming');
-    factory.createSequenceFlow(lastElementId, endEventId);
+// Elements the diagram shows; PlanDefinition metadata is not counted at all
+const MAPPED_PLAN_DEFINITION_ELEMENTS = ['resourceType', 'id', 'title', 'description', 'type', 'contained', 'action'];
+const PLAN_DEFINITION_METADATA = ['meta', 'implicitRules', 'language', 'text', 'url', 'identifier', 'version',
+  'name', 'subtitle', 'status', 'experimental', 'date', 'publisher', 'contact', 'useContext', 'jurisdiction',
+  'purpose', 'usage', 'copyright', 'approvalDate', 'lastReviewDate', 'effectivePeriod', 'topic', 'author',
+  'editor', 'reviewer', 'endorser'];
+const MAPPED_ACTION_ELEMENTS = ['id', 'title', 'description', 'textEquivalent', 'type', 'trigger', 'condition',
+  'dynamicValue', 'documentation', 'relatedAction', 'participant', 'groupingBehavior', 'selectionBehavior',
+  'cardinalityBehavior', 'definitionCanonical', 'input', 'output', 'action', 'timingDateTime', 'timingAge', 'timingPeriod', 'timingDuration', 'timingRange',
+  'timingTiming'];
 
-    // Generate BPMN XML
-    const bpmnJson = factory.getBpmnJson();
-    return generateBpmnXml(processId, processName, processDescription, bpmnJson.elements, bpmnJson.diElements);
-  } catch (error) {
-    console.error('Error converting PlanDefinition to BPMN:', error);
-    throw error;
+/**
+ * Records a message about the conversion
+ */
+function addMessage(
+  context: ConversionContext,
+  severity: ConversionMessage['severity'],
+  code: string,
+  path: string,
+  message: string
+): void {
+  context.messages.push({ severity, code, path, message });
+}
+
+/**
+ * Counts the mapped elements of a PlanDefinition or action and reports the
+ * ones the diagram leaves out
+ */
+function reportUnsupportedElements(
+  context: ConversionContext,
+  element: object,
+  path: string,
+  mappedElements: string[],
+  severity: ConversionMessage['severity']
+): void {
+  for (const name of Object.keys(element)) {
+    if (mappedElements.includes(name)) {
+      context.statistics.mappedElements++;
+    } else if (!(path === context.rootPath && PLAN_DEFINITION_METADATA.includes(name))) {
+      context.statistics.ignoredElements++;
+      addMessage(context, severity, 'unsupported-element', `${path}.${name}`, `${name} is not shown in the diagram`);
+    }
   }
 }
 
+const ACTIVITY_TYPES = ['task', 'userTask', 'serviceTask', 'scriptTask', 'businessRuleTask', 'manualTask',
+  'sendTask', 'receiveTask', 'callActivity', 'subProcess'];
+
 /**
- * Processes an array of FHIR actions and creates corresponding BPMN elements
+ * Builds the source map of the generated elements. Lanes are left out, as they
+ * stand for participants rather than for a single action.
+ */
+function buildSourceMap(elements: BpmnElement[]): BpmnSourceMap {
+  const sourceMap: BpmnSourceMap = { paths: {}, elements: {} };
+  const pathsWithActivity = new Set<string>();
+  for (const element of elements) {
+    const path = element.sourcePath;
+    if (!path) continue;
+    sourceMap.paths[element.id] = path;
+
+    if (ACTIVITY_TYPES.includes(element.type)) {
+      if (pathsWithActivity.has(path)) continue;
+      pathsWithActivity.add(path);
+      sourceMap.elements[path] = element.id;
+    } else if (!sourceMap.elements[path]) {
+      sourceMap.elements[path] = element.id;
+    }
+  }
+  return sourceMap;
+}
+
+/**
+ * Processes an array of sibling FHIR actions and creates corresponding BPMN elements.
+ * Actions are ordered by their relatedAction dependency graph; concurrent actions
+ * and independent branches are wrapped in parallel split and join gateways.
  */
 function processActions(
-  factory: BpmnFactory,
+  context: ConversionContext,
+  actions: FhirAction[],
+  parentPath: string,
+  previousElementId: string,
+  implicitOrder: ImplicitOrder = 'sequential'
+): string {
+  const { factory } = context;
+  const graph = buildActionGraph(actions, implicitOrder);
+  const exits = new Map<number, string>();
+  reportRelationshipProblems(context, actions, parentPath, graph.ignored);
+
+  const roots = graph.order.filter(g => graph.predecessors[g].length === 0);
+  const start = fanOut(factory, previousElementId, roots.length);
+
+  const containerSource = factory.getCurrentSource();
+  for (const g of graph.order) {
+    const members = graph.groups[g];
+    const paths = members.map(i => `${parentPath}.action[${i}]`);
+
+    // Gateways around a group are traced back to its first action
+    factory.setCurrentSource(getActionSource(actions[members[0]], paths[0]));
+
+    // Offsets wait on the branch from their predecessor, before the branches join
+    const predecessors = graph.predecessors[g];
+    const entry = predecessors.length === 0
+      ? start
+      : joinBranches(factory, predecessors.map(p => {
+        const offset = graph.offsets.find(o => o.from === p && o.to === g);
+        return offset ? processOffset(context, actions, parentPath, offset, exits.get(p)!) : exits.get(p)!;
+      }));
+
+    // Concurrent actions run as parallel branches between a split and a join
+    const memberStart = fanOut(factory, entry, members.length);
+    const memberExits = members.map((i, m) => processAction(context, actions[i], i, paths[m], memberStart));
+    const exit = joinBranches(factory, memberExits);
+
+    exits.set(g, fanOut(factory, exit, graph.successors[g].length));
+  }
+  factory.setCurrentSource(containerSource);
+
+  const sinks = graph.order.filter(g => graph.successors[g].length === 0);
+  return joinBranches(factory, sinks.map(g => exits.get(g)!));
+}
+
+/**
+ * Creates the timer event that holds an action back by the offsetDuration or
+ * offsetRange of a relationship, e.g. "wait 4 weeks" after the first dose.
+ * Ranges wait for their lower bound.
+ */
+function processOffset(
+  context: ConversionContext,
   actions: FhirAction[],
+  parentPath: string,
+  offset: ActionOffset,
   previousElementId: string
 ): string {
+  const { factory } = context;
+  const related = actions[offset.action].relatedAction![offset.relatedAction];
+  const path = `${parentPath}.action[${offset.action}].relatedAction[${offset.relatedAction}]`;
+  const timer = related.offsetDuration ? durationToTimer(related.offsetDuration) : rangeToTimer(related.offsetRange);
+  if (!timer) {
+    addMessage(context, 'warning', 'unsupported-timing', path,
+      'The offset is not a duration in a unit of time and is not shown in the diagram');
+    return previousElementId;
+  }
+
+  const previousSource = factory.getCurrentSource();
+  factory.setCurrentSource({ key: getActionSource(actions[offset.action], path).key, path });
+  const eventId = factory.createIntermediateEvent(`wait ${timer.text}`, undefined,
+    { type: 'timer', timeDuration: timer.timeDuration });
+  factory.createSequenceFlow(previousElementId, eventId);
+  factory.setCurrentSource(previousSource);
+  return eventId;
+}
+
+/**
+ * Reports relatedAction entries that do not point at a sibling, and the
+ * relationships the action graph dropped because they would close a cycle or
+ * order actions that also run concurrently
+ */
+function reportRelationshipProblems(
+  context: ConversionContext,
+  actions: FhirAction[],
+  parentPath: string,
+  ignored: ActionGraph['ignored']
+): void {
+  const siblingIds = new Set(actions.map(action => action.id).filter(Boolean));
+  actions.forEach((action, i) => {
+    (action.relatedAction || []).forEach((related, r) => {
+      if (!siblingIds.has(related.actionId)) {
+        addMessage(context, 'warning', 'unresolved-relationship', `${parentPath}.action[${i}].relatedAction[${r}]`,
+          `No sibling action has the id "${related.actionId}", so the relationship is ignored`);
+      }
+    });
+  });
+
+  for (const { from, to, reason } of ignored) {
+    if (reason === 'concurrent') {
+      addMessage(context, 'warning', 'concurrent-relationship', `${parentPath}.action[${from}]`,
+        `"${actions[from].id}" is ordered before "${actions[to].id}" but also runs concurrently with it, ` +
+        'so the ordering is ignored');
+    } else {
+      addMessage(context, 'warning', 'cyclic-relationship', `${parentPath}.action[${from}]`,
+        `The ordering of "${actions[from].id}" before "${actions[to].id}" would close a cycle and is ignored`);
+    }
+  }
+}
+
+/**
+ * Splits the flow into parallel branches when more than one branch follows
+ */
+function fanOut(factory: BpmnFactory, sourceId: string, branchCount: number): string {
+  if (branchCount <= 1) return sourceId;
+
+  const splitId = factory.createParallelGateway();
+  factory.createSequenceFlow(sourceId, splitId);
+  return splitId;
+}
+
+/**
+ * Merges parallel branches back into a single flow
+ */
+function joinBranches(factory: BpmnFactory, branchExitIds: string[]): string {
+  if (branchExitIds.length === 1) return branchExitIds[0];
+
+  const joinId = factory.createParallelGateway();
+  branchExitIds.forEach(exitId => factory.createSequenceFlow(exitId, joinId));
+  return joinId;
+}
+
+/**
+ * Creates the BPMN elements for a single action and its nested actions,
+ * placed in the lane of the action's participants
+ */
+function processAction(
+  context: ConversionContext,
+  action: FhirAction,
+  index: number,
+  path: string,
+  previousElementId: string
+): string {
+  const { factory } = context;
+  const previousLane = factory.getCurrentLane();
+  const previousSource = factory.getCurrentSource();
+  factory.setCurrentSource(getActionSource(action, path));
+  context.statistics.actions++;
+  reportUnsupportedElements(context, action, path, MAPPED_ACTION_ELEMENTS, 'warning');
+  if (context.useLanes) {
+    factory.setCurrentLane(factory.getOrCreateLane(getActionLaneName(context, action) || DEFAULT_LANE_NAME));
+  }
+
+  const exitId = processActionElements(context, action, index, previousElementId);
+
+  factory.setCurrentLane(previousLane);
+  factory.setCurrentSource(previousSource);
+  return exitId;
+}
+
+/**
+ * Identifies an action for the BPMN elements generated from it. Ids derive from
+ * the action id, or from the action's position when it has none.
+ */
+function getActionSource(action: FhirAction, path: string): BpmnSource {
+  const relativePath = path.slice(path.indexOf('.action[') + 1);
+  const key = action.id || relativePath.replace(/\[(\d+)\]/g, '_$1').replace(/\./g, '_');
+  return { key, path };
+}
+
+/**
+ * Creates the trigger events, condition gateways and activity of an action
+ */
+function processActionElements(
+  context: ConversionContext,
+  action: FhirAction,
+  index: number,
+  previousElementId: string
+): string {
+  const { factory } = context;
   let lastElementId = previousElementId;
+  // Resolved once: the activity, its documentation and its data all draw on it
+  const resolvedDefinition = resolveDefinition(context, action);
+  const definition = toActivityDefinition(resolvedDefinition);
+  const definitionName = definition && (definition.title || getConceptText(definition.code) || definition.name);
+  const actionName = action.title || definitionName || action.description || `Action ${index + 1}`;
+  if (!action.title && !definitionName && !action.description) {
+    addMessage(context, 'info', 'untitled-action', factory.getCurrentSource()!.path,
+      `Action has no title or description and is labelled "${actionName}"`);
+  }
+
+  // Build documentation from various fields
+  const documentation = buildActionDocumentation(action, definition);
+
+  // Check if action has triggers (create typed intermediate events)
+  if (action.trigger && action.trigger.length > 0) {
+    lastElementId = processTriggers(context, action.trigger, lastElementId, documentation);
+  }
+
+  const conditions = action.condition || [];
+  const applicabilityConditions = conditions.filter(c => !c.kind || c.kind === 'applicability');
+  const startConditions = conditions.filter(c => c.kind === 'start');
+  const stopConditions = conditions.filter(c => c.kind === 'stop');
+
+  // All applicability conditions guard a single decision gateway
+  const actionPath = factory.getCurrentSource()!.path;
+  let decisionGatewayId: string | undefined;
+  let condition: Condition | undefined;
+  let flowName: string | undefined;
+  if (applicabilityConditions.length > 0) {
+    const combinedExpression = combineConditionExpressions(applicabilityConditions);
+    const conditionText = combinedExpression?.expression || 'Check Condition';
 
-  for (let i = 0; i < actions.length; i++) {
-    const action = actions[i];
-    const actionName = action.title || action.description || `Action ${i + 1}`;
-
-    // Build documentation from various fields
-    const documentation = buildActionDocumentation(action);
-
-    // Check if action has triggers (create intermediate event)
-    if (action.trigger && action.trigger.length > 0) {
-      const triggerNames = action.trigger.map(t => t.name || t.type).filter(Boolean).join(', ');
-      const eventId = factory.createIntermediateEvent(
-        `Trigger: ${triggerNames}`,
-        'temp_incoming',
-        documentation
-      );
-      factory.createSequenceFlow(lastElementId, eventId);
-      lastElementId = eventId;
+    // Create exclusive gateway for conditional logic
+    const gatewayId = factory.createExclusiveGateway(`Decision: ${conditionText}`);
+
+    // Create flow to gateway
+    factory.createSequenceFlow(lastElementId, gatewayId);
+
+    // The action itself is reached when the condition is true
+    lastElementId = gatewayId;
+    decisionGatewayId = gatewayId;
+    condition = combinedExpression && translateCondition(context, combinedExpression, `${actionPath}.condition`);
+    flowName = 'Yes';
+  }
+
+  // The timing of an action holds it back until it is due
+  const timing = getActionTiming(action);
+  if (timing) {
+    const eventId = factory.createIntermediateEvent(timing.label, undefined, { type: 'timer', ...timing.timer });
+    factory.createSequenceFlow(lastElementId, eventId, condition?.expression, flowName, condition?.language);
+    lastElementId = eventId;
+    condition = undefined;
+    flowName = undefined;
+  } else if (hasTiming(action)) {
+    addMessage(context, 'warning', 'unsupported-timing', actionPath,
+      'The timing of the action cannot be expressed as a BPMN timer and is not shown in the diagram');
+  }
+
+  // Start conditions hold the action back until they become true
+  for (const startCondition of startConditions) {
+    const eventId = factory.createIntermediateEvent(
+      `Wait until: ${startCondition.expression?.expression || 'start condition'}`,
+      undefined,
+      getConditionalEventDefinition(context, startCondition.expression, `${actionPath}.condition[${conditions.indexOf(startCondition)}]`)
+    );
+    factory.createSequenceFlow(lastElementId, eventId, condition?.expression, flowName, condition?.language);
+    lastElementId = eventId;
+    condition = undefined;
+    flowName = undefined;
+  }
+
+  const { activityId, exitId } = processActionBody(
+    context, action, actionName, documentation, resolvedDefinition, lastElementId, condition, flowName
+  );
+
+  processActionData(context, action, definition, activityId);
+
+  const loopCharacteristics = getLoopCharacteristics(context, action);
+  if (loopCharacteristics) {
+    factory.setLoopCharacteristics(activityId, loopCharacteristics);
+  }
+
+  // Stop conditions interrupt the running activity
+  const stopEventIds = stopConditions.map(stopCondition => factory.createBoundaryEvent(
+    activityId,
+    `Stop when: ${stopCondition.expression?.expression || 'stop condition'}`,
+    getConditionalEventDefinition(context, stopCondition.expression, `${actionPath}.condition[${conditions.indexOf(stopCondition)}]`)
+  ));
+
+  if (!decisionGatewayId && stopEventIds.length === 0) {
+    return exitId;
+  }
+
+  // Skipped, stopped and completed paths all continue from one merge point
+  const mergeGatewayId = factory.createExclusiveGateway('');
+  factory.createSequenceFlow(exitId, mergeGatewayId);
+  stopEventIds.forEach(eventId => factory.createSequenceFlow(eventId, mergeGatewayId));
+
+  // When the condition is not met the action and its children are skipped
+  if (decisionGatewayId) {
+    const skipFlowId = factory.createSequenceFlow(decisionGatewayId, mergeGatewayId, undefined, 'No');
+    factory.setDefaultFlow(decisionGatewayId, skipFlowId);
+  }
+
+  return mergeGatewayId;
+}
+
+/**
+ * Decides how often an action runs. A repeating timing runs it again and again:
+ * as many sequential instances as its count, until the end of its bounds, or
+ * as an open-ended loop. Otherwise an action that may be selected multiple
+ * times runs as parallel instances.
+ */
+function getLoopCharacteristics(context: ConversionContext, action: FhirAction): BpmnLoopCharacteristics | undefined {
+  const repeat = action.timingTiming?.repeat;
+  if (repeat) {
+    if (repeat.count !== undefined) {
+      return { type: 'multiInstance', isSequential: true, loopCardinality: String(repeat.count) };
     }
+    const end = repeat.boundsPeriod?.end;
+    if (end) {
+      // A date ends the loop when the day is over, a date and time when it is reached
+      const expression = end.includes('T') ? `now() >= @${end}` : `today() > @${end}`;
+      const path = `${context.factory.getCurrentSource()!.path}.timingTiming.repeat.boundsPeriod.end`;
+      const completionCondition = translateCondition(context, { language: 'text/fhirpath', expression }, path)!.expression;
+      return { type: 'multiInstance', isSequential: true, completionCondition };
+    }
+    return { type: 'standard' };
+  }
 
-    // Check if action has conditions (create gateway)
-    if (action.condition && action.condition.length > 0) {
-      const condition = action.condition[0];
-      const conditionText = condition.expression?.expression || 'Check Condition';
-      
-      // Create exclusive gateway for conditional logic
-      const gatewayId = factory.createExclusiveGateway(
-        `Decision: ${conditionText}`,
-        'temp_incoming'
-      );
-      
-      // Create flow to gateway
-      factory.createSequenceFlow(lastElementId, gatewayId);
+  if (action.cardinalityBehavior === 'multiple') {
+    addMessage(context, 'warning', 'unbounded-multi-instance', `${context.factory.getCurrentSource()!.path}.cardinalityBehavior`,
+      'The action may be performed multiple times, but nothing says how many, so an engine cannot run its multi-instance activity as generated');
+    return { type: 'multiInstance', isSequential: false };
+  }
+  return undefined;
+}
 
-      // Create task after gateway (when condition is true)
-      const taskId = factory.createTask(actionName, 'temp_incoming', documentation);
-      
-      // Create conditional flow from gateway to task
-      factory.createSequenceFlow(
-        gatewayId,
-        taskId,
-        condition.expression?.expression,
-        'Yes'
-      );
-
-      lastElementId = taskId;
-
-      // Handle nested actions
-      if (action.action && action.action.length > 0) {
-        lastElementId = processActions(factory, action.action, lastElementId);
-      }
-    } else {
-      // Create simple task
-      const taskId = factory.createTask(actionName, 'temp_incoming', documentation);
-      
-      // Create flow to task
-      factory.createSequenceFlow(lastElementId, taskId);
+/**
+ * Checks whether the timing of an action repeats it a number of times or until
+ * an end, which the action's multi-instance marker then models
+ */
+function isBoundedRepeat(action: FhirAction): boolean {
+  const repeat = action.timingTiming?.repeat;
+  return !!repeat && (repeat.count !== undefined || !!repeat.boundsPeriod?.end);
+}
+
+/**
+ * Maps the timing[x] of an action to a timer with a label in words.
+ * Durations and ranges wait from when the action is reached; an age has no
+ * birth date to count from in BPMN, so it also becomes a duration.
+ */
+function getActionTiming(action: FhirAction): { label: string; timer: TimerDefinition } | undefined {
+  if (action.timingDuration || action.timingRange) {
+    const timer = action.timingDuration ? durationToTimer(action.timingDuration) : rangeToTimer(action.timingRange);
+    return timer && { label: `wait ${timer.text}`, timer: { timeDuration: timer.timeDuration } };
+  }
+  if (action.timingAge) {
+    const timer = durationToTimer(action.timingAge);
+    return timer && { label: `at age ${timer.text}`, timer: { timeDuration: timer.timeDuration } };
+  }
+  if (action.timingTiming) {
+    const timer = timingToTimerDefinition(action.timingTiming);
+    const label = describeTiming(action.timingTiming) || 'Timer';
+    // When the loop marker repeats the action, the timer only waits for its first
+    // occurrence: the start of its bounds, or else one interval
+    if (timer?.timeCycle && isBoundedRepeat(action)) {
+      const [, ...parts] = timer.timeCycle.split('/');
+      return { label, timer: parts.length > 1 ? { timeDate: parts[0] } : { timeDuration: parts[0] } };
+    }
+    return timer && { label, timer };
+  }
+  const date = action.timingDateTime || action.timingPeriod?.start;
+  return date ? { label: `at ${date}`, timer: { timeDate: date } } : undefined;
+}
 
-      lastElementId = taskId;
+function hasTiming(action: FhirAction): boolean {
+  return ['timingDateTime', 'timingAge', 'timingPeriod', 'timingDuration', 'timingRange', 'timingTiming']
+    .some(name => name in action);
+}
 
-      // Handle nested actions (sub-actions)
-      if (action.action && action.action.length > 0) {
-        lastElementId = processActions(factory, action.action, lastElementId);
-      }
+/**
+ * Draws the data requirements an action reads and writes as data objects and
+ * stores, with its dynamicValues as assignments into the data it writes.
+ * Inputs that no action outputs come from outside the process, e.g. the
+ * patient record, and are drawn as data stores.
+ */
+function processActionData(
+  context: ConversionContext,
+  action: FhirAction,
+  definition: FhirActivityDefinition | undefined,
+  activityId: string
+): void {
+  const { factory } = context;
+  const actionSource = factory.getCurrentSource()!;
+
+  (action.input || []).forEach((requirement, i) => {
+    factory.setCurrentSource({ key: actionSource.key, path: `${actionSource.path}.input[${i}]` });
+    const key = getDataKey(requirement);
+    const type = context.outputData.has(key) ? 'dataObjectReference' : 'dataStoreReference';
+    const referenceId = factory.getOrCreateDataReference(key, describeDataRequirement(requirement), type);
+    factory.createDataAssociation(activityId, referenceId, 'input');
+  });
+
+  const assignments = (action.dynamicValue || []).flatMap((dynamicValue, i) => {
+    const from = dynamicValue.path && dynamicValue.expression
+      && translateCondition(context, dynamicValue.expression, `${actionSource.path}.dynamicValue[${i}].expression`);
+    return from ? [{ from: from.expression, to: dynamicValue.path!, language: from.language }] : [];
+  });
+  const outputs = action.output || [];
+  outputs.forEach((requirement, i) => {
+    factory.setCurrentSource({ key: actionSource.key, path: `${actionSource.path}.output[${i}]` });
+    const referenceId = factory.getOrCreateDataReference(
+      getDataKey(requirement), describeDataRequirement(requirement), 'dataObjectReference'
+    );
+    factory.createDataAssociation(activityId, referenceId, 'output', i === 0 ? assignments : undefined);
+  });
+
+  // Without outputs, dynamicValues set elements of the resource the definition creates
+  if (outputs.length === 0 && assignments.length > 0) {
+    factory.setCurrentSource({ key: actionSource.key, path: `${actionSource.path}.dynamicValue` });
+    const resourceType = definition?.kind || 'Resource';
+    const referenceId = factory.getOrCreateDataReference(
+      getDataKey({ type: resourceType }), resourceType, 'dataObjectReference'
+    );
+    factory.createDataAssociation(activityId, referenceId, 'output', assignments);
+  }
+
+  factory.setCurrentSource(actionSource);
+}
+
+/**
+ * Identifies the data of a requirement; requirements with the same type and
+ * profiles share one data object or store
+ */
+function getDataKey(requirement: FhirDataRequirement): string {
+  return [requirement.type || '', ...(requirement.profile || [])].join('|');
+}
+
+/**
+ * Labels a data requirement with its type and the last segment of its profile,
+ * e.g. "Observation (bp)"
+ */
+function describeDataRequirement(requirement: FhirDataRequirement): string {
+  const profile = requirement.profile?.[0];
+  const type = requirement.type || 'Data';
+  return profile ? `${type} (${profile.substring(profile.lastIndexOf('/') + 1)})` : type;
+}
+
+/**
+ * Collects the keys of the data the actions and their nested actions output
+ */
+function collectOutputData(actions: FhirAction[]): Set<string> {
+  const keys = new Set<string>();
+  const visit = (action: FhirAction) => {
+    (action.output || []).forEach(requirement => keys.add(getDataKey(requirement)));
+    (action.action || []).forEach(visit);
+  };
+  actions.forEach(visit);
+  return keys;
+}
+
+/**
+ * Waits for the triggers of an action. Several triggers are raced behind an
+ * event-based gateway, so whichever occurs first lets the action proceed.
+ */
+function processTriggers(
+  context: ConversionContext,
+  triggers: FhirTriggerDefinition[],
+  previousElementId: string,
+  documentation: string
+): string {
+  const { factory } = context;
+  const actionPath = factory.getCurrentSource()!.path;
+  const sourceId = triggers.length > 1 ? factory.createEventBasedGateway() : previousElementId;
+  if (sourceId !== previousElementId) {
+    factory.createSequenceFlow(previousElementId, sourceId);
+  }
+
+  const eventIds = triggers.map((trigger, i) => {
+    const eventId = factory.createIntermediateEvent(
+      getTriggerLabel(trigger),
+      documentation,
+      getTriggerEventDefinition(context, trigger, `${actionPath}.trigger[${i}]`)
+    );
+    factory.createSequenceFlow(sourceId, eventId);
+    return eventId;
+  });
+
+  return mergeAlternatives(factory, eventIds);
+}
+
+/**
+ * Merges alternative paths, of which only one is taken, into a single flow
+ */
+function mergeAlternatives(factory: BpmnFactory, elementIds: string[]): string {
+  if (elementIds.length === 1) return elementIds[0];
+
+  const mergeId = factory.createExclusiveGateway('');
+  elementIds.forEach(id => factory.createSequenceFlow(id, mergeId));
+  return mergeId;
+}
+
+const DATA_TRIGGER_TYPES = [
+  'data-changed',
+  'data-added',
+  'data-modified',
+  'data-removed',
+  'data-accessed',
+  'data-access-ended'
+];
+
+/**
+ * Maps a FHIR TriggerDefinition to a BPMN event definition:
+ * named events become messages, periodic triggers timers and data triggers conditions
+ */
+function getTriggerEventDefinition(
+  context: ConversionContext,
+  trigger: FhirTriggerDefinition,
+  path: string
+): BpmnEventDefinition {
+  switch (trigger.type) {
+    case 'named-event':
+      return { type: 'message', messageName: trigger.name || 'event' };
+
+    case 'periodic': {
+      const timer = trigger.timingTiming && timingToTimerDefinition(trigger.timingTiming);
+      const date = trigger.timingDateTime || trigger.timingDate;
+      return { type: 'timer', ...(timer || (date ? { timeDate: date } : {})) };
     }
+
+    default:
+      return trigger.condition?.expression
+        ? getConditionalEventDefinition(context, trigger.condition, `${path}.condition`)
+        : { type: 'conditional', condition: describeTriggerData(trigger) };
   }
+}
 
-  return lastElementId;
+/**
+ * Builds a conditional event definition that waits for a FHIR expression to hold
+ */
+function getConditionalEventDefinition(
+  context: ConversionContext,
+  expression: FhirExpression | undefined,
+  path: string
+): BpmnEventDefinition {
+  const condition = expression && translateCondition(context, expression, `${path}.expression`);
+  return { type: 'conditional', condition: condition?.expression, language: condition?.language };
+}
+
+/**
+ * Builds the label of a trigger event
+ */
+function getTriggerLabel(trigger: FhirTriggerDefinition): string {
+  if (trigger.name) return trigger.name;
+
+  if (trigger.type === 'periodic') {
+    const when = (trigger.timingTiming && describeTiming(trigger.timingTiming))
+      || (trigger.timingDateTime || trigger.timingDate ? `at ${trigger.timingDateTime || trigger.timingDate}` : undefined);
+    return when ? `Periodic: ${when}` : 'Periodic';
+  }
+
+  return describeTriggerData(trigger);
+}
+
+/**
+ * Describes the data a data trigger watches, e.g. "data-added: Observation"
+ */
+function describeTriggerData(trigger: FhirTriggerDefinition): string {
+  const type = trigger.type || 'event';
+  if (!DATA_TRIGGER_TYPES.includes(type)) return type;
+
+  const data = (trigger.data || [])
+    .map(d => (d.profile && d.profile.length > 0 ? `${d.type} (${d.profile[0]})` : d.type))
+    .filter(Boolean)
+    .join(', ');
+  return `${type}: ${data || 'data'}`;
+}
+
+/**
+ * Checks whether the PlanDefinition is an event-condition-action rule
+ */
+function isEcaRule(planDefinition: FhirPlanDefinition): boolean {
+  return !!planDefinition.type?.coding?.some(c => c.code === 'eca-rule');
+}
+
+/**
+ * Joins several condition expressions into one guard that holds only when all of them do
+ */
+function combineConditionExpressions(conditions: NonNullable<FhirAction['condition']>): FhirExpression | undefined {
+  const expressions = conditions
+    .map(c => c.expression)
+    .filter((e): e is FhirExpression => !!e?.expression);
+
+  if (expressions.length <= 1) return expressions[0];
+  const languages = new Set(expressions.map(e => e.language));
+  return {
+    language: languages.size === 1 ? expressions[0].language : undefined,
+    expression: expressions.map(e => `(${e.expression})`).join(' and ')
+  };
+}
+
+/**
+ * Gets the language conditions are translated to: FEEL for Zeebe, otherwise the one chosen
+ */
+function getConditionLanguage(options: ConversionOptions): ConditionLanguage | undefined {
+  return options.exportProfile === 'zeebe' ? 'feel' : options.conditionLanguage;
+}
+
+/**
+ * Translates a FHIR expression into the condition language of the conversion.
+ * Without one it is kept as written, and so is an expression that cannot be
+ * translated, which is reported.
+ */
+function translateCondition(context: ConversionContext, expression: FhirExpression, path: string): Condition | undefined {
+  if (!expression.expression) return undefined;
+  const original = { expression: expression.expression, language: expression.language };
+  const target = getConditionLanguage(context.options);
+  if (!target) return original;
+
+  try {
+    return { expression: translateExpression(expression.expression, expression.language, target), language: target };
+  } catch (error) {
+    if (!(error instanceof ExpressionTranslationError)) throw error;
+    addMessage(context, 'warning', 'untranslated-expression', path,
+      `${error.message}, so the expression is kept as written instead of translated to ${target.toUpperCase()}`);
+    return original;
+  }
+}
+
+/**
+ * Creates the task or sub-process for an action, followed by its nested actions.
+ * Returns the activity representing the action and the element the flow leaves from.
+ */
+function processActionBody(
+  context: ConversionContext,
+  action: FhirAction,
+  actionName: string,
+  documentation: string,
+  definition: FhirResource | undefined,
+  previousElementId: string,
+  condition?: Condition,
+  flowName?: string
+): { activityId: string; exitId: string } {
+  const { factory } = context;
+  const hasChildren = !!action.action && action.action.length > 0;
+
+  // Parent actions become a sub-process that contains their children
+  if (hasChildren && getGroupRendering(action) === 'subProcess') {
+    const subProcessId = factory.beginSubProcess(actionName, documentation);
+    factory.createSequenceFlow(previousElementId, subProcessId, condition?.expression, flowName, condition?.language);
+
+    const startEventId = factory.createStartEvent();
+    const childExitId = processChildActions(context, action, startEventId);
+    const endEventId = factory.createEndEvent();
+    factory.createSequenceFlow(childExitId, endEventId);
+
+    factory.endSubProcess();
+    return { activityId: subProcessId, exitId: subProcessId };
+  }
+
+  // Visual groups only draw a box around the action and its children
+  const isVisualGroup = hasChildren && getGroupRendering(action) === 'group';
+  if (isVisualGroup) {
+    factory.beginGroup(actionName);
+  }
+
+  const taskId = createActionActivity(context, action, actionName, documentation, definition);
+  factory.createSequenceFlow(previousElementId, taskId, condition?.expression, flowName, condition?.language);
+  let lastElementId = taskId;
+
+  // Handle nested actions (sub-actions)
+  if (hasChildren) {
+    lastElementId = processChildActions(context, action, lastElementId);
+  }
+
+  if (isVisualGroup) {
+    factory.endGroup();
+  }
+
+  return { activityId: taskId, exitId: lastElementId };
+}
+
+/**
+ * Creates the activity for an action without nested actions: a call activity when it
+ * instantiates another PlanDefinition, otherwise a task of the mapped type.
+ * The definition is what the action's definitionCanonical resolved to.
+ */
+function createActionActivity(
+  context: ConversionContext,
+  action: FhirAction,
+  actionName: string,
+  documentation: string,
+  definition: FhirResource | undefined
+): string {
+  const { factory, options } = context;
+  const canonical = action.definitionCanonical;
+
+  if (canonical && !definition) {
+    addMessage(context, 'warning', 'unresolved-definition', `${factory.getCurrentSource()!.path}.definitionCanonical`,
+      `${canonical} cannot be resolved, so the activity is derived from the action alone`);
+  }
+  if (canonical && (definition?.resourceType === 'PlanDefinition' || isPlanDefinitionCanonical(canonical))) {
+    return factory.createCallActivity(actionName, getCalledElement(canonical, definition), documentation);
+  }
+
+  const activityDefinition = toActivityDefinition(definition);
+  const taskType = resolveTaskType(action, activityDefinition, options.taskTypeMapping);
+  const taskId = factory.createTask(actionName, documentation, taskType);
+
+  // Who performs the task and what implements it, for engines that assign or dispatch tasks
+  const performers = [...(action.participant || []), ...(activityDefinition?.participant || [])]
+    .map(getParticipantName)
+    .filter((name): name is string => !!name);
+  if (performers.length > 0) {
+    factory.setPerformers(taskId, [...new Set(performers)]);
+  }
+  if (canonical) {
+    factory.setImplementation(taskId, getCalledElement(canonical, definition));
+  }
+  return taskId;
+}
+
+/**
+ * Looks up the resource an action's definitionCanonical points at, if it can be resolved
+ */
+function resolveDefinition(context: ConversionContext, action: FhirAction): FhirResource | undefined {
+  if (!action.definitionCanonical) return undefined;
+
+  return context.resolver.resolve(action.definitionCanonical, context.planDefinition);
+}
+
+function toActivityDefinition(definition: FhirResource | undefined): FhirActivityDefinition | undefined {
+  return definition?.resourceType === 'ActivityDefinition' ? definition as FhirActivityDefinition : undefined;
+}
+
+/**
+ * Finds the ActivityDefinition an action instantiates, if it can be resolved
+ */
+function getActivityDefinition(context: ConversionContext, action: FhirAction): FhirActivityDefinition | undefined {
+  return toActivityDefinition(resolveDefinition(context, action));
+}
+
+const PARTICIPANT_TYPE_NAMES: Record<string, string> = {
+  'careteam': 'Care Team',
+  'device': 'Device',
+  'group': 'Group',
+  'healthcareservice': 'Healthcare Service',
+  'location': 'Location',
+  'organization': 'Organization',
+  'patient': 'Patient',
+  'practitioner': 'Practitioner',
+  'practitionerrole': 'Practitioner Role',
+  'relatedperson': 'Related Person'
+};
+
+/**
+ * Names the lane an action belongs in: the role of its first participant, or the
+ * participant type when no role is given. Participants of the referenced
+ * ActivityDefinition count too, and a parent action without participants of its
+ * own goes where all of its children go.
+ */
+function getActionLaneName(context: ConversionContext, action: FhirAction): string | undefined {
+  const participants = [
+    ...(action.participant || []),
+    ...(getActivityDefinition(context, action)?.participant || [])
+  ];
+  const laneName = participants.map(getParticipantName).find(Boolean);
+  if (laneName) return laneName;
+
+  const childLaneNames = new Set((action.action || []).map(child => getActionLaneName(context, child)));
+  return childLaneNames.size === 1 ? Array.from(childLaneNames)[0] : undefined;
+}
+
+/**
+ * Tells whether any of the actions or the actions nested in them names a participant
+ */
+function hasParticipants(context: ConversionContext, actions: FhirAction[]): boolean {
+  return actions.some(action => !!getActionLaneName(context, action) || hasParticipants(context, action.action || []));
+}
+
+/**
+ * Gets a display name for a participant from its role or type
+ */
+function getParticipantName(participant: FhirParticipant): string | undefined {
+  const roleName = getConceptText(participant.role);
+  if (roleName) return roleName;
+  return participant.type ? PARTICIPANT_TYPE_NAMES[participant.type] || participant.type : undefined;
+}
+
+function getConceptText(concept: FhirCodeableConcept | undefined): string | undefined {
+  return concept?.text || concept?.coding?.[0]?.display || concept?.coding?.[0]?.code;
+}
+
+/**
+ * Derives the id of a referenced definition: the id of the resource, or the last
+ * segment of its canonical URL. For a PlanDefinition this is the process id a
+ * call activity invokes.
+ */
+function getCalledElement(canonical: string, definition?: FhirResource): string {
+  if (definition?.id) return definition.id;
+  const url = canonical.split('|')[0];
+  return url.substring(url.lastIndexOf('/') + 1).replace(/^#/, '');
+}
+
+/**
+ * Decides how an action with nested actions is drawn. Visual groups carry no
+ * process semantics and only get a BPMN group around them; every other parent
+ * action becomes a sub-process.
+ */
+function getGroupRendering(action: FhirAction): 'subProcess' | 'group' {
+  return action.groupingBehavior === 'visual-group' ? 'group' : 'subProcess';
+}
+
+const SELECTION_GATEWAY_NAMES: Record<string, string> = {
+  'any': 'Select any',
+  'all-or-none': 'Select all or none',
+  'exactly-one': 'Select exactly one',
+  'at-most-one': 'Select at most one',
+  'one-or-more': 'Select one or more'
+};
+
+/**
+ * Emits the nested actions of an action according to its selectionBehavior
+ */
+function processChildActions(
+  context: ConversionContext,
+  action: FhirAction,
+  previousElementId: string
+): string {
+  const { factory } = context;
+  const children = action.action!;
+  const parentPath = factory.getCurrentSource()!.path;
+  const gatewayName = action.selectionBehavior && SELECTION_GATEWAY_NAMES[action.selectionBehavior];
+
+  switch (action.selectionBehavior) {
+    case 'all':
+      return processActions(context, children, parentPath, previousElementId, 'parallel');
+
+    case 'all-or-none': {
+      const splitId = factory.createExclusiveGateway(gatewayName!);
+      factory.createSequenceFlow(previousElementId, splitId);
+      reportSelectionVariable(context, parentPath);
+
+      // Selecting the parent action selects all of its children
+      const allExitId = processActions(context, children, parentPath, splitId, 'parallel');
+      setSelectionCondition(context, splitId, 0, factory.getCurrentSource()!);
+      const joinId = factory.createExclusiveGateway('');
+      factory.createSequenceFlow(allExitId, joinId);
+      factory.setDefaultFlow(splitId, factory.createSequenceFlow(splitId, joinId, undefined, 'None'));
+      return joinId;
+    }
+
+    case 'exactly-one':
+    case 'at-most-one':
+      return processAlternatives(context, children, parentPath, previousElementId, 'exclusiveGateway',
+        gatewayName!, action.selectionBehavior === 'at-most-one');
+
+    case 'any':
+    case 'one-or-more':
+      return processAlternatives(context, children, parentPath, previousElementId, 'inclusiveGateway',
+        gatewayName!, action.selectionBehavior === 'any');
+
+    default:
+      return processActions(context, children, parentPath, previousElementId);
+  }
+}
+
+// Process variable listing the keys of the actions selected at a choice
+const SELECTION_VARIABLE = 'selectedActions';
+
+/**
+ * Emits each action as an alternative branch between a split and a join gateway.
+ * When no branch has to be taken, an extra "None" flow bypasses all of them.
+ */
+function processAlternatives(
+  context: ConversionContext,
+  actions: FhirAction[],
+  parentPath: string,
+  previousElementId: string,
+  gatewayType: 'exclusiveGateway' | 'inclusiveGateway',
+  gatewayName: string,
+  allowNone: boolean
+): string {
+  const { factory } = context;
+  const createGateway = (name: string) => gatewayType === 'inclusiveGateway'
+    ? factory.createInclusiveGateway(name)
+    : factory.createExclusiveGateway(name);
+
+  const splitId = createGateway(gatewayName);
+  factory.createSequenceFlow(previousElementId, splitId);
+  reportSelectionVariable(context, parentPath);
+
+  actions.forEach((action, i) => {
+    if (action.relatedAction && action.relatedAction.length > 0) {
+      addMessage(context, 'warning', 'relationship-ignored', `${parentPath}.action[${i}].relatedAction`,
+        'Alternative actions are not ordered, so relatedAction is ignored');
+    }
+  });
+
+  const branchExitIds = actions.map((action, i) => {
+    const path = `${parentPath}.action[${i}]`;
+    const flowCount = factory.getElementById(splitId)!.outgoing!.length;
+    const exitId = processAction(context, action, i, path, splitId);
+    setSelectionCondition(context, splitId, flowCount, getActionSource(action, path));
+    return exitId;
+  });
+
+  const joinId = createGateway('');
+  branchExitIds.forEach(exitId => factory.createSequenceFlow(exitId, joinId));
+  if (allowNone) {
+    factory.setDefaultFlow(splitId, factory.createSequenceFlow(splitId, joinId, undefined, 'None'));
+  }
+
+  return joinId;
+}
+
+/**
+ * Makes the flows a choice gateway gained since flowCount take the branch of an
+ * action only when the action is among the selected ones
+ */
+function setSelectionCondition(
+  context: ConversionContext,
+  splitId: string,
+  flowCount: number,
+  action: BpmnSource
+): void {
+  const { factory } = context;
+  const selection = translateCondition(context,
+    { language: 'text/fhirpath', expression: `%${SELECTION_VARIABLE} contains '${action.key}'` }, action.path)!;
+  factory.getElementById(splitId)!.outgoing!.slice(flowCount)
+    .forEach(flowId => factory.setCondition(flowId, selection.expression, selection.language));
+}
+
+function reportSelectionVariable(context: ConversionContext, parentPath: string): void {
+  addMessage(context, 'info', 'selection-variable', `${parentPath}.selectionBehavior`,
+    `The branches are taken for the actions listed in the "${SELECTION_VARIABLE}" variable, which the process has to provide`);
 }
 
 /**
  * Builds documentation text from various action fields
  */
-function buildActionDocumentation(action: FhirAction): string {
+function buildActionDocumentation(action: FhirAction, definition?: FhirActivityDefinition): string {
   const docParts: string[] = [];
 
   if (action.description) {
@@ -191,6 +1369,31 @@ function buildActionDocumentation(action: FhirAction): string {
     docParts.push(`Type: ${types}`);
   }
 
+  // What the referenced ActivityDefinition orders
+  if (definition) {
+    docParts.push(`Definition: ${definition.title || definition.name || definition.id} (${action.definitionCanonical})`);
+    if (definition.kind) {
+      docParts.push(`Kind: ${definition.kind}`);
+    }
+    const code = getConceptText(definition.code);
+    if (code) {
+      docParts.push(`Code: ${code}`);
+    }
+    const product = getConceptText(definition.productCodeableConcept) ||
+      definition.productReference?.display || definition.productReference?.reference;
+    if (product) {
+      docParts.push(`Product: ${product}`);
+    }
+    const dosages = (definition.dosage || []).map(d => d.text).filter(Boolean);
+    if (dosages.length > 0) {
+      docParts.push(`Dosage: ${dosages.join('; ')}`);
+    }
+    const participants = (definition.participant || []).map(getParticipantName).filter(Boolean);
+    if (participants.length > 0) {
+      docParts.push(`Participants: ${participants.join(', ')}`);
+    }
+  }
+
   if (action.trigger && action.trigger.length > 0) {
     const triggers = action.trigger.map(t => `${t.type || 'event'}: ${t.name || 'unnamed'}`).join('; ');
     docParts.push(`Triggers: ${triggers}`);
@@ -200,7 +1403,8 @@ function buildActionDocumentation(action: FhirAction): string {
     action.condition.forEach((cond, idx) => {
       const condText = cond.expression?.expression || 'condition';
       const condLang = cond.expression?.language ? ` (${cond.expression.language})` : '';
-      docParts.push(`Condition ${idx + 1}: ${condText}${condLang}`);
+      const condKind = cond.kind && cond.kind !== 'applicability' ? ` [${cond.kind}]` : '';
+      docParts.push(`Condition ${idx + 1}${condKind}: ${condText}${condLang}`);
     });
   }
 
@@ -225,16 +1429,17 @@ function buildActionDocumentation(action: FhirAction): string {
 }
 
 /**
- * Generates BPMN 2.0 XML from BPMN elements
+ * Generates BPMN 2.0 XML from converted processes and their diagram
  */
 function generateBpmnXml(
-  processId: string,
-  processName: string,
-  processDescription: string | undefined,
-  elements: BpmnElement[],
-  diElements: BpmnDiElement[]
+  processes: ProcessDefinition[],
+  diElements: BpmnDiElement[],
+  profile: ExportProfile = 'bpmn'
 ): string {
   const xml: string[] = [];
+  const collaborationId = 'Collaboration_1';
+  const elements = processes.flatMap(p => p.elements);
+  const participants = processes.filter(p => p.participantId);
 
   // XML Header
   xml.push('<?xml version="1.0" encoding="UTF-8"?>');
@@ -243,34 +1448,93 @@ function generateBpmnXml(
     'xmlns:bpmndi="http://www.omg.org/spec/BPMN/20100524/DI" ' +
     'xmlns:dc="http://www.omg.org/spec/DD/20100524/DC" ' +
     'xmlns:di="http://www.omg.org/spec/DD/20100524/DI" ' +
+    'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ' +
+    `xmlns:fhir="${FHIR_PATH_NAMESPACE}" ` +
+    (profile === 'zeebe' ? `xmlns:zeebe="${ZEEBE_NAMESPACE}" xmlns:modeler="${MODELER_NAMESPACE}" ` : '') +
     'id="Definitions_1" ' +
-    'targetNamespace="http://bpmn.io/schema/bpmn">');
+    'targetNamespace="http://bpmn.io/schema/bpmn"' +
+    (profile === 'zeebe'
+      ? ` modeler:executionPlatform="Camunda Cloud" modeler:executionPlatformVersion="${ZEEBE_PLATFORM_VERSION}">`
+      : '>'));
 
-  // Process
-  xml.push(`  <bpmn:process id="${escapeXml(processId)}" name="${escapeXml(processName)}" isExecutable="true">`);
+  // Group labels are stored as categories on the definitions
+  for (const group of elements.filter(e => e.type === 'group')) {
+    xml.push(`  <bpmn:category id="${escapeXml(group.id)}_category">`);
+    xml.push(`    <bpmn:categoryValue id="${escapeXml(group.id)}_categoryValue" value="${escapeXml(group.name || '')}" />`);
+    xml.push('  </bpmn:category>');
+  }
 
-  // Add process documentation if available
-  if (processDescription) {
-    xml.push(`    <bpmn:documentation>${escapeXml(processDescription)}</bpmn:documentation>`);
+  // Messages referenced by message events
+  for (const element of elements.filter(e => e.eventDefinition?.type === 'message')) {
+    const start = `  <bpmn:message id="${escapeXml(element.id)}_Message" name="${escapeXml(element.eventDefinition!.messageName || '')}"`;
+    const extensions = profile === 'zeebe' ? getZeebeMessageExtensions(element) : [];
+    if (extensions.length === 0) {
+      xml.push(`${start} />`);
+    } else {
+      xml.push(`${start}>`, ...generateExtensionElementsXml(extensions, '    '), '  </bpmn:message>');
+    }
   }
 
-  // Add all elements
-  for (const element of elements) {
-    xml.push(generateElementXml(element, '    '));
+  // Pools, one per process that is drawn in one
+  if (participants.length > 0) {
+    xml.push(`  <bpmn:collaboration id="${collaborationId}">`);
+    for (const process of participants) {
+      xml.push(`    <bpmn:participant id="${escapeXml(process.participantId!)}" name="${escapeXml(process.name)}" processRef="${escapeXml(process.id)}" />`);
+    }
+    xml.push('  </bpmn:collaboration>');
   }
 
-  xml.push('  </bpmn:process>');
+  for (const process of processes) {
+    xml.push(`  <bpmn:process id="${escapeXml(process.id)}" name="${escapeXml(process.name)}" isExecutable="true" fhir:path="${escapeXml(process.sourcePath)}">`);
+
+    // Add process documentation if available
+    if (process.description) {
+      xml.push(`    <bpmn:documentation>${escapeXml(process.description)}</bpmn:documentation>`);
+    }
 
-  // BPMN Diagram Interchange (DI)
-  xml.push(`  <bpmndi:BPMNDiagram id="BPMNDiagram_1">`);
-  xml.push(`    <bpmndi:BPMNPlane id="BPMNPlane_1" bpmnElement="${escapeXml(processId)}">`);
+    if (process.lanes.length > 0) {
+      xml.push(`    <bpmn:laneSet id="${process.idPrefix}LaneSet_1">`);
+      for (const lane of process.lanes) {
+        xml.push(`      <bpmn:lane id="${escapeXml(lane.id)}" name="${escapeXml(lane.name)}"${sourcePathAttribute(lane)}>`);
+        lane.flowNodeRefs.forEach(ref => {
+          xml.push(`        <bpmn:flowNodeRef>${escapeXml(ref)}</bpmn:flowNodeRef>`);
+        });
+        xml.push('      </bpmn:lane>');
+      }
+      xml.push('    </bpmn:laneSet>');
+    }
 
-  for (const diElement of diElements) {
-    xml.push(generateDiXml(diElement, '      '));
+    // Data objects are shared by their references in the process and its sub-processes
+    const dataObjects = new Map(process.elements
+      .filter(e => e.dataObjectRef)
+      .map(e => [e.dataObjectRef!, e.name || '']));
+    dataObjects.forEach((name, id) => {
+      xml.push(`    <bpmn:dataObject id="${escapeXml(id)}" name="${escapeXml(name)}" />`);
+    });
+
+    // Add all top-level elements; sub-processes emit their own children
+    for (const element of process.elements.filter(e => !e.parentId && !isDataAssociation(e))) {
+      xml.push(generateElementXml(element, process.elements, '    ', profile));
+    }
+
+    xml.push('  </bpmn:process>');
   }
 
-  xml.push('    </bpmndi:BPMNPlane>');
-  xml.push('  </bpmndi:BPMNDiagram>');
+  // BPMN Diagram Interchange (DI): the main plane, then one drill-down plane per collapsed sub-process
+  const planes = [undefined, ...new Set(diElements.map(di => di.plane).filter(Boolean))];
+  planes.forEach((plane, idx) => {
+    const planeElement = plane || (participants.length > 0 ? collaborationId : processes[0].id);
+    xml.push(`  <bpmndi:BPMNDiagram id="BPMNDiagram_${idx + 1}">`);
+    xml.push(`    <bpmndi:BPMNPlane id="BPMNPlane_${idx + 1}" bpmnElement="${escapeXml(planeElement)}">`);
+
+    for (const diElement of diElements.filter(di => di.plane === plane)) {
+      xml.push(generateDiXml(diElement, '      '));
+    }
+
+    xml.push('    </bpmndi:BPMNPlane>');
+    xml.push('  </bpmndi:BPMNDiagram>');
+  });
+
   xml.push('</bpmn:definitions>');
 
   return xml.join('\n');
@@ -279,12 +1543,17 @@ function generateBpmnXml(
 /**
  * Generates XML for a single BPMN element
  */
-function generateElementXml(element: BpmnElement, indent: string): string {
+function generateElementXml(
+  element: BpmnElement,
+  elements: BpmnElement[],
+  indent: string,
+  profile: ExportProfile
+): string {
   const lines: string[] = [];
 
   switch (element.type) {
     case 'startEvent':
-      lines.push(`${indent}<bpmn:startEvent id="${escapeXml(element.id)}" name="${escapeXml(element.name || '')}">`);
+      lines.push(`${indent}<bpmn:startEvent id="${escapeXml(element.id)}"${sourcePathAttribute(element)} name="${escapeXml(element.name || '')}">`);
       if (element.documentation) {
         lines.push(`${indent}  <bpmn:documentation>${escapeXml(element.documentation)}</bpmn:documentation>`);
       }
@@ -293,11 +1562,14 @@ function generateElementXml(element: BpmnElement, indent: string): string {
           lines.push(`${indent}  <bpmn:outgoing>${escapeXml(out)}</bpmn:outgoing>`);
         });
       }
+      if (element.eventDefinition) {
+        lines.push(generateEventDefinitionXml(element, `${indent}  `, profile));
+      }
       lines.push(`${indent}</bpmn:startEvent>`);
       break;
 
     case 'endEvent':
-      lines.push(`${indent}<bpmn:endEvent id="${escapeXml(element.id)}" name="${escapeXml(element.name || '')}">`);
+      lines.push(`${indent}<bpmn:endEvent id="${escapeXml(element.id)}"${sourcePathAttribute(element)} name="${escapeXml(element.name || '')}">`);
       if (element.documentation) {
         lines.push(`${indent}  <bpmn:documentation>${escapeXml(element.documentation)}</bpmn:documentation>`);
       }
@@ -310,7 +1582,7 @@ function generateElementXml(element: BpmnElement, indent: string): string {
       break;
 
     case 'intermediateEvent':
-      lines.push(`${indent}<bpmn:intermediateCatchEvent id="${escapeXml(element.id)}" name="${escapeXml(element.name || '')}">`);
+      lines.push(`${indent}<bpmn:intermediateCatchEvent id="${escapeXml(element.id)}"${sourcePathAttribute(element)} name="${escapeXml(element.name || '')}">`);
       if (element.documentation) {
         lines.push(`${indent}  <bpmn:documentation>${escapeXml(element.documentation)}</bpmn:documentation>`);
       }
@@ -324,14 +1596,45 @@ function generateElementXml(element: BpmnElement, indent: string): string {
           lines.push(`${indent}  <bpmn:outgoing>${escapeXml(out)}</bpmn:outgoing>`);
         });
       }
+      if (element.eventDefinition) {
+        lines.push(generateEventDefinitionXml(element, `${indent}  `, profile));
+      }
       lines.push(`${indent}</bpmn:intermediateCatchEvent>`);
       break;
 
+    case 'boundaryEvent':
+      lines.push(`${indent}<bpmn:boundaryEvent id="${escapeXml(element.id)}"${sourcePathAttribute(element)} name="${escapeXml(element.name || '')}" attachedToRef="${escapeXml(element.attachedToRef || '')}" cancelActivity="${element.cancelActivity !== false}">`);
+      if (element.documentation) {
+        lines.push(`${indent}  <bpmn:documentation>${escapeXml(element.documentation)}</bpmn:documentation>`);
+      }
+      if (element.outgoing && element.outgoing.length > 0) {
+        element.outgoing.forEach(out => {
+          lines.push(`${indent}  <bpmn:outgoing>${escapeXml(out)}</bpmn:outgoing>`);
+        });
+      }
+      if (element.eventDefinition) {
+        lines.push(generateEventDefinitionXml(element, `${indent}  `, profile));
+      }
+      lines.push(`${indent}</bpmn:boundaryEvent>`);
+      break;
+
     case 'task':
-      lines.push(`${indent}<bpmn:task id="${escapeXml(element.id)}" name="${escapeXml(element.name || '')}">`);
+    case 'userTask':
+    case 'manualTask':
+    case 'serviceTask':
+    case 'sendTask':
+    case 'receiveTask':
+    case 'scriptTask':
+    case 'businessRuleTask':
+    case 'callActivity': {
+      const calledElement = element.calledElement ? ` calledElement="${escapeXml(element.calledElement)}"` : '';
+      lines.push(`${indent}<bpmn:${element.type} id="${escapeXml(element.id)}"${sourcePathAttribute(element)} name="${escapeXml(element.name || '')}"${calledElement}>`);
       if (element.documentation) {
         lines.push(`${indent}  <bpmn:documentation>${escapeXml(element.documentation)}</bpmn:documentation>`);
       }
+      if (profile === 'zeebe') {
+        lines.push(...generateExtensionElementsXml(getZeebeExtensions(element, elements), `${indent}  `));
+      }
       if (element.incoming && element.incoming.length > 0) {
         element.incoming.forEach(inc => {
           lines.push(`${indent}  <bpmn:incoming>${escapeXml(inc)}</bpmn:incoming>`);
@@ -342,11 +1645,57 @@ function generateElementXml(element: BpmnElement, indent: string): string {
           lines.push(`${indent}  <bpmn:outgoing>${escapeXml(out)}</bpmn:outgoing>`);
         });
       }
-      lines.push(`${indent}</bpmn:task>`);
+      lines.push(...generateDataAssociationsXml(element, elements, `${indent}  `));
+      if (element.loopCharacteristics) {
+        lines.push(generateLoopCharacteristicsXml(element, `${indent}  `, profile));
+      }
+      lines.push(`${indent}</bpmn:${element.type}>`);
+      break;
+    }
+
+    case 'subProcess':
+      lines.push(`${indent}<bpmn:subProcess id="${escapeXml(element.id)}"${sourcePathAttribute(element)} name="${escapeXml(element.name || '')}">`);
+      if (element.documentation) {
+        lines.push(`${indent}  <bpmn:documentation>${escapeXml(element.documentation)}</bpmn:documentation>`);
+      }
+      if (element.incoming && element.incoming.length > 0) {
+        element.incoming.forEach(inc => {
+          lines.push(`${indent}  <bpmn:incoming>${escapeXml(inc)}</bpmn:incoming>`);
+        });
+      }
+      if (element.outgoing && element.outgoing.length > 0) {
+        element.outgoing.forEach(out => {
+          lines.push(`${indent}  <bpmn:outgoing>${escapeXml(out)}</bpmn:outgoing>`);
+        });
+      }
+      lines.push(...generateDataAssociationsXml(element, elements, `${indent}  `));
+      if (element.loopCharacteristics) {
+        lines.push(generateLoopCharacteristicsXml(element, `${indent}  `, profile));
+      }
+      elements.filter(e => e.parentId === element.id && !isDataAssociation(e)).forEach(child => {
+        lines.push(generateElementXml(child, elements, `${indent}  `, profile));
+      });
+      lines.push(`${indent}</bpmn:subProcess>`);
+      break;
+
+    case 'dataObjectReference':
+      lines.push(`${indent}<bpmn:dataObjectReference id="${escapeXml(element.id)}"${sourcePathAttribute(element)} name="${escapeXml(element.name || '')}" dataObjectRef="${escapeXml(element.dataObjectRef || '')}" />`);
+      break;
+
+    case 'dataStoreReference':
+      lines.push(`${indent}<bpmn:dataStoreReference id="${escapeXml(element.id)}"${sourcePathAttribute(element)} name="${escapeXml(element.name || '')}" />`);
+      break;
+
+    case 'group':
+      lines.push(`${indent}<bpmn:group id="${escapeXml(element.id)}"${sourcePathAttribute(element)} categoryValueRef="${escapeXml(element.id)}_categoryValue" />`);
       break;
 
     case 'exclusiveGateway':
-      lines.push(`${indent}<bpmn:exclusiveGateway id="${escapeXml(element.id)}" name="${escapeXml(element.name || '')}">`);
+    case 'parallelGateway':
+    case 'inclusiveGateway':
+    case 'eventBasedGateway': {
+      const defaultAttr = element.default ? ` default="${escapeXml(element.default)}"` : '';
+      lines.push(`${indent}<bpmn:${element.type} id="${escapeXml(element.id)}"${sourcePathAttribute(element)} name="${escapeXml(element.name || '')}"${defaultAttr}>`);
       if (element.documentation) {
         lines.push(`${indent}  <bpmn:documentation>${escapeXml(element.documentation)}</bpmn:documentation>`);
       }
@@ -360,12 +1709,13 @@ function generateElementXml(element: BpmnElement, indent: string): string {
           lines.push(`${indent}  <bpmn:outgoing>${escapeXml(out)}</bpmn:outgoing>`);
         });
       }
-      lines.push(`${indent}</bpmn:exclusiveGateway>`);
+      lines.push(`${indent}</bpmn:${element.type}>`);
       break;
+    }
 
     case 'sequenceFlow':
       const attrs = [
-        `id="${escapeXml(element.id)}"`,
+        `id="${escapeXml(element.id)}"${sourcePathAttribute(element)}`,
         `sourceRef="${escapeXml(element.sourceRef || '')}"`,
         `targetRef="${escapeXml(element.targetRef || '')}"`
       ];
@@ -374,8 +1724,11 @@ function generateElementXml(element: BpmnElement, indent: string): string {
       }
       
       if (element.conditionExpression) {
+        const condition = profile === 'zeebe' && element.conditionLanguage === 'feel'
+          ? toFeelExpression(element.conditionExpression)
+          : element.conditionExpression;
         lines.push(`${indent}<bpmn:sequenceFlow ${attrs.join(' ')}>`);
-        lines.push(`${indent}  <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">${escapeXml(element.conditionExpression)}</bpmn:conditionExpression>`);
+        lines.push(`${indent}  <bpmn:conditionExpression xsi:type="bpmn:tFormalExpression"${languageAttribute(element.conditionLanguage)}>${escapeXml(condition)}</bpmn:conditionExpression>`);
         lines.push(`${indent}</bpmn:sequenceFlow>`);
       } else {
         lines.push(`${indent}<bpmn:sequenceFlow ${attrs.join(' ')} />`);
@@ -386,6 +1739,148 @@ function generateElementXml(element: BpmnElement, indent: string): string {
   return lines.join('\n');
 }
 
+/**
+ * Generates the data associations of an activity. Inputs target a placeholder
+ * property of the activity, as BPMN requires a target for them.
+ */
+function generateDataAssociationsXml(activity: BpmnElement, elements: BpmnElement[], indent: string): string[] {
+  const lines: string[] = [];
+  const inputs = elements.filter(e => e.type === 'dataInputAssociation' && e.targetRef === activity.id);
+  const outputs = elements.filter(e => e.type === 'dataOutputAssociation' && e.sourceRef === activity.id);
+  const propertyId = `${escapeXml(activity.id)}_Property`;
+
+  if (inputs.length > 0) {
+    lines.push(`${indent}<bpmn:property id="${propertyId}" name="__targetRef_placeholder" />`);
+  }
+  for (const association of inputs) {
+    lines.push(`${indent}<bpmn:dataInputAssociation id="${escapeXml(association.id)}"${sourcePathAttribute(association)}>`);
+    lines.push(`${indent}  <bpmn:sourceRef>${escapeXml(association.sourceRef!)}</bpmn:sourceRef>`);
+    lines.push(`${indent}  <bpmn:targetRef>${propertyId}</bpmn:targetRef>`);
+    lines.push(`${indent}</bpmn:dataInputAssociation>`);
+  }
+  for (const association of outputs) {
+    lines.push(`${indent}<bpmn:dataOutputAssociation id="${escapeXml(association.id)}"${sourcePathAttribute(association)}>`);
+    lines.push(`${indent}  <bpmn:targetRef>${escapeXml(association.targetRef!)}</bpmn:targetRef>`);
+    (association.assignments || []).forEach((assignment, idx) => {
+      lines.push(`${indent}  <bpmn:assignment id="${escapeXml(association.id)}_Assignment_${idx + 1}">`);
+      lines.push(`${indent}    <bpmn:from xsi:type="bpmn:tFormalExpression"${languageAttribute(assignment.language)}>${escapeXml(assignment.from)}</bpmn:from>`);
+      lines.push(`${indent}    <bpmn:to xsi:type="bpmn:tFormalExpression">${escapeXml(assignment.to)}</bpmn:to>`);
+      lines.push(`${indent}  </bpmn:assignment>`);
+    });
+    lines.push(`${indent}</bpmn:dataOutputAssociation>`);
+  }
+  return lines;
+}
+
+/**
+ * Generates XML for the loop characteristics of an activity
+ */
+function generateLoopCharacteristicsXml(element: BpmnElement, indent: string, profile: ExportProfile): string {
+  const loop = element.loopCharacteristics!;
+  const id = `${escapeXml(element.id)}_LoopCharacteristics`;
+
+  if (loop.type === 'standard') {
+    if (!loop.loopCondition) return `${indent}<bpmn:standardLoopCharacteristics id="${id}" />`;
+    return [
+      `${indent}<bpmn:standardLoopCharacteristics id="${id}">`,
+      `${indent}  <bpmn:loopCondition xsi:type="bpmn:tFormalExpression">${escapeXml(loop.loopCondition)}</bpmn:loopCondition>`,
+      `${indent}</bpmn:standardLoopCharacteristics>`
+    ].join('\n');
+  }
+
+  // Zeebe counts the instances by the items of its input collection instead of a cardinality
+  const children: string[] = [];
+  if (profile === 'zeebe') {
+    children.push(...generateExtensionElementsXml(getZeebeLoopExtensions(loop), `${indent}  `));
+  } else if (loop.loopCardinality) {
+    children.push(`${indent}  <bpmn:loopCardinality xsi:type="bpmn:tFormalExpression">${escapeXml(loop.loopCardinality)}</bpmn:loopCardinality>`);
+  }
+  if (loop.completionCondition) {
+    const condition = profile === 'zeebe' ? toFeelExpression(loop.completionCondition) : loop.completionCondition;
+    children.push(`${indent}  <bpmn:completionCondition xsi:type="bpmn:tFormalExpression">${escapeXml(condition)}</bpmn:completionCondition>`);
+  }
+  const start = `${indent}<bpmn:multiInstanceLoopCharacteristics id="${id}" isSequential="${!!loop.isSequential}"`;
+  if (children.length === 0) return `${start} />`;
+  return [`${start}>`, ...children, `${indent}</bpmn:multiInstanceLoopCharacteristics>`].join('\n');
+}
+
+/**
+ * Generates the extensionElements of an element, or nothing when it has no extensions
+ */
+function generateExtensionElementsXml(extensions: ExtensionElement[], indent: string): string[] {
+  if (extensions.length === 0) return [];
+
+  const generate = (extension: ExtensionElement, extensionIndent: string): string[] => {
+    const attributes = Object.entries(extension.attributes || {})
+      .map(([name, value]) => ` ${name}="${escapeXml(value)}"`)
+      .join('');
+    const children = extension.children || [];
+    if (children.length === 0) return [`${extensionIndent}<${extension.name}${attributes} />`];
+    return [
+      `${extensionIndent}<${extension.name}${attributes}>`,
+      ...children.flatMap(child => generate(child, `${extensionIndent}  `)),
+      `${extensionIndent}</${extension.name}>`
+    ];
+  };
+
+  return [
+    `${indent}<bpmn:extensionElements>`,
+    ...extensions.flatMap(extension => generate(extension, `${indent}  `)),
+    `${indent}</bpmn:extensionElements>`
+  ];
+}
+
+/**
+ * Generates the language attribute of a formal expression, if its language is known
+ */
+function languageAttribute(language: string | undefined): string {
+  return language ? ` language="${escapeXml(language)}"` : '';
+}
+
+/**
+ * Generates the fhir:path attribute of an element generated from a FHIR element
+ */
+function sourcePathAttribute(element: { sourcePath?: string }): string {
+  return element.sourcePath ? ` fhir:path="${escapeXml(element.sourcePath)}"` : '';
+}
+
+/**
+ * Generates XML for the event definition of an event element
+ */
+function generateEventDefinitionXml(element: BpmnElement, indent: string, profile: ExportProfile): string {
+  const definition = profile === 'zeebe' ? getZeebeEventDefinition(element) : element.eventDefinition!;
+  const id = `${escapeXml(element.id)}_EventDefinition`;
+  const lines: string[] = [];
+
+  switch (definition.type) {
+    case 'conditional':
+      lines.push(`${indent}<bpmn:conditionalEventDefinition id="${id}">`);
+      lines.push(`${indent}  <bpmn:condition xsi:type="bpmn:tFormalExpression"${languageAttribute(definition.language)}>${escapeXml(definition.condition || '')}</bpmn:condition>`);
+      lines.push(`${indent}</bpmn:conditionalEventDefinition>`);
+      break;
+
+    case 'timer': {
+      const timerParts = (['timeDate', 'timeDuration', 'timeCycle'] as const).filter(part => definition[part]);
+      if (timerParts.length === 0) {
+        lines.push(`${indent}<bpmn:timerEventDefinition id="${id}" />`);
+        break;
+      }
+      lines.push(`${indent}<bpmn:timerEventDefinition id="${id}">`);
+      timerParts.forEach(part => {
+        lines.push(`${indent}  <bpmn:${part} xsi:type="bpmn:tFormalExpression">${escapeXml(definition[part]!)}</bpmn:${part}>`);
+      });
+      lines.push(`${indent}</bpmn:timerEventDefinition>`);
+      break;
+    }
+
+    case 'message':
+      lines.push(`${indent}<bpmn:messageEventDefinition id="${id}" messageRef="${escapeXml(element.id)}_Message" />`);
+      break;
+  }
+
+  return lines.join('\n');
+}
+
 /**
  * Generates XML for BPMN DI elements
  */
@@ -401,7 +1896,9 @@ function generateDiXml(diElement: BpmnDiElement, indent: string): string {
     lines.push(`${indent}</bpmndi:BPMNEdge>`);
   } else {
     // Shape (event, task, gateway)
-    lines.push(`${indent}<bpmndi:BPMNShape id="${escapeXml(diElement.id)}" bpmnElement="${escapeXml(diElement.bpmnElement)}">`);
+    const expanded = diElement.isExpanded !== undefined ? ` isExpanded="${diElement.isExpanded}"` : '';
+    const horizontal = diElement.isHorizontal !== undefined ? ` isHorizontal="${diElement.isHorizontal}"` : '';
+    lines.push(`${indent}<bpmndi:BPMNShape id="${escapeXml(diElement.id)}" bpmnElement="${escapeXml(diElement.bpmnElement)}"${expanded}${horizontal}>`);
     lines.push(`${indent}  <dc:Bounds x="${diElement.x}" y="${diElement.y}" width="${diElement.width}" height="${diElement.height}" />`);
     lines.push(`${indent}</bpmndi:BPMNShape>`);
   }
@@ -463,7 +1960,7 @@ export function testConverter(): void {
   };
 
   try {
-    const bpmnXml = convertPlanDefinitionToBpmn(samplePlanDefinition);
+    const { xml: bpmnXml } = convertPlanDefinitionToBpmn(samplePlanDefinition);
     console.log('Generated BPMN XML:');
     console.log(bpmnXml);
   } catch (error) {
@@ -0,0 +1,275 @@
+/**
+ * plandefinition-validation.ts
+ * Checks the structure of a FHIR PlanDefinition against the FHIR R4 rules
+ */
+
+import { buildActionGraph } from './action-graph';
+import { FhirAction } from './fhir-types';
+import { ElementDefinition, PLAN_DEFINITION, PrimitiveType, StructureDefinition } from './fhir-structures';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  /** FHIR path of the offending element, e.g. PlanDefinition.action[0].relatedAction[1].actionId */
+  path: string;
+  message: string;
+  /** Whether the issue is about the property name rather than its value */
+  onKey?: boolean;
+}
+
+const PRIMITIVE_PATTERNS: Partial<Record<PrimitiveType, RegExp>> = {
+  code: /^[^\s]+(\s[^\s]+)*$/,
+  id: /^[A-Za-z0-9\-.]{1,64}$/,
+  uri: /^\S*$/,
+  canonical: /^\S*$/,
+  integer: /^-?\d+$/,
+  date: /^\d{4}(-\d{2}(-\d{2})?)?$/,
+  dateTime: /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/
+};
+
+/**
+ * Validates a parsed PlanDefinition: element types, unknown elements, codes of
+ * required bindings, and the ids and relationships of its actions. Issue paths
+ * start with rootPath, e.g. Bundle.entry[0].resource for one in a Bundle.
+ */
+export function validatePlanDefinition(resource: unknown, rootPath = 'PlanDefinition'): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(resource)) {
+    issues.push({ severity: 'error', path: rootPath, message: 'A PlanDefinition must be a JSON object' });
+    return issues;
+  }
+  if (resource.resourceType !== 'PlanDefinition') {
+    issues.push({
+      severity: 'error',
+      path: `${rootPath}.resourceType`,
+      message: 'resourceType must be "PlanDefinition"'
+    });
+  }
+
+  validateStructure(resource, PLAN_DEFINITION, rootPath, issues);
+  if (Array.isArray(resource.action)) {
+    validateActionIds(resource.action, rootPath, issues);
+    validateRelationships(resource.action, rootPath, collectActionIds(resource.action), issues);
+  }
+  return issues;
+}
+
+/**
+ * Checks the elements of an object against a structure definition
+ */
+function validateStructure(
+  value: Record<string, unknown>,
+  definition: StructureDefinition,
+  path: string,
+  issues: ValidationIssue[]
+): void {
+  for (const [name, element] of Object.entries(definition)) {
+    if (element.required && value[name] === undefined) {
+      issues.push({ severity: 'error', path, message: `Missing required element "${name}"` });
+    }
+  }
+
+  for (const [name, elementValue] of Object.entries(value)) {
+    const elementPath = `${path}.${name}`;
+    // Primitive extensions live in a sibling property prefixed with an underscore
+    const element = definition[name.startsWith('_') ? name.slice(1) : name];
+    if (!element) {
+      issues.push({ severity: 'warning', path: elementPath, message: `Unknown element "${name}"`, onKey: true });
+    } else if (name.startsWith('_')) {
+      if (!isObject(elementValue) && !Array.isArray(elementValue)) {
+        issues.push({ severity: 'error', path: elementPath, message: 'Primitive extensions must be an object' });
+      }
+    } else {
+      validateElement(elementValue, element, elementPath, issues);
+    }
+  }
+}
+
+/**
+ * Checks the cardinality and the type of one element
+ */
+function validateElement(value: unknown, element: ElementDefinition, path: string, issues: ValidationIssue[]): void {
+  if (element.array) {
+    if (!Array.isArray(value)) {
+      issues.push({ severity: 'error', path, message: 'Expected an array' });
+      return;
+    }
+    if (value.length === 0) {
+      issues.push({ severity: 'error', path, message: 'Arrays must not be empty' });
+    }
+    value.forEach((item, i) => validateValue(item, element, `${path}[${i}]`, issues));
+  } else if (Array.isArray(value)) {
+    issues.push({ severity: 'error', path, message: 'Expected a single value, not an array' });
+  } else {
+    validateValue(value, element, path, issues);
+  }
+}
+
+function validateValue(value: unknown, element: ElementDefinition, path: string, issues: ValidationIssue[]): void {
+  if (value === null) {
+    issues.push({ severity: 'error', path, message: 'null is not allowed in FHIR JSON' });
+    return;
+  }
+
+  const { type } = element;
+  if (type === 'complex' || typeof type === 'object') {
+    if (!isObject(value)) {
+      issues.push({ severity: 'error', path, message: 'Expected an object' });
+    } else if (typeof type === 'object') {
+      validateStructure(value, type, path, issues);
+    }
+    return;
+  }
+
+  const typeError = checkPrimitive(value, type);
+  if (typeError) {
+    issues.push({ severity: 'error', path, message: typeError });
+  } else if (element.codes && !element.codes.includes(value as string)) {
+    issues.push({
+      severity: 'error',
+      path,
+      message: `Invalid code "${value}", expected one of: ${element.codes.join(', ')}`
+    });
+  }
+}
+
+/**
+ * Describes why a value is not a valid FHIR primitive of a type, if it is not
+ */
+function checkPrimitive(value: unknown, type: PrimitiveType): string | undefined {
+  switch (type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? undefined : 'Expected a boolean';
+    case 'integer':
+      return Number.isInteger(value) ? undefined : 'Expected an integer';
+    case 'decimal':
+      return typeof value === 'number' ? undefined : 'Expected a number';
+    default: {
+      if (typeof value !== 'string') return type === 'string' ? 'Expected a string' : `Expected a ${type} string`;
+      if (value.trim() === '') return 'Strings must not be empty';
+      const pattern = PRIMITIVE_PATTERNS[type];
+      return pattern && !pattern.test(value) ? `"${value}" is not a valid ${type}` : undefined;
+    }
+  }
+}
+
+/**
+ * Flags action ids used more than once anywhere in the PlanDefinition
+ */
+function validateActionIds(actions: unknown[], rootPath: string, issues: ValidationIssue[]): void {
+  const seen = new Map<string, string>();
+  forEachAction(actions, rootPath, (action, path) => {
+    if (typeof action.id !== 'string') return;
+    const first = seen.get(action.id);
+    if (first) {
+      issues.push({ severity: 'error', path: `${path}.id`, message: `Duplicate action id "${action.id}", also used by ${first}` });
+    } else {
+      seen.set(action.id, path);
+    }
+  });
+}
+
+/**
+ * Flags relatedAction references to actions that do not exist or are not
+ * siblings, and relationships that form a cycle
+ */
+function validateRelationships(
+  actions: unknown[],
+  parentPath: string,
+  allIds: Set<string>,
+  issues: ValidationIssue[]
+): void {
+  const siblings = actions.filter(isObject) as FhirAction[];
+  if (siblings.length !== actions.length) return;
+  const siblingIds = new Set(siblings.map(action => action.id).filter(id => id !== undefined));
+
+  siblings.forEach((action, i) => {
+    const path = `${parentPath}.action[${i}]`;
+    (Array.isArray(action.relatedAction) ? action.relatedAction : []).forEach((related, r) => {
+      const actionId = isObject(related) ? related.actionId : undefined;
+      if (typeof actionId !== 'string' || siblingIds.has(actionId)) return;
+      const relatedPath = `${path}.relatedAction[${r}].actionId`;
+      if (allIds.has(actionId)) {
+        issues.push({
+          severity: 'warning',
+          path: relatedPath,
+          message: `Action "${actionId}" is not a sibling, so this relationship is ignored`
+        });
+      } else {
+        issues.push({ severity: 'error', path: relatedPath, message: `No action has the id "${actionId}"` });
+      }
+    });
+
+    if (Array.isArray(action.action)) {
+      validateRelationships(action.action, path, allIds, issues);
+    }
+  });
+
+  // The action graph drops the relationships that would close a cycle or that order concurrent actions
+  const graph = buildActionGraph(siblings.map(action => ({
+    ...action,
+    relatedAction: Array.isArray(action.relatedAction) ? action.relatedAction.filter(isObject) : undefined
+  })));
+  for (const edge of graph.ignored) {
+    const entry = findRelationship(siblings, edge.from, edge.to);
+    if (!entry) continue;
+    const pair = [siblings[edge.from].id, siblings[edge.to].id].join('" and "');
+    issues.push({
+      severity: 'error',
+      path: `${parentPath}.action[${entry.action}].relatedAction[${entry.index}]`,
+      message: edge.reason === 'concurrent'
+        ? `Relationship between "${pair}" orders actions that also run concurrently and is ignored`
+        : `Relationship between "${pair}" is cyclic and is ignored`
+    });
+  }
+}
+
+/**
+ * Finds the relatedAction entry that orders one sibling before another
+ */
+function findRelationship(
+  siblings: FhirAction[],
+  from: number,
+  to: number
+): { action: number; index: number } | undefined {
+  const relatedFrom = siblings[from].relatedAction || [];
+  const before = relatedFrom.findIndex(r =>
+    r.actionId === siblings[to].id && r.relationship?.startsWith('before')
+  );
+  if (before >= 0) return { action: from, index: before };
+
+  const relatedTo = siblings[to].relatedAction || [];
+  const after = relatedTo.findIndex(r =>
+    r.actionId === siblings[from].id && r.relationship?.startsWith('after')
+  );
+  return after >= 0 ? { action: to, index: after } : undefined;
+}
+
+function collectActionIds(actions: unknown[]): Set<string> {
+  const ids = new Set<string>();
+  forEachAction(actions, 'PlanDefinition', action => {
+    if (typeof action.id === 'string') ids.add(action.id);
+  });
+  return ids;
+}
+
+/**
+ * Visits every action object, depth first, with its FHIR path
+ */
+function forEachAction(
+  actions: unknown[],
+  parentPath: string,
+  visit: (action: Record<string, unknown>, path: string) => void
+): void {
+  actions.forEach((action, i) => {
+    if (!isObject(action)) return;
+    const path = `${parentPath}.action[${i}]`;
+    visit(action, path);
+    if (Array.isArray(action.action)) forEachAction(action.action, path, visit);
+  });
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { FhirActivityDefinition } from './fhir-types';
+import { isPlanDefinitionCanonical, resolveTaskType } from './task-type-mapping';
+
+describe('resolveTaskType', () => {
+  const definition = (kind: string, participantType?: string): FhirActivityDefinition => ({
+    resourceType: 'ActivityDefinition',
+    kind,
+    participant: participantType ? [{ type: participantType }] : undefined
+  });
+
+  it('maps the action type', () => {
+    expect(resolveTaskType({ type: { coding: [{ code: 'fire-event' }] } }, undefined)).toBe('sendTask');
+    expect(resolveTaskType({ type: { coding: [{ code: 'create' }] } }, undefined)).toBe('serviceTask');
+  });
+
+  it('maps the kind of the ActivityDefinition', () => {
+    expect(resolveTaskType({}, definition('CommunicationRequest'))).toBe('sendTask');
+    expect(resolveTaskType({}, definition('MedicationRequest'))).toBe('userTask');
+  });
+
+  it('takes the participants of the action and of the ActivityDefinition into account', () => {
+    expect(resolveTaskType({}, definition('ServiceRequest', 'device'))).toBe('serviceTask');
+    expect(resolveTaskType({ participant: [{ type: 'device' }] }, definition('ServiceRequest'))).toBe('serviceTask');
+    expect(resolveTaskType({ participant: [{ type: 'practitioner' }] }, undefined)).toBe('userTask');
+  });
+
+  it('lets the first matching rule decide', () => {
+    const action = { type: { coding: [{ code: 'create' }] }, participant: [{ type: 'practitioner' }] };
+
+    expect(resolveTaskType(action, undefined)).toBe('userTask');
+    expect(resolveTaskType(action, undefined, [{ actionType: 'create', taskType: 'scriptTask' }])).toBe('scriptTask');
+  });
+
+  it('falls back to a plain task', () => {
+    expect(resolveTaskType({ title: 'Review' }, undefined)).toBe('task');
+    expect(resolveTaskType({ type: { coding: [{ code: 'create' }] } }, undefined, [])).toBe('task');
+  });
+});
+
+describe('isPlanDefinitionCanonical', () => {
+  it('recognizes PlanDefinition references with or without a version', () => {
+    expect(isPlanDefinitionCanonical('http://example.org/fhir/PlanDefinition/diabetes|1.0')).toBe(true);
+    expect(isPlanDefinitionCanonical('http://example.org/fhir/ActivityDefinition/hba1c')).toBe(false);
+  });
+});
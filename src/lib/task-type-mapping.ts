@@ -0,0 +1,91 @@
+/**
+ * task-type-mapping.ts
+ * Chooses the BPMN task type for a FHIR action
+ */
+
+import { FhirAction, FhirActivityDefinition } from './fhir-types';
+
+export type BpmnTaskType =
+  | 'task'
+  | 'userTask'
+  | 'manualTask'
+  | 'serviceTask'
+  | 'sendTask'
+  | 'receiveTask'
+  | 'scriptTask'
+  | 'businessRuleTask';
+
+/**
+ * A mapping rule. Every criterion that is set must match; a rule without
+ * criteria always matches.
+ */
+export interface TaskTypeRule {
+  /** Code of action.type, e.g. "create" or "fire-event" */
+  actionType?: string;
+  /** Resource the action creates: the referenced ActivityDefinition's kind */
+  resourceKind?: string;
+  /** Type of any of the action's participants, e.g. "device" or "practitioner" */
+  participantType?: string;
+  taskType: BpmnTaskType;
+}
+
+/**
+ * Ordered list of rules; the first matching rule decides the task type.
+ * Projects can pass their own list, typically their rules followed by the defaults.
+ */
+export type TaskTypeMapping = TaskTypeRule[];
+
+export const DEFAULT_TASK_TYPE_MAPPING: TaskTypeMapping = [
+  { actionType: 'fire-event', taskType: 'sendTask' },
+  { resourceKind: 'CommunicationRequest', taskType: 'sendTask' },
+  { resourceKind: 'ServiceRequest', participantType: 'device', taskType: 'serviceTask' },
+  { resourceKind: 'ServiceRequest', taskType: 'userTask' },
+  { resourceKind: 'Task', taskType: 'userTask' },
+  { resourceKind: 'MedicationRequest', taskType: 'userTask' },
+  { resourceKind: 'NutritionOrder', taskType: 'userTask' },
+  { resourceKind: 'Appointment', taskType: 'userTask' },
+  { resourceKind: 'ImmunizationRecommendation', taskType: 'userTask' },
+  { resourceKind: 'SupplyRequest', taskType: 'userTask' },
+  { resourceKind: 'DeviceRequest', taskType: 'userTask' },
+  { resourceKind: 'VisionPrescription', taskType: 'userTask' },
+  { resourceKind: 'RequestGroup', taskType: 'userTask' },
+  { participantType: 'device', taskType: 'serviceTask' },
+  { participantType: 'practitioner', taskType: 'userTask' },
+  { participantType: 'practitionerrole', taskType: 'userTask' },
+  { participantType: 'careteam', taskType: 'userTask' },
+  { participantType: 'patient', taskType: 'userTask' },
+  { participantType: 'relatedperson', taskType: 'userTask' },
+  { actionType: 'create', taskType: 'serviceTask' },
+  { actionType: 'update', taskType: 'serviceTask' },
+  { actionType: 'remove', taskType: 'serviceTask' }
+];
+
+/**
+ * Picks the BPMN task type for an action from its type codes, the kind of the
+ * ActivityDefinition it references and its participants. Falls back to a plain task.
+ */
+export function resolveTaskType(
+  action: FhirAction,
+  definition: FhirActivityDefinition | undefined,
+  mapping: TaskTypeMapping = DEFAULT_TASK_TYPE_MAPPING
+): BpmnTaskType {
+  const actionTypes = (action.type?.coding || []).map(c => c.code).filter(Boolean);
+  const participantTypes = [...(action.participant || []), ...(definition?.participant || [])]
+    .map(p => p.type)
+    .filter(Boolean);
+
+  const rule = mapping.find(r =>
+    (r.actionType === undefined || actionTypes.includes(r.actionType)) &&
+    (r.resourceKind === undefined || definition?.kind === r.resourceKind) &&
+    (r.participantType === undefined || participantTypes.includes(r.participantType))
+  );
+
+  return rule ? rule.taskType : 'task';
+}
+
+/**
+ * Checks whether a canonical URL points at another PlanDefinition
+ */
+export function isPlanDefinitionCanonical(canonical: string): boolean {
+  return /(^|\/)PlanDefinition\/[^/]+$/.test(canonical.split('|')[0]);
+}
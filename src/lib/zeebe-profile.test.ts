@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { BpmnElement } from './BpmnFactory';
+import { findZeebeProblems, getZeebeLoopExtensions, getZeebeMessageExtensions } from './zeebe-profile';
+
+const messageEvent = (id: string, type: string): BpmnElement =>
+  ({ id, type, name: 'lab-result', eventDefinition: { type: 'message', messageName: 'lab-result' } });
+
+describe('getZeebeMessageExtensions', () => {
+  it('correlates messages on the id of the patient variable', () => {
+    expect(getZeebeMessageExtensions(messageEvent('Event_1', 'intermediateEvent'))).toEqual([
+      { name: 'zeebe:subscription', attributes: { correlationKey: '=patient.id' } }
+    ]);
+  });
+
+  it('subscribes no start event', () => {
+    expect(getZeebeMessageExtensions(messageEvent('StartEvent_1', 'startEvent'))).toEqual([]);
+  });
+});
+
+describe('getZeebeLoopExtensions', () => {
+  it('runs a counted multi-instance activity over a range', () => {
+    expect(getZeebeLoopExtensions({ type: 'multiInstance', loopCardinality: '3' })).toEqual([
+      {
+        name: 'zeebe:loopCharacteristics',
+        attributes: { inputCollection: '=for i in 1..3 return i', inputElement: 'item' }
+      }
+    ]);
+  });
+});
+
+describe('findZeebeProblems', () => {
+  it('reports the variables message subscriptions and uncounted instances need', () => {
+    const problems = findZeebeProblems([
+      messageEvent('Event_1', 'intermediateEvent'),
+      messageEvent('StartEvent_1', 'startEvent'),
+      { id: 'Task_1', type: 'task', name: 'Order labs', loopCharacteristics: { type: 'multiInstance' } }
+    ]);
+
+    expect(problems.map(p => [p.element.id, p.code])).toEqual([
+      ['Event_1', 'zeebe-missing-correlation-key'],
+      ['Task_1', 'zeebe-missing-input-collection']
+    ]);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * zeebe-profile.ts
+ * Camunda 8 extension elements that make the generated BPMN deployable to Zeebe
+ */
+
+import { BpmnElement, BpmnEventDefinition, BpmnLoopCharacteristics } from './BpmnFactory';
+import { SUBJECT_VARIABLE } from './expression-translator';
+
+export const ZEEBE_NAMESPACE = 'http://camunda.org/schema/zeebe/1.0';
+export const MODELER_NAMESPACE = 'http://camunda.org/schema/modeler/1.0';
+
+// Native user tasks and joining inclusive gateways need this version or later
+export const ZEEBE_PLATFORM_VERSION = '8.6.0';
+
+// Message events are correlated on the id of the patient the translated conditions read.
+// Nothing in the process sets that variable, so findZeebeProblems reports every subscription.
+const CORRELATION_KEY = `${SUBJECT_VARIABLE}.id`;
+
+// Collection that multi-instance activities without a count run over, one instance per item.
+// No action defines it, so findZeebeProblems reports every activity that uses it.
+const INPUT_COLLECTION = 'items';
+
+// Tasks that Zeebe hands to a job worker of the task's job type
+const JOB_WORKER_TASKS = ['serviceTask', 'sendTask', 'scriptTask', 'businessRuleTask'];
+
+/**
+ * An extension element, e.g. zeebe:taskDefinition, with its attributes and children
+ */
+export interface ExtensionElement {
+  name: string;
+  attributes?: Record<string, string>;
+  children?: ExtensionElement[];
+}
+
+/**
+ * A construct Zeebe cannot deploy or execute as generated
+ */
+export interface ZeebeProblem {
+  element: BpmnElement;
+  code: string;
+  message: string;
+}
+
+/**
+ * Builds the Zeebe extension elements of an activity: the job type of tasks that
+ * workers perform, native user tasks assigned to the action's participants,
+ * the process a call activity starts, and the dynamicValues as output mappings
+ */
+export function getZeebeExtensions(element: BpmnElement, elements: BpmnElement[]): ExtensionElement[] {
+  const extensions: ExtensionElement[] = [];
+
+  if (JOB_WORKER_TASKS.includes(element.type)) {
+    extensions.push({ name: 'zeebe:taskDefinition', attributes: { type: element.implementation || element.id } });
+  }
+  if (element.type === 'userTask') {
+    extensions.push({ name: 'zeebe:userTask' });
+    if (element.performers && element.performers.length > 0) {
+      extensions.push({ name: 'zeebe:assignmentDefinition', attributes: { candidateGroups: element.performers.join(',') } });
+    }
+  }
+  if (element.type === 'callActivity' && element.calledElement) {
+    extensions.push({ name: 'zeebe:calledElement', attributes: { processId: element.calledElement } });
+  }
+
+  const assignments = elements
+    .filter(e => e.type === 'dataOutputAssociation' && e.sourceRef === element.id)
+    .flatMap(association => association.assignments || []);
+  if (assignments.length > 0) {
+    extensions.push({
+      name: 'zeebe:ioMapping',
+      children: assignments.map(assignment => ({
+        name: 'zeebe:output',
+        attributes: { source: toFeelExpression(assignment.from), target: assignment.to }
+      }))
+    });
+  }
+
+  return extensions;
+}
+
+/**
+ * Builds the Zeebe extension of multi-instance loop characteristics. Zeebe runs
+ * one instance per item of a collection, so a count becomes a range.
+ */
+export function getZeebeLoopExtensions(loop: BpmnLoopCharacteristics): ExtensionElement[] {
+  if (loop.type !== 'multiInstance') return [];
+  const inputCollection = loop.loopCardinality ? `=for i in 1..${loop.loopCardinality} return i` : `=${INPUT_COLLECTION}`;
+  return [{ name: 'zeebe:loopCharacteristics', attributes: { inputCollection, inputElement: 'item' } }];
+}
+
+/**
+ * Builds the subscription of a message that intermediate and boundary events wait for;
+ * messages that start a process need none
+ */
+export function getZeebeMessageExtensions(event: BpmnElement): ExtensionElement[] {
+  if (event.type === 'startEvent') return [];
+  return [{ name: 'zeebe:subscription', attributes: { correlationKey: `=${CORRELATION_KEY}` } }];
+}
+
+/**
+ * Adapts the event definition of an event to what Zeebe allows. Timer cycles
+ * can only start a process or repeat a boundary event, so an intermediate
+ * event waits for the next occurrence instead.
+ */
+export function getZeebeEventDefinition(event: BpmnElement): BpmnEventDefinition {
+  const definition = event.eventDefinition!;
+  if (event.type !== 'intermediateEvent' || !definition.timeCycle) return definition;
+
+  const interval = definition.timeCycle.substring(definition.timeCycle.lastIndexOf('/') + 1);
+  return interval.startsWith('P') ? { type: 'timer', timeDuration: interval } : definition;
+}
+
+/**
+ * Marks an expression as FEEL, which Zeebe expects wherever a value may be computed
+ */
+export function toFeelExpression(expression: string): string {
+  return expression.startsWith('=') ? expression : `=${expression}`;
+}
+
+/**
+ * Finds the constructs Zeebe rejects on deployment or cannot evaluate, so they
+ * can be reported before the diagram is deployed
+ */
+export function findZeebeProblems(elements: BpmnElement[]): ZeebeProblem[] {
+  const problems: ZeebeProblem[] = [];
+
+  for (const element of elements) {
+    if (element.eventDefinition?.type === 'conditional') {
+      problems.push({ element, code: 'zeebe-unsupported-element',
+        message: `Camunda ${ZEEBE_PLATFORM_VERSION} does not support conditional events` });
+    }
+    if (element.type === 'receiveTask') {
+      problems.push({ element, code: 'zeebe-unsupported-element',
+        message: 'Receive tasks need a message to correlate, which the action does not name' });
+    }
+    if (element.loopCharacteristics?.type === 'standard') {
+      problems.push({ element, code: 'zeebe-unsupported-element',
+        message: 'Zeebe does not support standard loops, only multi-instance activities' });
+    }
+    if (element.loopCharacteristics?.type === 'multiInstance' && !element.loopCharacteristics.loopCardinality) {
+      problems.push({ element, code: 'zeebe-missing-input-collection',
+        message: `The action gives no count or collection to run "${element.name || element.id}" for, so it runs over ` +
+          `the "${INPUT_COLLECTION}" variable, which the process has to provide` });
+    }
+    if (element.eventDefinition?.type === 'message' && element.type !== 'startEvent') {
+      problems.push({ element, code: 'zeebe-missing-correlation-key',
+        message: `"${element.name || element.id}" waits for a message correlated on ${CORRELATION_KEY}, ` +
+          `so the process has to provide the "${SUBJECT_VARIABLE}" variable` });
+    }
+
+    if (element.type === 'exclusiveGateway' || element.type === 'inclusiveGateway') {
+      const outgoing = elements.filter(e => e.type === 'sequenceFlow' && e.sourceRef === element.id);
+      const unconditioned = outgoing.filter(flow => !flow.conditionExpression && flow.id !== element.default);
+      if (outgoing.length > 1 && unconditioned.length > 0) {
+        problems.push({ element, code: 'zeebe-missing-condition',
+          message: `${unconditioned.length} of the flows leaving "${element.name || element.id}" have no condition, which Zeebe requires` });
+      }
+    }
+  }
+
+  return problems;
+}